@@ -10,28 +10,49 @@ import type {
   QueryOptions,
   UpdateFilter,
   UpdateResult,
+  UpdateOperators,
+  UpdateOptions,
+  SessionOptions,
   DeleteResult,
   FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
   QueryBuilder,
   PopulateOptions,
-  SyncOptions
+  SyncOptions,
+  SchemaFieldDefinition,
+  LeanResult,
+  QueryContext,
+  PipelineStage,
+  DatabaseAdapter,
+  SchemaDocument,
+  ReadPreference,
+  CursorOptions,
+  PaginateOptions,
+  PaginateResult,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult,
+  BulkWriteOperationError
 } from './types';
 import { Schema } from './Schema';
-import { connectionManager } from './connection';
+import type { Transaction } from './Transaction';
+import { connectionManager, type Connection } from './connection';
 import { SchemaSyncManager } from './sync';
-
-// Model registry
-const models: Map<string, IModel> = new Map();
-
-// Sync durumu takibi
-const syncedModels: Set<string> = new Set();
+import { planPopulate, populateBatched, depopulate } from './populate';
+import { withStorageMapping, toStorageSchema } from './subdocument';
+import { DEFAULT_BATCH_SIZE } from './adapters/base';
+import { emptyBulkWriteResult, toOperationError } from './adapters/bulk';
+import { BulkWriteError, TransactionTimeoutError } from './errors';
+import { DEFAULT_PAGE_SIZE, withTieBreaker, reverseSort, keysetFilter, encodeCursor, decodeCursor } from './utils/pagination';
+import { equalityFields } from './utils/query-parser';
 
 /**
  * QueryBuilder implementasyonu
  * Zincirleme method çağrıları için
  */
 function createQueryBuilder<T>(
-  executor: (options: QueryOptions) => Promise<T>
+  executor: (options: QueryOptions) => Promise<T>,
+  streamer?: (options: QueryOptions) => AsyncIterableIterator<unknown>
 ): QueryBuilder<T> {
   const options: QueryOptions = {};
 
@@ -65,12 +86,29 @@ function createQueryBuilder<T>(
       return builder;
     },
     populate(opts: string | PopulateOptions | (string | PopulateOptions)[]) {
-      options.populate = opts;
+      // Zincirleme populate çağrıları birikir
+      const current = options.populate ? ([] as (string | PopulateOptions)[]).concat(options.populate) : [];
+      options.populate = current.concat(opts);
+      return builder;
+    },
+    read(preference: ReadPreference) {
+      options.read = preference;
       return builder;
     },
+    session(trx: Transaction) {
+      options.session = trx;
+      return builder;
+    },
+    cursor(cursorOptions: CursorOptions = {}) {
+      if (!streamer) {
+        throw new Error('cursor() is only supported for find()');
+      }
+      return streamer({ ...options, ...cursorOptions });
+    },
     lean() {
       // lean mode - returns plain objects instead of wrapped documents
-      return builder;
+      options.lean = true;
+      return builder as unknown as QueryBuilder<LeanResult<T>>;
     },
     exec() {
       return executor(options);
@@ -92,10 +130,70 @@ function createQueryBuilder<T>(
   return builder;
 }
 
+/**
+ * Model koleksiyonu için adapter'ı getir (flatten edilmiş alt doküman eşlemesiyle)
+ * session verilirse adapter çağrıları o transaction'ın bağlantısında çalışır
+ */
+function getAdapter(connection: Connection, collectionName: string, schema: Schema, session?: Transaction): DatabaseAdapter {
+  const adapter = withStorageMapping(connection.getAdapter(), collectionName, schema);
+  return session ? bindSession(adapter, session) : adapter;
+}
+
+/**
+ * Adapter method'larını transaction scope'unda çalıştıran sarmalayıcı
+ * Cursor'un her adımı da scope içinde çalışır (async generator gövdesi next() çağrısında ilerler)
+ */
+function bindSession(adapter: DatabaseAdapter, session: Transaction): DatabaseAdapter {
+  if (session.isTimedOut) {
+    throw new TransactionTimeoutError(session.timeout!);
+  }
+  if (!session.isActive) {
+    throw new Error('Transaction is not active');
+  }
+
+  return new Proxy(adapter, {
+    get(target, key, receiver) {
+      const value = Reflect.get(target, key, receiver);
+      if (typeof value !== 'function') return value;
+
+      return (...args: unknown[]) => {
+        const result = session.run(() => value.apply(target, args));
+        if (key !== 'findCursor') return result;
+
+        const iterator = (result as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+        return {
+          next: () => session.run(() => iterator.next()),
+          return: () => session.run(() => iterator.return?.() ?? Promise.resolve({ done: true as const, value: undefined })),
+          [Symbol.asyncIterator]() { return this; }
+        };
+      };
+    }
+  });
+}
+
+/**
+ * Dokümanın veritabanına yazılacak alanlarını ayıkla
+ * Method ve virtual'lar atlanır, populate edilmiş ref'ler id'ye geri çevrilir
+ */
+function toPersistable(doc: Record<string, unknown>, schema: Schema): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const key of Object.keys(doc)) {
+    const value = doc[key];
+    if (typeof value === 'function' || schema.virtuals.has(key)) continue;
+
+    const def = schema.definition[key] as SchemaFieldDefinition | undefined;
+    data[key] = def?.ref ? depopulate(value) : value;
+  }
+
+  return data;
+}
+
 /**
  * Document wrapper - instance methods ve save/remove ekler
  */
 function wrapDocument<T extends Document>(
+  connection: Connection,
   data: Record<string, unknown>,
   schema: Schema,
   collectionName: string
@@ -117,8 +215,8 @@ function wrapDocument<T extends Document>(
   }
 
   // save() method
-  (doc as any).save = async function(): Promise<T> {
-    const adapter = connectionManager.getAdapter();
+  (doc as any).save = async function(options?: SessionOptions): Promise<T> {
+    const adapter = getAdapter(connection, collectionName, schema, options?.session);
     
     // Pre-save hooks
     await schema.runHooks('pre', 'save', doc);
@@ -133,10 +231,10 @@ function wrapDocument<T extends Document>(
 
     if (doc._id) {
       // Update existing
-      await adapter.updateOne(collectionName, { _id: doc._id }, { $set: doc });
+      await adapter.updateOne(collectionName, { _id: doc._id }, { $set: toPersistable(doc, schema) });
     } else {
       // Insert new
-      const result = await adapter.insertOne(collectionName, doc);
+      const result = await adapter.insertOne(collectionName, toPersistable(doc, schema));
       Object.assign(doc, result);
     }
     
@@ -147,8 +245,8 @@ function wrapDocument<T extends Document>(
   };
 
   // remove() method
-  (doc as any).remove = async function(): Promise<void> {
-    const adapter = connectionManager.getAdapter();
+  (doc as any).remove = async function(options?: SessionOptions): Promise<void> {
+    const adapter = getAdapter(connection, collectionName, schema, options?.session);
     
     // Pre-remove hooks
     await schema.runHooks('pre', 'remove', doc);
@@ -181,13 +279,26 @@ function wrapDocument<T extends Document>(
  * 
  * @example
  * ```ts
- * const User = model('User', UserSchema);
+ * const User = model('User', UserSchema);          // tip schema'dan çıkarılır
+ * const Post = model<IPost>('Post', PostSchema);    // veya açıkça verilir
  * ```
  */
-export function model<T extends Document = Document>(
+export function model<S extends Schema<any, any>>(name: string, schema: S): IModel<SchemaDocument<S>>;
+export function model<T extends Document>(name: string, schema: Schema<any, any>): IModel<T>;
+export function model(name: string, schema: Schema<any, any>): IModel {
+  return createModel(connectionManager, name, schema);
+}
+
+/**
+ * Verilen bağlantıya bağlı model oluştur (connection.model() bunu kullanır)
+ */
+export function createModel<T extends Document = Document>(
+  connection: Connection,
   name: string,
-  schema: Schema
+  schema: Schema<any, any>
 ): IModel<T> {
+  const { models, syncedModels } = connection;
+
   // Zaten varsa döndür
   if (models.has(name)) {
     return models.get(name) as IModel<T>;
@@ -197,24 +308,25 @@ export function model<T extends Document = Document>(
 
   // Sync manager
   const getSyncManager = () => {
-    const adapter = connectionManager.getAdapter();
-    return new SchemaSyncManager(adapter, collectionName, schema);
+    const adapter = connection.getAdapter();
+    const storageSchema = adapter.name === 'mongodb' ? schema : toStorageSchema(schema);
+    return new SchemaSyncManager(adapter, collectionName, storageSchema);
   };
 
   // Auto-sync helper - ilk işlemde otomatik sync
   async function ensureSynced(): Promise<void> {
     if (syncedModels.has(name)) return;
     
-    if (connectionManager.syncEnabled) {
+    if (connection.syncEnabled) {
       const syncManager = getSyncManager();
-      await syncManager.sync(connectionManager.syncOptions);
+      await syncManager.sync(connection.syncOptions);
       syncedModels.add(name);
     }
   }
 
   // Helper function for single document creation
-  async function createSingleDoc(doc: Partial<T>): Promise<T> {
-    const adapter = connectionManager.getAdapter();
+  async function createSingleDoc(doc: Partial<T>, session?: Transaction): Promise<T> {
+    const adapter = getAdapter(connection, collectionName, schema, session);
     
     // Auto-sync eğer aktifse
     await ensureSynced();
@@ -226,7 +338,7 @@ export function model<T extends Document = Document>(
     const docData = schema.applyDefaults(doc as Record<string, unknown>);
     
     // Create wrapped document for hooks
-    const wrappedDoc = wrapDocument<T>(docData, schema, collectionName);
+    const wrappedDoc = wrapDocument<T>(connection, docData, schema, collectionName);
     
     // Pre-save hooks
     await schema.runHooks('pre', 'save', wrappedDoc);
@@ -235,17 +347,63 @@ export function model<T extends Document = Document>(
     await schema.validate(wrappedDoc);
     
     // Insert
-    const result = await adapter.insertOne(collectionName, wrappedDoc);
+    const result = await adapter.insertOne(collectionName, toPersistable(wrappedDoc, schema));
     
     // Post-save hooks
-    const finalDoc = wrapDocument<T>(result, schema, collectionName);
+    const finalDoc = wrapDocument<T>(connection, result, schema, collectionName);
     await schema.runHooks('post', 'save', finalDoc);
     
     return finalDoc;
   }
 
+  // Upsert'te eklenen satırın varsayılanları: filtre ve update'te olmayan alanlar $setOnInsert'e yazılır
+  function withInsertDefaults(filter: QueryFilter, update: UpdateFilter): UpdateFilter {
+    const hasOperators = Object.keys(update).some(key => key.startsWith('$'));
+    const ops = (hasOperators ? update : { $set: update }) as UpdateOperators;
+    const touched = new Set([
+      ...Object.keys(equalityFields(filter)),
+      ...Object.values(ops).flatMap(fields => Object.keys(fields ?? {}).map(key => key.split('.')[0]))
+    ]);
+
+    const defaults = Object.entries(schema.applyDefaults({})).filter(([key]) => !touched.has(key));
+    if (defaults.length === 0) return update;
+    return { ...ops, $setOnInsert: { ...Object.fromEntries(defaults), ...ops.$setOnInsert } };
+  }
+
+  // bulkWrite işlemini yazılacak hale getir: dokümanlara default + doğrulama, update'lere updatedAt
+  async function prepareBulkOperation(op: BulkWriteOperation, now: Date): Promise<BulkWriteOperation> {
+    const prepareDoc = async (doc: Record<string, unknown>) => {
+      const data = schema.applyDefaults(doc);
+      await schema.validate(data);
+      return toPersistable(data, schema);
+    };
+
+    if ('insertOne' in op) {
+      return { insertOne: { document: await prepareDoc(op.insertOne.document) } };
+    }
+    if ('replaceOne' in op) {
+      return { replaceOne: { ...op.replaceOne, replacement: await prepareDoc(op.replaceOne.replacement) } };
+    }
+    if ('updateOne' in op || 'updateMany' in op) {
+      const { filter, update, upsert } = 'updateOne' in op ? op.updateOne : op.updateMany;
+      let prepared = update;
+      if (schema.options.timestamps) {
+        const hasOperators = Object.keys(update).some(key => key.startsWith('$'));
+        prepared = hasOperators
+          ? { ...update, $set: { ...(update.$set as Record<string, unknown>), updatedAt: now } }
+          : { ...update, updatedAt: now };
+      }
+      if (upsert) prepared = withInsertDefaults(filter, prepared);
+      return 'updateOne' in op
+        ? { updateOne: { ...op.updateOne, update: prepared } }
+        : { updateMany: { ...op.updateMany, update: prepared } };
+    }
+    return op;
+  }
+
   const Model: IModel<T> = {
     modelName: name,
+    collectionName,
     schema: schema,
 
     // SYNC - Tabloyu schema ile senkronize et
@@ -257,23 +415,39 @@ export function model<T extends Document = Document>(
     },
 
     // CREATE - using type assertion to satisfy overloaded interface
-    create: (async (docOrDocs: Partial<T> | Partial<T>[]): Promise<T | T[]> => {
+    create: (async (docOrDocs: Partial<T> | Partial<T>[], options?: SessionOptions): Promise<T | T[]> => {
       if (Array.isArray(docOrDocs)) {
         const results: T[] = [];
         for (const doc of docOrDocs) {
-          const result = await createSingleDoc(doc);
+          const result = await createSingleDoc(doc, options?.session);
           results.push(result);
         }
         return results;
       }
-      return createSingleDoc(docOrDocs);
+      return createSingleDoc(docOrDocs, options?.session);
     }) as IModel<T>['create'],
 
-    async insertMany(docs: Partial<T>[]): Promise<T[]> {
-      const results: T[] = [];
+    async insertMany(docs: Partial<T>[], options?: SessionOptions): Promise<T[]> {
+      if (docs.length === 0) return [];
+
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
+      await ensureSynced();
+      await adapter.createCollection(collectionName, schema);
+
+      // Hook'lar ve doğrulama doküman başına, INSERT tek seferde (çok satırlı)
+      const wrapped: T[] = [];
       for (const doc of docs) {
-        const result = await createSingleDoc(doc);
-        results.push(result);
+        const wrappedDoc = wrapDocument<T>(connection, schema.applyDefaults(doc as Record<string, unknown>), schema, collectionName);
+        await schema.runHooks('pre', 'save', wrappedDoc);
+        await schema.validate(wrappedDoc);
+        wrapped.push(wrappedDoc);
+      }
+
+      const rows = await adapter.insertMany(collectionName, wrapped.map(doc => toPersistable(doc, schema)));
+      const results = rows.map(row => wrapDocument<T>(connection, row, schema, collectionName));
+
+      for (const doc of results) {
+        await schema.runHooks('post', 'save', doc);
       }
       return results;
     },
@@ -281,59 +455,186 @@ export function model<T extends Document = Document>(
     // READ
     find(filter: QueryFilter = {}, options?: QueryOptions): QueryBuilder<T[]> {
       return createQueryBuilder<T[]>(async (opts) => {
-        const adapter = connectionManager.getAdapter();
+        const adapter = getAdapter(connection, collectionName, schema, opts.session ?? options?.session);
         await adapter.createCollection(collectionName, schema);
         
-        const mergedOptions = { ...options, ...opts };
-        const results = await adapter.find(collectionName, filter, mergedOptions);
+        const context: QueryContext = { op: 'find', model: name, filter, options: { ...options, ...opts } };
+        await schema.runQueryHooks('pre', 'find', context);
         
-        return results.map(doc => wrapDocument<T>(doc, schema, collectionName));
+        const { joins, batched } = await planPopulate(adapter, schema, context.options.populate, ref => models.get(ref));
+        const results = await adapter.find(collectionName, context.filter, { ...context.options, joins });
+        await populateBatched(adapter, results, batched);
+        
+        const docs = context.options.lean
+          ? results as T[]
+          : results.map(doc => wrapDocument<T>(connection, doc, schema, collectionName));
+        
+        await schema.runQueryHooks('post', 'find', context, docs);
+        return docs;
+      }, async function* (opts) {
+        const adapter = getAdapter(connection, collectionName, schema, opts.session ?? options?.session);
+        await adapter.createCollection(collectionName, schema);
+        
+        // Post hook'ları tüm sonucu beklediği için cursor'da sadece pre hook'lar çalışır
+        const context: QueryContext = { op: 'find', model: name, filter, options: { ...options, ...opts } };
+        await schema.runQueryHooks('pre', 'find', context);
+        
+        const { joins, batched } = await planPopulate(adapter, schema, context.options.populate, ref => models.get(ref));
+        const rows = adapter.findCursor(collectionName, context.filter, { ...context.options, joins });
+        const toDoc = (row: Record<string, unknown>) => context.options.lean
+          ? row as T
+          : wrapDocument<T>(connection, row, schema, collectionName);
+        
+        if (batched.length === 0) {
+          for await (const row of rows) yield toDoc(row);
+          return;
+        }
+        
+        // Toplu populate için satırları batchSize'lık parçalarla topla
+        const batchSize = context.options.batchSize ?? DEFAULT_BATCH_SIZE;
+        let chunk: Record<string, unknown>[] = [];
+        
+        for await (const row of rows) {
+          chunk.push(row);
+          if (chunk.length < batchSize) continue;
+          
+          await populateBatched(adapter, chunk, batched);
+          yield* chunk.map(toDoc);
+          chunk = [];
+        }
+        
+        await populateBatched(adapter, chunk, batched);
+        yield* chunk.map(toDoc);
       });
     },
 
     findOne(filter: QueryFilter = {}, options?: QueryOptions): QueryBuilder<T | null> {
       return createQueryBuilder<T | null>(async (opts) => {
-        const adapter = connectionManager.getAdapter();
+        const adapter = getAdapter(connection, collectionName, schema, opts.session ?? options?.session);
         await adapter.createCollection(collectionName, schema);
         
-        const mergedOptions = { ...options, ...opts };
-        const result = await adapter.findOne(collectionName, filter, mergedOptions);
+        const context: QueryContext = { op: 'findOne', model: name, filter, options: { ...options, ...opts } };
+        await schema.runQueryHooks('pre', 'findOne', context);
+        
+        const { joins, batched } = await planPopulate(adapter, schema, context.options.populate, ref => models.get(ref));
+        const result = await adapter.findOne(collectionName, context.filter, { ...context.options, joins });
+        if (result) await populateBatched(adapter, [result], batched);
         
-        return result ? wrapDocument<T>(result, schema, collectionName) : null;
+        let doc: T | null = null;
+        if (result) {
+          doc = context.options.lean ? result as T : wrapDocument<T>(connection, result, schema, collectionName);
+        }
+        
+        await schema.runQueryHooks('post', 'findOne', context, doc);
+        return doc;
       });
     },
 
     findById(id: string, options?: QueryOptions): QueryBuilder<T | null> {
-      return this.findOne({ _id: id }, options);
+      return this.findOne({ _id: id } as QueryFilter<T>, options);
     },
 
-    async countDocuments(filter: QueryFilter = {}): Promise<number> {
-      const adapter = connectionManager.getAdapter();
+    async countDocuments(filter: QueryFilter = {}, options?: SessionOptions): Promise<number> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
       return adapter.countDocuments(collectionName, filter);
     },
 
-    async exists(filter: QueryFilter): Promise<boolean> {
-      const count = await this.countDocuments(filter);
+    async exists(filter: QueryFilter, options?: SessionOptions): Promise<boolean> {
+      const count = await this.countDocuments(filter as QueryFilter<T>, options);
       return count > 0;
     },
 
+    // PAGINATE - OFFSET yerine son görülen sıralama değerlerinden devam eder
+    async paginate(filter: QueryFilter = {}, options: PaginateOptions = {}): Promise<PaginateResult<T>> {
+      const { sort: requestedSort, first = DEFAULT_PAGE_SIZE, after, before, ...queryOptions } = options;
+      if (after && before) {
+        throw new Error('paginate() accepts either after or before, not both');
+      }
+
+      // before ile geriye giderken ters sırada okunur, sonra sayfa çevrilir
+      const sort = withTieBreaker(requestedSort);
+      const backward = Boolean(before);
+      const readSort = backward ? reverseSort(sort) : sort;
+
+      const withKeyset = (keyset?: QueryFilter): QueryFilter => {
+        const conditions: QueryFilter[] = Object.keys(filter).length > 0 ? [filter] : [];
+        if (keyset) conditions.push(keyset);
+        return conditions.length > 1 ? { $and: conditions } : conditions[0] ?? {};
+      };
+
+      const cursor = after ?? before;
+      const pageFilter = withKeyset(cursor ? keysetFilter(readSort, decodeCursor(cursor, sort)) : undefined);
+
+      // Bir fazla kayıt çekerek sonraki sayfanın varlığını anla
+      const docs = await this.find(pageFilter as QueryFilter<T>, { ...queryOptions, sort: readSort, limit: first + 1 });
+      const hasMore = docs.length > first;
+      const page = docs.slice(0, first);
+      if (backward) page.reverse();
+
+      const edges = page.map(node => ({ node, cursor: encodeCursor(node as Record<string, unknown>, sort) }));
+
+      // Geriye giderken sonraki sayfa: sayfanın son kaydından (boşsa before'dan) sonra kayıt var mı
+      let hasNextPage = hasMore;
+      if (backward) {
+        const endKey = edges[edges.length - 1]?.cursor ?? before!;
+        const next = await this.find(
+          withKeyset(keysetFilter(sort, decodeCursor(endKey, sort))) as QueryFilter<T>,
+          { session: queryOptions.session, read: queryOptions.read, select: ['_id'], limit: 1, lean: true }
+        );
+        hasNextPage = next.length > 0;
+      }
+
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage,
+          hasPreviousPage: backward ? hasMore : Boolean(after),
+          startCursor: edges[0]?.cursor ?? null,
+          endCursor: edges[edges.length - 1]?.cursor ?? null
+        }
+      };
+    },
+
+    // AGGREGATE
+    async aggregate<R = Record<string, unknown>>(pipeline: PipelineStage[], options?: SessionOptions): Promise<R[]> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
+      if (!adapter.capabilities.aggregation) {
+        throw new Error(`${adapter.name} adapter does not support aggregation`);
+      }
+
+      await adapter.createCollection(collectionName, schema);
+      return adapter.aggregate(collectionName, pipeline) as Promise<R[]>;
+    },
+
     // UPDATE
-    async updateOne(filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
-      const adapter = connectionManager.getAdapter();
+    async updateOne(filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
       
+      const context: QueryContext = { op: 'updateOne', model: name, filter, options: {}, update };
+      await schema.runQueryHooks('pre', 'updateOne', context);
+      
+      const finalUpdate = context.update || {};
+      
       // timestamps aktifse updatedAt ekle
       if (schema.options.timestamps) {
-        if (!update.$set) update.$set = {};
-        (update.$set as Record<string, unknown>).updatedAt = new Date();
+        if (!finalUpdate.$set) finalUpdate.$set = {};
+        (finalUpdate.$set as Record<string, unknown>).updatedAt = new Date();
       }
       
-      return adapter.updateOne(collectionName, filter, update);
+      const result = await adapter.updateOne(
+        collectionName,
+        context.filter,
+        options?.upsert ? withInsertDefaults(context.filter, finalUpdate) : finalUpdate,
+        options
+      );
+      await schema.runQueryHooks('post', 'updateOne', context, result);
+      return result;
     },
 
-    async updateMany(filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
-      const adapter = connectionManager.getAdapter();
+    async updateMany(filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
       
       if (schema.options.timestamps) {
@@ -341,7 +642,12 @@ export function model<T extends Document = Document>(
         (update.$set as Record<string, unknown>).updatedAt = new Date();
       }
       
-      return adapter.updateMany(collectionName, filter, update);
+      return adapter.updateMany(
+        collectionName,
+        filter,
+        options?.upsert ? withInsertDefaults(filter, update) : update,
+        options
+      );
     },
 
     async findOneAndUpdate(
@@ -349,39 +655,22 @@ export function model<T extends Document = Document>(
       update: UpdateFilter,
       options?: FindOneAndUpdateOptions
     ): Promise<T | null> {
-      const adapter = connectionManager.getAdapter();
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
       
-      // Önce mevcut dokümanı bul
-      const existing = options?.new 
-        ? null 
-        : await adapter.findOne(collectionName, filter);
-      
       if (schema.options.timestamps) {
         if (!update.$set) update.$set = {};
         (update.$set as Record<string, unknown>).updatedAt = new Date();
       }
       
-      const result = await adapter.updateOne(collectionName, filter, update);
-      
-      if (result.matchedCount === 0) {
-        if (options?.upsert) {
-          // Upsert: yeni doküman oluştur
-          const newDoc = await this.create(
-            Object.assign({}, filter, update.$set || update) as Partial<T>
-          ) as T;
-          return newDoc;
-        }
-        return null;
-      }
-      
-      if (options?.new) {
-        // Güncellenmiş dokümanı döndür
-        const updated = await adapter.findOne(collectionName, filter);
-        return updated ? wrapDocument<T>(updated, schema, collectionName) : null;
-      }
-      
-      return existing ? wrapDocument<T>(existing, schema, collectionName) : null;
+      // Seçme ve güncelleme adapter'da tek atomik işlem
+      const doc = await adapter.findOneAndUpdate(
+        collectionName,
+        filter,
+        options?.upsert ? withInsertDefaults(filter, update) : update,
+        options
+      );
+      return doc ? wrapDocument<T>(connection, doc, schema, collectionName) : null;
     },
 
     async findByIdAndUpdate(
@@ -389,35 +678,80 @@ export function model<T extends Document = Document>(
       update: UpdateFilter,
       options?: FindOneAndUpdateOptions
     ): Promise<T | null> {
-      return this.findOneAndUpdate({ _id: id }, update, options);
+      return this.findOneAndUpdate({ _id: id } as QueryFilter<T>, update as UpdateFilter<T>, options);
     },
 
     // DELETE
-    async deleteOne(filter: QueryFilter): Promise<DeleteResult> {
-      const adapter = connectionManager.getAdapter();
+    async deleteOne(filter: QueryFilter, options?: SessionOptions): Promise<DeleteResult> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
-      return adapter.deleteOne(collectionName, filter);
+      
+      const context: QueryContext = { op: 'deleteOne', model: name, filter, options: {} };
+      await schema.runQueryHooks('pre', 'deleteOne', context);
+      
+      const result = await adapter.deleteOne(collectionName, context.filter);
+      await schema.runQueryHooks('post', 'deleteOne', context, result);
+      return result;
     },
 
-    async deleteMany(filter: QueryFilter): Promise<DeleteResult> {
-      const adapter = connectionManager.getAdapter();
+    async deleteMany(filter: QueryFilter, options?: SessionOptions): Promise<DeleteResult> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
       return adapter.deleteMany(collectionName, filter);
     },
 
-    async findOneAndDelete(filter: QueryFilter): Promise<T | null> {
-      const adapter = connectionManager.getAdapter();
+    async findOneAndDelete(filter: QueryFilter, options?: FindOneAndDeleteOptions): Promise<T | null> {
+      const adapter = getAdapter(connection, collectionName, schema, options?.session);
       await adapter.createCollection(collectionName, schema);
       
-      const existing = await adapter.findOne(collectionName, filter);
-      if (!existing) return null;
-      
-      await adapter.deleteOne(collectionName, filter);
-      return wrapDocument<T>(existing, schema, collectionName);
+      const doc = await adapter.findOneAndDelete(collectionName, filter, options);
+      return doc ? wrapDocument<T>(connection, doc, schema, collectionName) : null;
+    },
+
+    async findByIdAndDelete(id: string, options?: FindOneAndDeleteOptions): Promise<T | null> {
+      return this.findOneAndDelete({ _id: id } as QueryFilter<T>, options);
     },
 
-    async findByIdAndDelete(id: string): Promise<T | null> {
-      return this.findOneAndDelete({ _id: id });
+    // BULK - save hook'ları çalışmaz, eklenen dokümanlar doğrulanır
+    async bulkWrite(operations: BulkWriteOperation<T>[], options: BulkWriteOptions = {}): Promise<BulkWriteResult> {
+      const adapter = getAdapter(connection, collectionName, schema, options.session);
+      await ensureSynced();
+      await adapter.createCollection(collectionName, schema);
+
+      const now = new Date();
+      const prepared: BulkWriteOperation[] = [];
+      // prepared sırası -> operations sırası
+      const positions: number[] = [];
+      const errors: BulkWriteOperationError[] = [];
+
+      for (const [index, op] of (operations as BulkWriteOperation[]).entries()) {
+        try {
+          prepared.push(await prepareBulkOperation(op, now));
+          positions.push(index);
+        } catch (error) {
+          errors.push(toOperationError(op, index, error));
+          if (options.ordered !== false) {
+            throw new BulkWriteError({ ...emptyBulkWriteResult(), errors });
+          }
+        }
+      }
+
+      const result = prepared.length > 0
+        ? await adapter.bulkWrite(collectionName, prepared, options)
+        : emptyBulkWriteResult();
+
+      // Doğrulamada elenen işlemler yüzünden kayan sıraları düzelt
+      const remap = (ids: Record<number, string>) => Object.fromEntries(
+        Object.entries(ids).map(([index, id]) => [positions[Number(index)], id])
+      );
+
+      return {
+        ...result,
+        insertedIds: remap(result.insertedIds),
+        upsertedIds: remap(result.upsertedIds),
+        errors: [...errors, ...result.errors.map(e => ({ ...e, index: positions[e.index] }))]
+          .sort((a, b) => a.index - b.index)
+      };
     }
   };
 
@@ -434,22 +768,22 @@ export function model<T extends Document = Document>(
  * Kayıtlı tüm modelleri getir
  */
 export function getModels(): Map<string, IModel> {
-  return models;
+  return connectionManager.models;
 }
 
 /**
  * Belirli bir modeli getir
  */
 export function getModel<T extends Document = Document>(name: string): IModel<T> | undefined {
-  return models.get(name) as IModel<T> | undefined;
+  return connectionManager.models.get(name) as IModel<T> | undefined;
 }
 
 /**
  * Model registry'yi temizle
  */
 export function clearModels(): void {
-  models.clear();
-  syncedModels.clear();
+  connectionManager.models.clear();
+  connectionManager.syncedModels.clear();
 }
 
 /**
@@ -470,7 +804,7 @@ export function clearModels(): void {
 export async function syncAll(options: SyncOptions = { alter: true }): Promise<Map<string, { created: boolean; altered: boolean; changes: string[] }>> {
   const results = new Map<string, { created: boolean; altered: boolean; changes: string[] }>();
   
-  for (const [name, modelInstance] of models) {
+  for (const [name, modelInstance] of connectionManager.models) {
     const result = await modelInstance.sync(options);
     results.set(name, result);
   }
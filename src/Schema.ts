@@ -7,17 +7,34 @@ import type {
   SchemaDefinition,
   SchemaOptions,
   SchemaField,
+  SchemaFieldType,
   SchemaFieldDefinition,
   ISchema,
   HookEvent,
   HookFunction,
+  QueryHookEvent,
+  QueryHookFunction,
+  QueryHookResults,
+  QueryPreHookFunction,
+  QueryPostHookFunction,
+  QueryContext,
   VirtualDefinition,
   VirtualBuilder,
   IndexOptions,
-  Document
+  Document,
+  FieldValidationError,
+  ValidationErrorKind,
+  ValidatorWithMessage
 } from './types';
-
-export class Schema implements ISchema {
+import { ValidationError } from './errors';
+import { generateObjectId } from './utils/id-generator';
+
+export class Schema<
+  const TDef extends SchemaDefinition = SchemaDefinition,
+  const TOptions extends SchemaOptions = SchemaOptions
+> implements ISchema<TDef, TOptions> {
+  /** InferSchemaType için tanımın literal tipi (çalışma zamanında yok) */
+  declare readonly __infer?: { definition: TDef; options: TOptions };
   public definition: SchemaDefinition;
   public options: SchemaOptions;
   public methods: Record<string, Function> = {};
@@ -25,8 +42,8 @@ export class Schema implements ISchema {
   public virtuals: Map<string, VirtualDefinition> = new Map();
   public indexes: Array<{ fields: Record<string, 1 | -1>; options?: IndexOptions }> = [];
   public hooks: {
-    pre: Map<string, HookFunction[]>;
-    post: Map<string, HookFunction[]>;
+    pre: Map<string, Array<HookFunction | QueryHookFunction>>;
+    post: Map<string, Array<HookFunction | QueryHookFunction>>;
   } = {
     pre: new Map(),
     post: new Map()
@@ -38,7 +55,7 @@ export class Schema implements ISchema {
     Mixed: 'Mixed' as const
   };
 
-  constructor(definition: SchemaDefinition, options: SchemaOptions = {}) {
+  constructor(definition: TDef, options: TOptions = {} as TOptions) {
     this.definition = this.normalizeDefinition(definition);
     this.options = {
       timestamps: false,
@@ -62,18 +79,47 @@ export class Schema implements ISchema {
     const normalized: SchemaDefinition = {};
 
     for (const [key, value] of Object.entries(definition)) {
-      if (this.isSchemaType(value)) {
-        // Kısa sözdizimi: name: String
-        normalized[key] = { type: value } as SchemaFieldDefinition;
-      } else {
-        // Uzun sözdizimi: name: { type: String, required: true }
-        normalized[key] = value;
-      }
+      normalized[key] = this.normalizeField(value);
     }
 
     return normalized;
   }
 
+  /**
+   * Tek bir alan tanımını normalize et
+   * Alt schema'lar { type: Object, schema }, tipli diziler { type: Array, of } olur
+   */
+  private normalizeField(value: SchemaField): SchemaFieldDefinition {
+    // Kısa sözdizimi: name: String
+    if (this.isSchemaType(value)) {
+      return { type: value as SchemaFieldType };
+    }
+
+    // Alt schema: address: AddressSchema
+    if (value instanceof Schema) {
+      return { type: Object, schema: value };
+    }
+
+    // Tipli dizi: tags: [String], comments: [CommentSchema]
+    if (Array.isArray(value)) {
+      return value.length > 0 ? { type: Array, of: this.normalizeField(value[0]) } : { type: Array };
+    }
+
+    // Uzun sözdizimi: name: { type: String, required: true }
+    if (typeof value === 'object' && 'type' in value) {
+      let def = value as SchemaFieldDefinition;
+      // required: [false, '...'] dizi olduğu için truthy; DDL okuyucuları NOT NULL saymasın
+      if (Array.isArray(def.required) && !def.required[0]) def = { ...def, required: false };
+      if (this.isSchemaType(def.type as SchemaField)) return def;
+
+      const inner = this.normalizeField(def.type as SchemaField);
+      return { ...def, type: inner.type, schema: inner.schema, of: inner.of };
+    }
+
+    // İç içe obje: address: { city: String, zip: String } (Mongoose gibi _id üretilmez)
+    return { type: Object, schema: new Schema(value as SchemaDefinition, { _id: false }) };
+  }
+
   /**
    * Değerin bir Schema tipi olup olmadığını kontrol et
    */
@@ -94,7 +140,9 @@ export class Schema implements ISchema {
   /**
    * Pre-hook ekle
    */
-  pre(event: HookEvent, fn: HookFunction): void {
+  pre(event: QueryHookEvent, fn: QueryPreHookFunction): void;
+  pre(event: HookEvent, fn: HookFunction): void;
+  pre(event: HookEvent, fn: HookFunction | QueryHookFunction): void {
     if (!this.hooks.pre.has(event)) {
       this.hooks.pre.set(event, []);
     }
@@ -104,7 +152,9 @@ export class Schema implements ISchema {
   /**
    * Post-hook ekle
    */
-  post(event: HookEvent, fn: HookFunction): void {
+  post<E extends QueryHookEvent>(event: E, fn: QueryPostHookFunction<QueryHookResults[E]>): void;
+  post(event: HookEvent, fn: HookFunction): void;
+  post(event: HookEvent, fn: HookFunction | QueryHookFunction): void {
     if (!this.hooks.post.has(event)) {
       this.hooks.post.set(event, []);
     }
@@ -161,23 +211,53 @@ export class Schema implements ISchema {
     const hooks = this.hooks[type].get(event) || [];
     
     for (const hook of hooks) {
-      await new Promise<void>((resolve, reject) => {
-        try {
-          const result = hook.call(doc, resolve);
-          // Eğer Promise dönüyorsa bekle
-          if (result instanceof Promise) {
-            result.then(() => resolve()).catch(reject);
-          } else if (hooks.length === 1 || hook.length === 0) {
-            // next() çağrılmadıysa otomatik devam et
-            resolve();
-          }
-        } catch (error) {
-          reject(error);
-        }
-      });
+      await this.invokeHook(hook, doc, [], hooks.length);
     }
   }
 
+  /**
+   * Query hook'larını çalıştır
+   * Pre hook'lar bağlamı değiştirebilir, post hook'lar sonucu ilk argüman olarak alır
+   */
+  async runQueryHooks(
+    type: 'pre' | 'post',
+    event: QueryHookEvent,
+    context: QueryContext,
+    result?: unknown
+  ): Promise<void> {
+    const hooks = this.hooks[type].get(event) || [];
+    const args = type === 'post' ? [result] : [];
+    
+    for (const hook of hooks) {
+      await this.invokeHook(hook, context, args, hooks.length);
+    }
+  }
+
+  /**
+   * Tek bir hook'u çağır, Promise ve next() stillerini destekler
+   */
+  private invokeHook(
+    hook: HookFunction | QueryHookFunction,
+    thisArg: unknown,
+    args: unknown[],
+    hookCount: number
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      try {
+        const result = (hook as Function).call(thisArg, ...args, resolve);
+        // Eğer Promise dönüyorsa bekle
+        if (result instanceof Promise) {
+          result.then(() => resolve()).catch(reject);
+        } else if (hookCount === 1 || hook.length <= args.length) {
+          // next() çağrılmadıysa otomatik devam et
+          resolve();
+        }
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   /**
    * Varsayılan değerleri uygula
    */
@@ -185,82 +265,183 @@ export class Schema implements ISchema {
     const result = { ...doc };
 
     for (const [key, fieldDef] of Object.entries(this.definition)) {
+      const def = fieldDef as SchemaFieldDefinition;
+
       if (result[key] === undefined) {
-        const def = fieldDef as SchemaFieldDefinition;
         if (def.default !== undefined) {
           result[key] = typeof def.default === 'function' 
             ? def.default() 
             : def.default;
         }
       }
+
+      const nested = this.applyNestedDefaults(result[key], def);
+      if (nested !== undefined) {
+        result[key] = nested;
+      }
     }
 
     return result;
   }
 
+  /**
+   * Alt doküman ve alt doküman dizilerine varsayılanları uygula
+   */
+  private applyNestedDefaults(value: unknown, def: SchemaFieldDefinition): unknown {
+    if (def.schema) {
+      if (isPlainObject(value)) {
+        return this.initSubdocument(value, def.schema);
+      }
+
+      // İç içe obje tanımları varsayılan değerleriyle oluşturulur
+      if (value === undefined && def.schema.options._id === false) {
+        const nested = def.schema.applyDefaults({});
+        return Object.keys(nested).length > 0 ? nested : undefined;
+      }
+    }
+
+    const itemSchema = def.of?.schema;
+    if (itemSchema && Array.isArray(value)) {
+      return value.map(item => isPlainObject(item) ? this.initSubdocument(item, itemSchema) : item);
+    }
+
+    return value;
+  }
+
+  /**
+   * Alt dokümana varsayılanları uygula ve gerekiyorsa _id üret
+   */
+  private initSubdocument(value: Record<string, unknown>, schema: ISchema): Record<string, unknown> {
+    const subdoc = schema.applyDefaults(value);
+
+    if (schema.options._id !== false && subdoc._id === undefined) {
+      return { _id: generateObjectId(), ...subdoc };
+    }
+
+    return subdoc;
+  }
+
   /**
    * Doğrulama yap
    */
   async validate(doc: Record<string, unknown>): Promise<void> {
-    const errors: string[] = [];
+    const errors: Record<string, FieldValidationError> = {};
+    await this.collectErrors(doc, '', errors);
 
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError(errors);
+    }
+  }
+
+  /**
+   * Dokümandaki tüm hataları topla (alt dokümanlar path önekiyle)
+   */
+  private async collectErrors(
+    doc: Record<string, unknown>,
+    prefix: string,
+    errors: Record<string, FieldValidationError>
+  ): Promise<void> {
     for (const [key, fieldDef] of Object.entries(this.definition)) {
-      const def = fieldDef as SchemaFieldDefinition;
-      const value = doc[key];
+      await this.validateField(`${prefix}${key}`, doc[key], fieldDef as SchemaFieldDefinition, errors);
+    }
+  }
 
-      // Required kontrolü
-      if (def.required && (value === undefined || value === null)) {
-        errors.push(`Field '${key}' is required`);
-        continue;
-      }
+  /**
+   * Tek bir alanı doğrula, path başına ilk hata kaydedilir
+   */
+  private async validateField(
+    path: string,
+    value: unknown,
+    def: SchemaFieldDefinition,
+    errors: Record<string, FieldValidationError>
+  ): Promise<void> {
+    const fail = (kind: ValidationErrorKind, defaultMessage: string, message?: string) => {
+      errors[path] = {
+        kind,
+        path,
+        value,
+        message: (message ?? defaultMessage).replace(/\{PATH\}/g, path).replace(/\{VALUE\}/g, String(value))
+      };
+    };
 
-      // Değer yoksa diğer validasyonları atla
-      if (value === undefined || value === null) continue;
+    // Required kontrolü
+    const [required, requiredMessage] = withMessage(def.required);
+    if (required && (value === undefined || value === null)) {
+      fail('required', `Field '${path}' is required`, requiredMessage);
+      return;
+    }
 
-      // Type kontrolü
-      if (!this.validateType(value, def.type)) {
-        errors.push(`Field '${key}' has invalid type`);
-      }
+    // Değer yoksa diğer validasyonları atla
+    if (value === undefined || value === null) return;
 
-      // Enum kontrolü
-      if (def.enum && !def.enum.includes(value)) {
-        errors.push(`Field '${key}' must be one of: ${def.enum.join(', ')}`);
-      }
+    // Type kontrolü
+    if (!this.validateType(value, def.type)) {
+      fail('type', `Field '${path}' has invalid type`);
+      return;
+    }
 
-      // Min/Max kontrolü
-      if (typeof value === 'number') {
-        if (def.min !== undefined && value < def.min) {
-          errors.push(`Field '${key}' must be at least ${def.min}`);
-        }
-        if (def.max !== undefined && value > def.max) {
-          errors.push(`Field '${key}' must be at most ${def.max}`);
-        }
+    // Enum kontrolü
+    const enumValues = Array.isArray(def.enum) ? def.enum : def.enum?.values;
+    if (enumValues && !enumValues.includes(value)) {
+      const enumMessage = Array.isArray(def.enum) ? undefined : def.enum?.message;
+      fail('enum', `Field '${path}' must be one of: ${enumValues.join(', ')}`, enumMessage);
+      return;
+    }
+
+    // Min/Max kontrolü
+    if (typeof value === 'number') {
+      const [min, minMessage] = withMessage(def.min);
+      if (min !== undefined && value < min) {
+        fail('min', `Field '${path}' must be at least ${min}`, minMessage);
+        return;
       }
+      const [max, maxMessage] = withMessage(def.max);
+      if (max !== undefined && value > max) {
+        fail('max', `Field '${path}' must be at most ${max}`, maxMessage);
+        return;
+      }
+    }
 
-      // String uzunluk kontrolü
-      if (typeof value === 'string') {
-        if (def.minlength !== undefined && value.length < def.minlength) {
-          errors.push(`Field '${key}' must be at least ${def.minlength} characters`);
-        }
-        if (def.maxlength !== undefined && value.length > def.maxlength) {
-          errors.push(`Field '${key}' must be at most ${def.maxlength} characters`);
-        }
-        if (def.match && !def.match.test(value)) {
-          errors.push(`Field '${key}' does not match the required pattern`);
-        }
+    // String uzunluk kontrolü
+    if (typeof value === 'string') {
+      const [minlength, minlengthMessage] = withMessage(def.minlength);
+      if (minlength !== undefined && value.length < minlength) {
+        fail('minlength', `Field '${path}' must be at least ${minlength} characters`, minlengthMessage);
+        return;
       }
+      const [maxlength, maxlengthMessage] = withMessage(def.maxlength);
+      if (maxlength !== undefined && value.length > maxlength) {
+        fail('maxlength', `Field '${path}' must be at most ${maxlength} characters`, maxlengthMessage);
+        return;
+      }
+      const [match, matchMessage] = withMessage(def.match);
+      if (match && !match.test(value)) {
+        fail('match', `Field '${path}' does not match the required pattern`, matchMessage);
+        return;
+      }
+    }
 
-      // Custom validate
-      if (def.validate) {
-        const isValid = await def.validate(value);
-        if (!isValid) {
-          errors.push(`Field '${key}' failed custom validation`);
-        }
+    // Custom validate
+    const validator = typeof def.validate === 'function' ? def.validate : def.validate?.validator;
+    if (validator) {
+      const isValid = await validator(value);
+      if (!isValid) {
+        const customMessage = typeof def.validate === 'function' ? undefined : def.validate?.message;
+        fail('custom', `Field '${path}' failed custom validation`, customMessage);
+        return;
       }
     }
 
-    if (errors.length > 0) {
-      throw new Error(`Validation failed: ${errors.join(', ')}`);
+    // Alt doküman
+    if (def.schema) {
+      await (def.schema as Schema).collectErrors(value as Record<string, unknown>, `${path}.`, errors);
+    }
+
+    // Dizi elemanları
+    if (def.of && Array.isArray(value)) {
+      for (const [index, item] of value.entries()) {
+        await this.validateField(`${path}.${index}`, item, def.of, errors);
+      }
     }
   }
 
@@ -324,7 +505,7 @@ export class Schema implements ISchema {
       const def = fieldDef as SchemaFieldDefinition;
       schema[key] = {
         type: this.typeToSQL(def.type),
-        required: def.required,
+        required: withMessage(def.required)[0],
         unique: def.unique,
         default: typeof def.default === 'function' ? undefined : def.default
       };
@@ -366,3 +547,17 @@ export class Schema implements ISchema {
     return String(value);
   }
 }
+
+/**
+ * [değer, mesaj] şeklindeki validator tanımını ayır
+ */
+function withMessage<T>(option: ValidatorWithMessage<T> | undefined): [T | undefined, string | undefined] {
+  return Array.isArray(option) ? [option[0], option[1]] : [option, undefined];
+}
+
+/**
+ * Düz obje mi (Date, dizi ve null hariç)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
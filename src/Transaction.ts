@@ -3,15 +3,22 @@
 // Enterprise-grade transaction management
 // ============================================
 
+import { AsyncLocalStorage } from 'async_hooks';
 import type { BaseAdapter } from './adapters/base';
+import { TransactionTimeoutError } from './errors';
+import { withRetry, type RetryConfig } from './pool';
 
 export interface TransactionOptions {
   /** Isolation level (SQL databases) */
   isolationLevel?: 'READ UNCOMMITTED' | 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
-  /** Timeout in milliseconds */
+  /** Timeout in milliseconds; the transaction is rolled back once it passes */
   timeout?: number;
   /** Auto-rollback on error */
   autoRollback?: boolean;
+  /** Re-run the whole callback on serialization failures and deadlocks (true: default backoff) */
+  retry?: boolean | RetryConfig;
+  /** Called for each afterCommit/afterRollback callback that throws (default: console.error) */
+  onHookError?: (error: Error, hook: 'afterCommit' | 'afterRollback') => void;
 }
 
 export interface TransactionResult<T = unknown> {
@@ -19,10 +26,45 @@ export interface TransactionResult<T = unknown> {
   data?: T;
   error?: Error;
   duration: number;
+  /** Number of times the callback was run (more than 1 after retries) */
+  attempts: number;
+  /** Errors thrown by afterCommit/afterRollback callbacks of the last attempt, if any */
+  hookErrors?: Error[];
 }
 
 type TransactionCallback<T> = (trx: Transaction) => Promise<T>;
 
+type TransactionHook = () => unknown;
+
+interface RegisteredHook {
+  fn: TransactionHook;
+  // 'end': registered in a rolled-back savepoint, runs however the outermost transaction ends
+  on: 'commit' | 'rollback' | 'end';
+}
+
+/**
+ * Whether the error (or any error in its cause chain) means the transaction can be retried:
+ * PostgreSQL serialization failure / deadlock, MySQL deadlock, MongoDB TransientTransactionError
+ */
+export function isRetryableTransactionError(provider: string, error: unknown): boolean {
+  for (let err: any = error; err; err = err.cause) {
+    if (provider === 'postgres' && (err.code === '40001' || err.code === '40P01')) return true;
+    if (provider === 'mysql' && (err.errno === 1213 || err.code === 'ER_LOCK_DEADLOCK')) return true;
+    if (provider === 'mongodb' && Array.isArray(err.errorLabels) && err.errorLabels.includes('TransientTransactionError')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Transaction whose scope the current async call chain is running in
+const transactionStorage = new AsyncLocalStorage<Transaction>();
+
+const SAVEPOINT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// How long a timed-out transaction waits for ROLLBACK before dropping the connection
+const ROLLBACK_DEADLINE = 1000;
+
 /**
  * Transaction class
  * Manages database transactions with automatic rollback
@@ -33,8 +75,16 @@ export class Transaction {
   private _isActive: boolean = false;
   private _isCommitted: boolean = false;
   private _isRolledBack: boolean = false;
+  private _isTimedOut: boolean = false;
+  private timer: NodeJS.Timeout | null = null;
   private startTime: number = 0;
-  private client: any = null; // Database-specific client/connection
+  private _client: any = null; // Database-specific client/connection
+  private parent: Transaction | null = null; // Set when running as a savepoint of another transaction
+  private savepointName: string | null = null;
+  private savepoints: string[] = []; // Open savepoints, oldest first (root transaction only)
+  private savepointCount = 0;
+  private hooks: RegisteredHook[] = []; // afterCommit/afterRollback callbacks, in registration order
+  private _hookErrors: Error[] = [];
 
   constructor(adapter: BaseAdapter, options: TransactionOptions = {}) {
     this.adapter = adapter;
@@ -59,13 +109,61 @@ export class Transaction {
     return this._isRolledBack;
   }
 
+  /** Transaction was rolled back because its timeout passed */
+  get isTimedOut(): boolean {
+    return this._isTimedOut;
+  }
+
+  /** Timeout in ms (TransactionOptions.timeout) */
+  get timeout(): number | undefined {
+    return this.options.timeout;
+  }
+
+  /** Errors thrown by afterCommit/afterRollback callbacks, in the order they ran */
+  get hookErrors(): Error[] {
+    return [...this._hookErrors];
+  }
+
   /** Transaction duration in ms */
   get duration(): number {
     return Date.now() - this.startTime;
   }
 
+  /** Pinned connection (PostgreSQL/MySQL) or ClientSession (MongoDB) */
+  get client(): any {
+    return this._client;
+  }
+
+  /** Transaction runs as a savepoint of an outer transaction */
+  get isNested(): boolean {
+    return this.parent !== null;
+  }
+
+  /**
+   * Active transaction of the current async scope for the given adapter
+   */
+  static current(adapter: BaseAdapter): Transaction | undefined {
+    const trx = transactionStorage.getStore();
+    if (!trx || trx.adapter !== adapter) return undefined;
+
+    // Don't let the rest of a timed-out callback fall back to autocommit
+    if (trx._isTimedOut) {
+      throw new TransactionTimeoutError(trx.options.timeout!);
+    }
+    return trx.isActive ? trx : undefined;
+  }
+
+  /**
+   * Run fn inside this transaction's scope
+   * Adapter calls made from fn (including awaited ones) use the transaction client
+   */
+  run<R>(fn: () => R): R {
+    return transactionStorage.run(this, fn);
+  }
+
   /**
    * Begin transaction
+   * Inside the scope of another active transaction, a savepoint is created instead
    */
   async begin(): Promise<void> {
     if (this._isActive) {
@@ -73,6 +171,13 @@ export class Transaction {
     }
 
     this.startTime = Date.now();
+
+    const parent = Transaction.current(this.adapter);
+    if (parent) {
+      await this.beginNested(parent);
+      return;
+    }
+
     const adapterName = this.adapter.name;
 
     try {
@@ -95,14 +200,20 @@ export class Transaction {
 
       this._isActive = true;
     } catch (error) {
-      throw new Error(`Failed to begin transaction: ${error}`);
+      throw new Error(`Failed to begin transaction: ${error}`, { cause: error });
     }
+
+    this.startTimer();
   }
 
   /**
    * Commit transaction
    */
   async commit(): Promise<void> {
+    if (this._isTimedOut) {
+      throw new TransactionTimeoutError(this.options.timeout!);
+    }
+
     if (this._isCommitted || this._isRolledBack) {
       throw new Error('Transaction already ended');
     }
@@ -111,6 +222,11 @@ export class Transaction {
       throw new Error('No active transaction to commit');
     }
 
+    if (this.parent) {
+      await this.endNested(true);
+      return;
+    }
+
     const adapterName = this.adapter.name;
 
     try {
@@ -131,12 +247,15 @@ export class Transaction {
 
       this._isCommitted = true;
       this._isActive = false;
+      this.clearTimer();
     } catch (error) {
       if (this.options.autoRollback) {
         await this.rollback();
       }
-      throw new Error(`Failed to commit transaction: ${error}`);
+      throw new Error(`Failed to commit transaction: ${error}`, { cause: error });
     }
+
+    await this.runHooks(true);
   }
 
   /**
@@ -155,6 +274,11 @@ export class Transaction {
       throw new Error('No active transaction to rollback');
     }
 
+    if (this.parent) {
+      await this.endNested(false);
+      return;
+    }
+
     const adapterName = this.adapter.name;
 
     try {
@@ -173,20 +297,76 @@ export class Transaction {
           break;
       }
 
+      // expire() stopped waiting and already discarded the client
+      if (this._isRolledBack) return;
       this._isRolledBack = true;
       this._isActive = false;
+      this.clearTimer();
     } catch (error) {
-      throw new Error(`Failed to rollback transaction: ${error}`);
+      throw new Error(`Failed to rollback transaction: ${error}`, { cause: error });
     }
+
+    await this.runHooks(false);
+  }
+
+  /**
+   * Run fn once the outermost transaction has committed
+   * Dropped if the savepoint it was registered in is rolled back
+   */
+  afterCommit(fn: TransactionHook): void {
+    this.ensureActive();
+    this.hooks.push({ fn, on: 'commit' });
+  }
+
+  /**
+   * Run fn once the outermost transaction has rolled back
+   * If registered in a savepoint that is rolled back, it runs when the outermost transaction ends
+   */
+  afterRollback(fn: TransactionHook): void {
+    this.ensureActive();
+    this.hooks.push({ fn, on: 'rollback' });
+  }
+
+  /**
+   * Create a savepoint (PostgreSQL, MySQL, SQLite)
+   */
+  async savepoint(name: string): Promise<void> {
+    this.checkSavepoint(name);
+    if (this.parent) return this.parent.savepoint(name);
+
+    await this.query(`SAVEPOINT ${name}`);
+    this.savepoints.push(name);
+  }
+
+  /**
+   * Undo everything done after the savepoint; the savepoint itself stays open
+   */
+  async rollbackTo(name: string): Promise<void> {
+    this.checkSavepoint(name);
+    if (this.parent) return this.parent.rollbackTo(name);
+
+    const index = this.findSavepoint(name);
+    await this.query(`ROLLBACK TO SAVEPOINT ${name}`);
+    this.savepoints.length = index + 1;
+  }
+
+  /**
+   * Release the savepoint (and any created after it), keeping its changes
+   */
+  async release(name: string): Promise<void> {
+    this.checkSavepoint(name);
+    if (this.parent) return this.parent.release(name);
+
+    const index = this.findSavepoint(name);
+    await this.query(`RELEASE SAVEPOINT ${name}`);
+    this.savepoints.length = index;
   }
 
   /**
    * Execute query within transaction
    */
   async query(sql: string, params: unknown[] = []): Promise<any> {
-    if (!this._isActive) {
-      throw new Error('No active transaction');
-    }
+    this.ensureActive();
 
     const adapterName = this.adapter.name;
 
@@ -195,8 +375,8 @@ export class Transaction {
     }
 
     // Use transaction client for SQL
-    if (this.client) {
-      return await this.client.query(sql, params);
+    if (this._client) {
+      return await this._client.query(sql, params);
     }
 
     return await (this.adapter as any).query(sql, params);
@@ -206,58 +386,52 @@ export class Transaction {
    * Insert within transaction
    */
   async insert(collection: string, doc: Record<string, unknown>): Promise<Record<string, unknown>> {
-    if (!this._isActive) {
-      throw new Error('No active transaction');
-    }
+    this.ensureActive();
 
     const adapterName = this.adapter.name;
 
-    if (adapterName === 'mongodb' && this.client) {
+    if (adapterName === 'mongodb' && this._client) {
       // MongoDB session-based insert
       const db = (this.adapter as any).db;
-      const result = await db.collection(collection).insertOne(doc, { session: this.client });
+      const result = await db.collection(collection).insertOne(doc, { session: this._client });
       return { ...doc, _id: result.insertedId };
     }
 
     // SQL databases
-    return await this.adapter.insertOne(collection, doc);
+    return await this.run(() => this.adapter.insertOne(collection, doc));
   }
 
   /**
    * Find within transaction
    */
   async find(collection: string, filter: Record<string, unknown>): Promise<Record<string, unknown>[]> {
-    if (!this._isActive) {
-      throw new Error('No active transaction');
-    }
+    this.ensureActive();
 
     const adapterName = this.adapter.name;
 
-    if (adapterName === 'mongodb' && this.client) {
+    if (adapterName === 'mongodb' && this._client) {
       const db = (this.adapter as any).db;
-      return await db.collection(collection).find(filter, { session: this.client }).toArray();
+      return await db.collection(collection).find(filter, { session: this._client }).toArray();
     }
 
-    return await this.adapter.find(collection, filter, {});
+    return await this.run(() => this.adapter.find(collection, filter, { read: 'primary' }));
   }
 
   /**
    * Update within transaction
    */
   async update(collection: string, filter: Record<string, unknown>, update: Record<string, unknown>): Promise<number> {
-    if (!this._isActive) {
-      throw new Error('No active transaction');
-    }
+    this.ensureActive();
 
     const adapterName = this.adapter.name;
 
-    if (adapterName === 'mongodb' && this.client) {
+    if (adapterName === 'mongodb' && this._client) {
       const db = (this.adapter as any).db;
-      const result = await db.collection(collection).updateMany(filter, update, { session: this.client });
+      const result = await db.collection(collection).updateMany(filter, update, { session: this._client });
       return result.modifiedCount;
     }
 
-    const result = await this.adapter.updateMany(collection, filter, update);
+    const result = await this.run(() => this.adapter.updateMany(collection, filter, update));
     return result.modifiedCount;
   }
 
@@ -265,22 +439,200 @@ export class Transaction {
    * Delete within transaction
    */
   async delete(collection: string, filter: Record<string, unknown>): Promise<number> {
-    if (!this._isActive) {
-      throw new Error('No active transaction');
-    }
+    this.ensureActive();
 
     const adapterName = this.adapter.name;
 
-    if (adapterName === 'mongodb' && this.client) {
+    if (adapterName === 'mongodb' && this._client) {
       const db = (this.adapter as any).db;
-      const result = await db.collection(collection).deleteMany(filter, { session: this.client });
+      const result = await db.collection(collection).deleteMany(filter, { session: this._client });
       return result.deletedCount;
     }
 
-    const result = await this.adapter.deleteMany(collection, filter);
+    const result = await this.run(() => this.adapter.deleteMany(collection, filter));
     return result.deletedCount;
   }
 
+  /**
+   * Throw unless queries can still run in this transaction
+   */
+  private ensureActive(): void {
+    // A savepoint is only usable while its outer transaction is
+    this.parent?.ensureActive();
+    if (this._isTimedOut) {
+      throw new TransactionTimeoutError(this.options.timeout!);
+    }
+    if (!this._isActive) {
+      throw new Error('No active transaction');
+    }
+  }
+
+  // ============================================
+  // Timeout
+  // ============================================
+
+  private startTimer(): void {
+    const timeout = this.options.timeout;
+    if (!timeout || this.parent) return;
+
+    this.timer = setTimeout(() => void this.expire(), timeout);
+    // A pending timeout shouldn't keep the process alive
+    this.timer.unref();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Roll back and release the client once the timeout passes
+   */
+  private async expire(): Promise<void> {
+    this.timer = null;
+    if (!this.isActive) return;
+
+    this._isTimedOut = true;
+    // A statement still running on the client (MySQL's max_execution_time only stops SELECTs)
+    // holds ROLLBACK back, so it only gets a short deadline
+    let deadline: NodeJS.Timeout | undefined;
+    const rolledBack = await Promise.race([
+      this.rollback().then(() => true, () => false),
+      new Promise<boolean>(resolve => {
+        deadline = setTimeout(() => resolve(false), ROLLBACK_DEADLINE);
+      })
+    ]);
+    clearTimeout(deadline);
+    if (rolledBack || this._isRolledBack) return;
+
+    // ROLLBACK failed or hung: discard the connection instead of returning it mid-transaction
+    this.discardClient();
+    this._isRolledBack = true;
+    this._isActive = false;
+    await this.runHooks(false);
+  }
+
+  private discardClient(): void {
+    if (!this._client) return;
+
+    switch (this.adapter.name) {
+      case 'postgres':
+        this._client.release(true);
+        break;
+      case 'mysql':
+        this._client.destroy();
+        break;
+      case 'mongodb':
+        void this._client.endSession().catch(() => undefined);
+        break;
+    }
+    this._client = null;
+  }
+
+  // ============================================
+  // Savepoints and nesting
+  // ============================================
+
+  private checkSavepoint(name: string): void {
+    this.ensureActive();
+    if (this.adapter.name === 'mongodb') {
+      throw new Error('Savepoints are not supported for mongodb');
+    }
+    if (!SAVEPOINT_NAME.test(name)) {
+      throw new Error(`Invalid savepoint name: ${name}`);
+    }
+  }
+
+  private findSavepoint(name: string): number {
+    const index = this.savepoints.lastIndexOf(name);
+    if (index === -1) {
+      throw new Error(`Savepoint not found: ${name}`);
+    }
+    return index;
+  }
+
+  private async beginNested(parent: Transaction): Promise<void> {
+    let root = parent;
+    while (root.parent) root = root.parent;
+
+    const name = `sdbc_sp_${++root.savepointCount}`;
+    try {
+      await parent.savepoint(name);
+    } catch (error) {
+      throw new Error(`Failed to begin transaction: ${error}`, { cause: error });
+    }
+
+    this.parent = parent;
+    this.savepointName = name;
+    this._client = parent.client;
+    this._isActive = true;
+  }
+
+  private async endNested(commit: boolean): Promise<void> {
+    const parent = this.parent!;
+    const name = this.savepointName!;
+
+    try {
+      if (!commit) {
+        await parent.rollbackTo(name);
+      }
+      await parent.release(name);
+    } catch (error) {
+      if (error instanceof TransactionTimeoutError) throw error;
+      throw new Error(`Failed to ${commit ? 'commit' : 'rollback'} transaction: ${error}`, { cause: error });
+    }
+
+    this._isCommitted = commit;
+    this._isRolledBack = !commit;
+    this._isActive = false;
+    this._client = null;
+
+    // Hand the callbacks to the outer transaction; a rolled-back savepoint's work is gone either way
+    parent.hooks.push(...(commit
+      ? this.hooks
+      : this.hooks.filter(hook => hook.on !== 'commit').map(hook => ({ ...hook, on: 'end' as const }))));
+    this.hooks = [];
+  }
+
+  /**
+   * Run the callbacks matching how the transaction ended, in order
+   * Errors are collected in hookErrors and reported to onHookError;
+   * they don't affect the transaction or the other callbacks
+   */
+  private async runHooks(committed: boolean): Promise<void> {
+    const hooks = this.hooks.filter(hook => hook.on === 'end' || hook.on === (committed ? 'commit' : 'rollback'));
+    const kind = committed ? 'afterCommit' : 'afterRollback';
+    this.hooks = [];
+
+    // Outside the transaction scope: queries in callbacks must not try to join the ended transaction
+    await transactionStorage.exit(async () => {
+      for (const { fn } of hooks) {
+        try {
+          await fn();
+        } catch (thrown) {
+          const error = thrown instanceof Error ? thrown : new Error(String(thrown));
+          this._hookErrors.push(error);
+          this.reportHookError(error, kind);
+        }
+      }
+    });
+  }
+
+  private reportHookError(error: Error, hook: 'afterCommit' | 'afterRollback'): void {
+    if (!this.options.onHookError) {
+      console.error(`Transaction ${hook} callback failed:`, error);
+      return;
+    }
+    try {
+      this.options.onHookError(error, hook);
+    } catch (handlerError) {
+      // The transaction has already ended: a failing handler must not make commit() reject
+      console.error('Transaction onHookError handler failed:', handlerError);
+    }
+  }
+
   // ============================================
   // Database-specific implementations
   // ============================================
@@ -290,23 +642,23 @@ export class Transaction {
     if (!mongoClient) {
       throw new Error('MongoDB client not available');
     }
-    this.client = mongoClient.startSession();
-    this.client.startTransaction();
+    this._client = mongoClient.startSession();
+    this._client.startTransaction(this.options.timeout ? { maxCommitTimeMS: this.options.timeout } : undefined);
   }
 
   private async commitMongoDB(): Promise<void> {
-    if (this.client) {
-      await this.client.commitTransaction();
-      await this.client.endSession();
-      this.client = null;
+    if (this._client) {
+      await this._client.commitTransaction();
+      await this._client.endSession();
+      this._client = null;
     }
   }
 
   private async rollbackMongoDB(): Promise<void> {
-    if (this.client) {
-      await this.client.abortTransaction();
-      await this.client.endSession();
-      this.client = null;
+    if (this._client) {
+      await this._client.abortTransaction();
+      await this._client.endSession();
+      this._client = null;
     }
   }
 
@@ -315,28 +667,35 @@ export class Transaction {
     if (!pool) {
       throw new Error('PostgreSQL pool not available');
     }
-    this.client = await pool.connect();
+    this._client = await pool.connect();
     
     let sql = 'BEGIN';
     if (this.options.isolationLevel) {
       sql += ` ISOLATION LEVEL ${this.options.isolationLevel}`;
     }
-    await this.client.query(sql);
+    await this._client.query(sql);
+
+    // Server-side limits so a stuck statement or idle client is cut off as well (reset on COMMIT/ROLLBACK)
+    if (this.options.timeout) {
+      const ms = Math.ceil(this.options.timeout);
+      await this._client.query(`SET LOCAL statement_timeout = ${ms}`);
+      await this._client.query(`SET LOCAL idle_in_transaction_session_timeout = ${ms}`);
+    }
   }
 
   private async commitPostgres(): Promise<void> {
-    if (this.client) {
-      await this.client.query('COMMIT');
-      this.client.release();
-      this.client = null;
+    if (this._client) {
+      await this._client.query('COMMIT');
+      this._client.release();
+      this._client = null;
     }
   }
 
   private async rollbackPostgres(): Promise<void> {
-    if (this.client) {
-      await this.client.query('ROLLBACK');
-      this.client.release();
-      this.client = null;
+    if (this._client) {
+      await this._client.query('ROLLBACK');
+      this._client.release();
+      this._client = null;
     }
   }
 
@@ -345,27 +704,43 @@ export class Transaction {
     if (!pool) {
       throw new Error('MySQL pool not available');
     }
-    this.client = await pool.getConnection();
+    this._client = await pool.getConnection();
+
+    // Session-level limits for statements and lock waits, reset before the connection is released
+    if (this.options.timeout) {
+      await this._client.query('SET SESSION max_execution_time = ?, innodb_lock_wait_timeout = ?', [
+        Math.ceil(this.options.timeout),
+        Math.max(1, Math.ceil(this.options.timeout / 1000))
+      ]);
+    }
     
     if (this.options.isolationLevel) {
-      await this.client.query(`SET TRANSACTION ISOLATION LEVEL ${this.options.isolationLevel}`);
+      await this._client.query(`SET TRANSACTION ISOLATION LEVEL ${this.options.isolationLevel}`);
     }
-    await this.client.beginTransaction();
+    await this._client.beginTransaction();
   }
 
   private async commitMySQL(): Promise<void> {
-    if (this.client) {
-      await this.client.commit();
-      this.client.release();
-      this.client = null;
+    if (this._client) {
+      await this._client.commit();
+      await this.resetMySQLTimeout();
+      this._client.release();
+      this._client = null;
     }
   }
 
   private async rollbackMySQL(): Promise<void> {
-    if (this.client) {
-      await this.client.rollback();
-      this.client.release();
-      this.client = null;
+    if (this._client) {
+      await this._client.rollback();
+      await this.resetMySQLTimeout();
+      this._client.release();
+      this._client = null;
+    }
+  }
+
+  private async resetMySQLTimeout(): Promise<void> {
+    if (this.options.timeout) {
+      await this._client.query('SET SESSION max_execution_time = DEFAULT, innodb_lock_wait_timeout = DEFAULT');
     }
   }
 
@@ -402,33 +777,61 @@ export class TransactionManager {
   /**
    * Execute callback within transaction
    * Auto-commits on success, auto-rollbacks on error
+   * Called inside another transaction's callback, runs as a savepoint of it
+   * With the retry option, retryable errors re-run the callback in a new transaction
    */
   async run<T>(
     callback: TransactionCallback<T>,
     options?: TransactionOptions
   ): Promise<TransactionResult<T>> {
-    const trx = this.create(options);
     const startTime = Date.now();
+    let attempts = 0;
+    let last: Transaction | undefined;
+    const hookErrors = () => (last?.hookErrors.length ? { hookErrors: last.hookErrors } : {});
+
+    const attempt = async (): Promise<T> => {
+      attempts++;
+      const trx = this.create(options);
+      last = trx;
+
+      try {
+        await trx.begin();
+        // Model calls inside the callback join the transaction automatically
+        const data = await trx.run(() => callback(trx));
+        await trx.commit();
+        return data;
+      } catch (error) {
+        if (trx.isActive) {
+          await trx.rollback();
+        }
+        throw error;
+      }
+    };
 
     try {
-      await trx.begin();
-      const data = await callback(trx);
-      await trx.commit();
+      // A savepoint can't be retried on its own: the failure aborts the outer transaction
+      const retry = options?.retry && !Transaction.current(this.adapter) ? options.retry : null;
+      const data = retry
+        ? await withRetry(attempt, {
+          shouldRetry: error => isRetryableTransactionError(this.adapter.name, error),
+          ...(retry === true ? {} : retry)
+        })
+        : await attempt();
 
       return {
         success: true,
         data,
-        duration: Date.now() - startTime
+        duration: Date.now() - startTime,
+        attempts,
+        ...hookErrors()
       };
     } catch (error) {
-      if (trx.isActive) {
-        await trx.rollback();
-      }
-
       return {
         success: false,
         error: error instanceof Error ? error : new Error(String(error)),
-        duration: Date.now() - startTime
+        duration: Date.now() - startTime,
+        attempts,
+        ...hookErrors()
       };
     }
   }
@@ -11,9 +11,23 @@ import type {
   QueryOptions,
   UpdateFilter,
   UpdateResult,
+  UpdateOptions,
   DeleteResult,
-  ISchema
+  FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
+  ISchema,
+  PopulateJoin,
+  PipelineStage,
+  ReplicationOptions,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult
 } from '../types';
+import { toSQLFieldPath, equalityFields, type SQLProvider } from '../utils/query-parser';
+import { Transaction } from '../Transaction';
+
+/** Cursor'da varsayılan parça boyutu */
+export const DEFAULT_BATCH_SIZE = 100;
 
 export abstract class BaseAdapter implements DatabaseAdapter {
   abstract name: DatabaseProvider;
@@ -21,7 +35,7 @@ export abstract class BaseAdapter implements DatabaseAdapter {
   
   protected connected = false;
 
-  abstract connect(uri: string, options?: Record<string, unknown>): Promise<void>;
+  abstract connect(uri: string, options?: Record<string, unknown>, replication?: ReplicationOptions): Promise<void>;
   abstract disconnect(): Promise<void>;
   
   isConnected(): boolean {
@@ -36,15 +50,28 @@ export abstract class BaseAdapter implements DatabaseAdapter {
 
   abstract find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]>;
   abstract findOne(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown> | null>;
+  abstract findCursor(collection: string, filter: QueryFilter, options?: QueryOptions): AsyncIterable<Record<string, unknown>>;
 
-  abstract updateOne(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult>;
-  abstract updateMany(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult>;
+  abstract updateOne(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult>;
+  abstract updateMany(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult>;
 
   abstract deleteOne(collection: string, filter: QueryFilter): Promise<DeleteResult>;
   abstract deleteMany(collection: string, filter: QueryFilter): Promise<DeleteResult>;
 
+  abstract findOneAndUpdate(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter,
+    options?: FindOneAndUpdateOptions
+  ): Promise<Record<string, unknown> | null>;
+  abstract findOneAndDelete(collection: string, filter: QueryFilter, options?: FindOneAndDeleteOptions): Promise<Record<string, unknown> | null>;
+
   abstract countDocuments(collection: string, filter: QueryFilter): Promise<number>;
 
+  abstract aggregate(collection: string, pipeline: PipelineStage[]): Promise<Record<string, unknown>[]>;
+
+  abstract bulkWrite(collection: string, operations: BulkWriteOperation[], options?: BulkWriteOptions): Promise<BulkWriteResult>;
+
   /**
    * Bağlantı durumunu kontrol et
    */
@@ -54,6 +81,21 @@ export abstract class BaseAdapter implements DatabaseAdapter {
     }
   }
 
+  /**
+   * Aktif async scope'taki transaction'ın bağlantısı (PG/MySQL) veya session'ı (MongoDB)
+   */
+  protected transactionClient<C>(): C | undefined {
+    return Transaction.current(this)?.client ?? undefined;
+  }
+
+  /**
+   * Zaman aşımına uğramış bir transaction'ın scope'undaysa TransactionTimeoutError fırlat
+   * (sorgu transaction dışında autocommit olarak çalışmasın)
+   */
+  protected ensureTransactionUsable(): void {
+    Transaction.current(this);
+  }
+
   /**
    * Sort objesini SQL ORDER BY string'e çevir
    */
@@ -61,11 +103,18 @@ export abstract class BaseAdapter implements DatabaseAdapter {
     if (!sort || Object.keys(sort).length === 0) return '';
     
     const clauses = Object.entries(sort)
-      .map(([field, order]) => `${field} ${order === 1 ? 'ASC' : 'DESC'}`);
+      .map(([field, order]) => `${this.sortField(field)} ${order === 1 ? 'ASC' : 'DESC'}`);
     
     return `ORDER BY ${clauses.join(', ')}`;
   }
 
+  /**
+   * Sıralama alanını SQL ifadesine çevir (nokta notasyonu JSON değeri olarak sıralanır)
+   */
+  protected sortField(field: string, table?: string): string {
+    return toSQLFieldPath(field, this.name as SQLProvider, { asJSON: true, table });
+  }
+
   /**
    * Select alanlarını SQL'e çevir
    */
@@ -87,4 +136,109 @@ export abstract class BaseAdapter implements DatabaseAdapter {
     
     return included.length > 0 ? included.join(', ') : '*';
   }
+
+  /**
+   * Çok satırlı INSERT için dokümanları parametre limitine göre parçala
+   * Satırlar ortak sütun listesini kullanır, eksik alanlar NULL yazılır
+   */
+  protected toInsertBatches(
+    docs: Record<string, unknown>[],
+    maxParams: number
+  ): Array<{ columns: string[]; rows: unknown[][] }> {
+    const columns = [...new Set(docs.flatMap(doc => Object.keys(doc)))];
+    const rowsPerBatch = Math.max(1, Math.floor(maxParams / columns.length));
+    const batches: Array<{ columns: string[]; rows: unknown[][] }> = [];
+
+    for (let i = 0; i < docs.length; i += rowsPerBatch) {
+      const rows = docs.slice(i, i + rowsPerBatch).map(doc => columns.map(column => doc[column] ?? null));
+      batches.push({ columns, rows });
+    }
+
+    return batches;
+  }
+
+  /**
+   * Upsert'in çakışma hedefi: filtrede eşitlikle verilen _id ya da unique alan
+   * Hedef yoksa hata: arama ile INSERT arasına başka bir upsert girip çift kayıt ekleyebilir
+   */
+  protected upsertTarget(collection: string, schema: ISchema | undefined, filter: QueryFilter): string {
+    const fields = Object.keys(equalityFields(filter));
+    if (fields.includes('_id')) return '_id';
+
+    const target = fields.find(field => (schema?.definition[field] as { unique?: boolean } | undefined)?.unique);
+    if (!target) {
+      throw new Error(`Upsert on '${collection}' needs an _id or unique field equality in the filter`);
+    }
+    return target;
+  }
+
+  /**
+   * Hedefteki mevcut satır filtrenin geri kalanına uymuyor (MongoDB'deki duplicate key hatası)
+   */
+  protected upsertConflict(collection: string, target: string): Error {
+    return new Error(`Upsert on '${collection}' conflicts with an existing row on '${target}' that does not match the filter`);
+  }
+
+  /**
+   * Tablo/sütun adını tırnak içine al
+   */
+  protected quoteIdentifier(name: string): string {
+    return `"${name}"`;
+  }
+
+  /**
+   * Ana sorguyu alt sorguya sar ve populate JOIN'lerini ekle
+   * Alt sorgu sayesinde WHERE/LIMIT ifadeleri sütun çakışmasından etkilenmez
+   */
+  protected wrapWithJoins(sql: string, joins: PopulateJoin[], sort?: Record<string, 1 | -1>): string {
+    const q = (name: string) => this.quoteIdentifier(name);
+    const selects = [`${q('t')}.*`];
+    const joinClauses: string[] = [];
+
+    joins.forEach((join, i) => {
+      const alias = `p${i}`;
+      for (const column of join.columns) {
+        selects.push(`${q(alias)}.${q(column)} AS ${q(`${alias}__${column}`)}`);
+      }
+      joinClauses.push(
+        `LEFT JOIN ${q(join.collection)} ${q(alias)} ON ${q(alias)}.${q('_id')} = ${q('t')}.${q(join.path)}`
+      );
+    });
+
+    let wrapped = `SELECT ${selects.join(', ')} FROM (${sql}) ${q('t')} ${joinClauses.join(' ')}`;
+
+    // Alt sorgudaki sıralama dış sorguda korunmaz
+    if (sort && Object.keys(sort).length > 0) {
+      const clauses = Object.entries(sort)
+        .map(([field, order]) => {
+          const column = field.includes('.') ? this.sortField(field, q('t')) : `${q('t')}.${q(field)}`;
+          return `${column} ${order === 1 ? 'ASC' : 'DESC'}`;
+        });
+      wrapped += ` ORDER BY ${clauses.join(', ')}`;
+    }
+
+    return wrapped;
+  }
+
+  /**
+   * JOIN ile gelen düz satırı iç içe populate objelerine ayır
+   */
+  protected unpackJoinedRow(row: Record<string, unknown>, joins: PopulateJoin[]): Record<string, unknown> {
+    const result = { ...row };
+
+    joins.forEach((join, i) => {
+      const prefix = `p${i}__`;
+      const populated: Record<string, unknown> = {};
+
+      for (const column of join.columns) {
+        populated[column] = result[prefix + column];
+        delete result[prefix + column];
+      }
+
+      // Eşleşen kayıt yoksa Mongoose gibi null döndür
+      result[join.path] = populated._id == null ? null : populated;
+    });
+
+    return result;
+  }
 }
@@ -0,0 +1,249 @@
+// ============================================
+// SDBC - Bulk Write
+// Operation batching for SQL adapters
+// ============================================
+
+import type {
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult,
+  BulkWriteOperationError,
+  QueryFilter,
+  UpdateFilter,
+  UpdateResult,
+  UpdateOptions,
+  DeleteResult
+} from '../types';
+import { BulkWriteError } from '../errors';
+
+const SAVEPOINT = 'sdbc_bulk';
+
+/**
+ * Adapter'ın transaction bağlantısı üzerinden çalışan işlemleri
+ */
+export interface BulkExecutor {
+  /** Tablonun sütunları (replaceOne'da verilmeyen alanlar NULL yapılır) */
+  columns: string[];
+  insertMany(docs: Record<string, unknown>[]): Promise<Record<string, unknown>[]>;
+  updateOne(filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult>;
+  updateMany(filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult>;
+  deleteOne(filter: QueryFilter): Promise<DeleteResult>;
+  deleteMany(filter: QueryFilter): Promise<DeleteResult>;
+  /** SAVEPOINT komutlarını çalıştır */
+  exec(sql: string): Promise<unknown>;
+}
+
+export function emptyBulkWriteResult(): BulkWriteResult {
+  return {
+    acknowledged: true,
+    insertedCount: 0,
+    matchedCount: 0,
+    modifiedCount: 0,
+    deletedCount: 0,
+    upsertedCount: 0,
+    insertedIds: {},
+    upsertedIds: {},
+    errors: []
+  };
+}
+
+export function operationName(op: BulkWriteOperation): string {
+  return Object.keys(op)[0];
+}
+
+export function toOperationError(op: BulkWriteOperation, index: number, error: unknown): BulkWriteOperationError {
+  const err = error instanceof Error ? error : new Error(String(error));
+  return { index, operation: operationName(op), message: err.message, error: err };
+}
+
+/**
+ * Filtre sadece { _id: değer } ise _id'yi döndür
+ */
+function idOf(filter: QueryFilter): unknown {
+  const keys = Object.keys(filter);
+  const id = filter._id;
+  return keys.length === 1 && (typeof id === 'string' || typeof id === 'number') ? id : undefined;
+}
+
+/**
+ * Aynı anahtara sahip ardışık işlemler tek sorguda birleştirilir
+ * - insertOne: çok satırlı INSERT
+ * - _id ile aynı update'i yapan updateOne'lar: WHERE _id IN (...) (_id'ler farklıysa)
+ * - _id ile deleteOne'lar: DELETE ... WHERE _id IN (...)
+ */
+function batchKey(op: BulkWriteOperation): string | null {
+  if ('insertOne' in op) return 'insertOne';
+  if ('updateOne' in op && !op.updateOne.upsert && idOf(op.updateOne.filter) !== undefined) {
+    return `updateOne:${JSON.stringify(op.updateOne.update)}`;
+  }
+  if ('deleteOne' in op && idOf(op.deleteOne.filter) !== undefined) return 'deleteOne';
+  return null;
+}
+
+/**
+ * İşlemleri sırayı bozmadan gruplara ayır (her grup işlem index'lerinin listesi)
+ */
+export function groupBulkOperations(operations: BulkWriteOperation[]): number[][] {
+  const groups: number[][] = [];
+  let previous: string | null = null;
+  let ids = new Set<unknown>();
+
+  operations.forEach((op, index) => {
+    const key = batchKey(op);
+    // Aynı _id'ye tekrar eden update ($inc, $push) tek WHERE _id IN ile bir kez uygulanırdı
+    const id = 'updateOne' in op ? idOf(op.updateOne.filter) : undefined;
+
+    if (key !== null && key === previous && !ids.has(id)) {
+      groups[groups.length - 1].push(index);
+    } else {
+      groups.push([index]);
+      ids = new Set();
+    }
+    if (id !== undefined) ids.add(id);
+    previous = key;
+  });
+
+  return groups;
+}
+
+/**
+ * replaceOne'ı update'e çevir: verilmeyen sütunlar NULL olur
+ * Replacement'taki _id sadece upsert ile eklenen satıra yazılır
+ */
+function toReplaceUpdate(replacement: Record<string, unknown>, columns: string[]): UpdateFilter {
+  const { _id, ...$set } = replacement;
+  const $unset = Object.fromEntries(
+    columns.filter(column => column !== '_id' && !(column in $set)).map(column => [column, ''])
+  );
+  return _id === undefined ? { $set, $unset } : { $set, $unset, $setOnInsert: { _id } };
+}
+
+function addUpdateResult(result: BulkWriteResult, index: number, res: UpdateResult): void {
+  result.matchedCount += res.matchedCount;
+  result.modifiedCount += res.modifiedCount;
+  if (res.upsertedId !== undefined) {
+    result.upsertedCount++;
+    result.upsertedIds[index] = res.upsertedId;
+  }
+}
+
+async function runOperation(
+  op: BulkWriteOperation,
+  index: number,
+  exec: BulkExecutor,
+  result: BulkWriteResult
+): Promise<void> {
+  if ('insertOne' in op) {
+    const [row] = await exec.insertMany([op.insertOne.document]);
+    result.insertedCount++;
+    result.insertedIds[index] = String(row._id);
+  } else if ('updateOne' in op) {
+    const { filter, update, upsert } = op.updateOne;
+    addUpdateResult(result, index, await exec.updateOne(filter, update, { upsert }));
+  } else if ('updateMany' in op) {
+    const { filter, update, upsert } = op.updateMany;
+    addUpdateResult(result, index, await exec.updateMany(filter, update, { upsert }));
+  } else if ('replaceOne' in op) {
+    const { filter, replacement, upsert } = op.replaceOne;
+    addUpdateResult(result, index, await exec.updateOne(filter, toReplaceUpdate(replacement, exec.columns), { upsert }));
+  } else if ('deleteOne' in op) {
+    result.deletedCount += (await exec.deleteOne(op.deleteOne.filter)).deletedCount;
+  } else {
+    result.deletedCount += (await exec.deleteMany(op.deleteMany.filter)).deletedCount;
+  }
+}
+
+/**
+ * Gruplanmış işlemleri tek sorguda çalıştır
+ */
+async function runBatch(
+  operations: BulkWriteOperation[],
+  indexes: number[],
+  exec: BulkExecutor,
+  result: BulkWriteResult
+): Promise<void> {
+  const first = operations[indexes[0]];
+  if (indexes.length === 1) {
+    return runOperation(first, indexes[0], exec, result);
+  }
+
+  const ops = indexes.map(index => operations[index]);
+
+  if ('insertOne' in first) {
+    const rows = await exec.insertMany(ops.map(op => (op as { insertOne: { document: Record<string, unknown> } }).insertOne.document));
+    rows.forEach((row, n) => { result.insertedIds[indexes[n]] = String(row._id); });
+    result.insertedCount += rows.length;
+  } else if ('updateOne' in first) {
+    const ids = ops.map(op => idOf((op as { updateOne: { filter: QueryFilter } }).updateOne.filter));
+    const res = await exec.updateMany({ _id: { $in: ids } }, first.updateOne.update);
+    result.matchedCount += res.matchedCount;
+    result.modifiedCount += res.modifiedCount;
+  } else {
+    const ids = ops.map(op => idOf((op as { deleteOne: { filter: QueryFilter } }).deleteOne.filter));
+    result.deletedCount += (await exec.deleteMany({ _id: { $in: ids } })).deletedCount;
+  }
+}
+
+/**
+ * fn'i savepoint içinde çalıştır; hata olursa savepoint'e geri dön ve hatayı döndür
+ */
+async function withSavepoint(exec: BulkExecutor, fn: () => Promise<void>): Promise<unknown> {
+  await exec.exec(`SAVEPOINT ${SAVEPOINT}`);
+  try {
+    await fn();
+    await exec.exec(`RELEASE SAVEPOINT ${SAVEPOINT}`);
+    return null;
+  } catch (error) {
+    await exec.exec(`ROLLBACK TO SAVEPOINT ${SAVEPOINT}`);
+    return error ?? new Error('Bulk operation failed');
+  }
+}
+
+/**
+ * bulkWrite işlemlerini transaction içinde çalıştır (adapter transaction'ı açar)
+ * ordered: ilk hatada BulkWriteError fırlatılır, transaction geri alınır
+ * ordered: false: hatalı işlemler savepoint'e geri alınıp errors'a eklenir, kalanlar yazılır
+ */
+export async function runBulkWrite(
+  operations: BulkWriteOperation[],
+  options: BulkWriteOptions,
+  exec: BulkExecutor
+): Promise<BulkWriteResult> {
+  const ordered = options.ordered ?? true;
+  const result = emptyBulkWriteResult();
+
+  const fail = (index: number, error: unknown) => {
+    result.errors.push(toOperationError(operations[index], index, error));
+    if (ordered) {
+      throw new BulkWriteError({ ...emptyBulkWriteResult(), errors: result.errors });
+    }
+  };
+
+  for (const indexes of groupBulkOperations(operations)) {
+    // ordered modda tek işlemin hatası zaten tüm transaction'ı geri alır
+    if (ordered && indexes.length === 1) {
+      try {
+        await runOperation(operations[indexes[0]], indexes[0], exec, result);
+      } catch (error) {
+        fail(indexes[0], error);
+      }
+      continue;
+    }
+
+    const batchError = await withSavepoint(exec, () => runBatch(operations, indexes, exec, result));
+    if (!batchError) continue;
+
+    if (indexes.length === 1) {
+      fail(indexes[0], batchError);
+      continue;
+    }
+
+    // Grup başarısız: hatalı işlemi bulmak için tek tek dene
+    for (const index of indexes) {
+      const error = await withSavepoint(exec, () => runOperation(operations[index], index, exec, result));
+      if (error) fail(index, error);
+    }
+  }
+
+  return result;
+}
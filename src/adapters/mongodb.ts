@@ -3,21 +3,30 @@
 // Native MongoDB driver implementation
 // ============================================
 
-import { BaseAdapter } from './base';
+import { BaseAdapter, DEFAULT_BATCH_SIZE } from './base';
 import type {
   DatabaseCapabilities,
   QueryFilter,
   QueryOptions,
   UpdateFilter,
   UpdateResult,
+  UpdateOptions,
+  FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
   DeleteResult,
-  ISchema
+  ISchema,
+  PipelineStage,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult
 } from '../types';
 import { parseQueryFilter, toMongoFilter, parseUpdateFilter } from '../utils/query-parser';
 import { generateObjectId } from '../utils/id-generator';
+import { toOperationError } from './bulk';
+import { BulkWriteError } from '../errors';
 
 // MongoDB types - actual types from mongodb package
-import type { MongoClient, Db, Collection } from 'mongodb';
+import type { MongoClient, Db, Collection, ClientSession, FindCursor, AnyBulkWriteOperation, MongoBulkWriteError, WriteError } from 'mongodb';
 
 export class MongoDBAdapter extends BaseAdapter {
   name = 'mongodb' as const;
@@ -64,6 +73,14 @@ export class MongoDBAdapter extends BaseAdapter {
     return this.db!.collection(name);
   }
 
+  /**
+   * Transaction scope'undaysa sürücü çağrılarına eklenecek session
+   */
+  private sessionOptions(): { session?: ClientSession } {
+    const session = this.transactionClient<ClientSession>();
+    return session ? { session } : {};
+  }
+
   async createCollection(name: string, schema: ISchema): Promise<void> {
     this.ensureConnected();
     
@@ -109,7 +126,7 @@ export class MongoDBAdapter extends BaseAdapter {
       ...doc
     };
     
-    const result = await coll.insertOne(docWithId as any);
+    const result = await coll.insertOne(docWithId as any, this.sessionOptions());
     return { ...docWithId, _id: result.insertedId.toString() };
   }
 
@@ -121,16 +138,36 @@ export class MongoDBAdapter extends BaseAdapter {
       ...doc
     }));
     
-    await coll.insertMany(docsWithIds as any);
+    await coll.insertMany(docsWithIds as any, this.sessionOptions());
     return docsWithIds.map(d => ({ ...d, _id: d._id.toString() }));
   }
 
   async find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]> {
+    const results = await this.buildCursor(collection, filter, options).toArray();
+    return results.map((doc: Record<string, unknown>) => this.normalizeDocument(doc));
+  }
+
+  async *findCursor(collection: string, filter: QueryFilter, options?: QueryOptions): AsyncIterable<Record<string, unknown>> {
+    const cursor = this.buildCursor(collection, filter, options).batchSize(options?.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    try {
+      for await (const doc of cursor) {
+        yield this.normalizeDocument(doc);
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  /**
+   * find ve findCursor için native cursor oluştur
+   */
+  private buildCursor(collection: string, filter: QueryFilter, options?: QueryOptions): FindCursor {
     const coll = this.getCollection(collection);
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     
-    let cursor = coll.find(mongoFilter);
+    let cursor = coll.find(mongoFilter, this.sessionOptions());
     
     if (options?.sort) {
       cursor = cursor.sort(options.sort);
@@ -146,8 +183,7 @@ export class MongoDBAdapter extends BaseAdapter {
       cursor = cursor.project(projection);
     }
     
-    const results = await cursor.toArray();
-    return results.map((doc: Record<string, unknown>) => this.normalizeDocument(doc));
+    return cursor;
   }
 
   async findOne(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown> | null> {
@@ -155,7 +191,7 @@ export class MongoDBAdapter extends BaseAdapter {
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     
-    const findOptions: any = {};
+    const findOptions: any = this.sessionOptions();
     if (options?.select) {
       findOptions.projection = this.buildProjection(options.select);
     }
@@ -164,13 +200,13 @@ export class MongoDBAdapter extends BaseAdapter {
     return doc ? this.normalizeDocument(doc) : null;
   }
 
-  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
     const coll = this.getCollection(collection);
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     const mongoUpdate = this.buildUpdateDocument(update);
     
-    const result = await coll.updateOne(mongoFilter, mongoUpdate);
+    const result = await coll.updateOne(mongoFilter, mongoUpdate, { upsert: options?.upsert ?? false, ...this.sessionOptions() });
     
     return {
       acknowledged: result.acknowledged,
@@ -181,13 +217,13 @@ export class MongoDBAdapter extends BaseAdapter {
     };
   }
 
-  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
     const coll = this.getCollection(collection);
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     const mongoUpdate = this.buildUpdateDocument(update);
     
-    const result = await coll.updateMany(mongoFilter, mongoUpdate);
+    const result = await coll.updateMany(mongoFilter, mongoUpdate, { upsert: options?.upsert ?? false, ...this.sessionOptions() });
     
     return {
       acknowledged: result.acknowledged,
@@ -203,7 +239,7 @@ export class MongoDBAdapter extends BaseAdapter {
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     
-    const result = await coll.deleteOne(mongoFilter);
+    const result = await coll.deleteOne(mongoFilter, this.sessionOptions());
     
     return {
       acknowledged: result.acknowledged,
@@ -216,7 +252,7 @@ export class MongoDBAdapter extends BaseAdapter {
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     
-    const result = await coll.deleteMany(mongoFilter);
+    const result = await coll.deleteMany(mongoFilter, this.sessionOptions());
     
     return {
       acknowledged: result.acknowledged,
@@ -224,12 +260,131 @@ export class MongoDBAdapter extends BaseAdapter {
     };
   }
 
+  async findOneAndUpdate(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter,
+    options: FindOneAndUpdateOptions = {}
+  ): Promise<Record<string, unknown> | null> {
+    const coll = this.getCollection(collection);
+    const mongoFilter = toMongoFilter(parseQueryFilter(filter));
+    
+    // includeResultMetadata: sürücü 5 ve 6+ aynı ModifyResult şeklini döndürür
+    const result = await coll.findOneAndUpdate(mongoFilter, this.buildUpdateDocument(update), {
+      sort: options.sort,
+      projection: options.projection ? this.buildProjection(options.projection) : undefined,
+      upsert: options.upsert ?? false,
+      returnDocument: options.new ? 'after' : 'before',
+      includeResultMetadata: true,
+      ...this.sessionOptions()
+    });
+    
+    return result.value ? this.normalizeDocument(result.value) : null;
+  }
+
+  async findOneAndDelete(collection: string, filter: QueryFilter, options: FindOneAndDeleteOptions = {}): Promise<Record<string, unknown> | null> {
+    const coll = this.getCollection(collection);
+    const mongoFilter = toMongoFilter(parseQueryFilter(filter));
+    
+    const result = await coll.findOneAndDelete(mongoFilter, {
+      sort: options.sort,
+      projection: options.projection ? this.buildProjection(options.projection) : undefined,
+      includeResultMetadata: true,
+      ...this.sessionOptions()
+    });
+    
+    return result.value ? this.normalizeDocument(result.value) : null;
+  }
+
   async countDocuments(collection: string, filter: QueryFilter): Promise<number> {
     const coll = this.getCollection(collection);
     const conditions = parseQueryFilter(filter);
     const mongoFilter = toMongoFilter(conditions);
     
-    return coll.countDocuments(mongoFilter);
+    return coll.countDocuments(mongoFilter, this.sessionOptions());
+  }
+
+  async aggregate(collection: string, pipeline: PipelineStage[]): Promise<Record<string, unknown>[]> {
+    const coll = this.getCollection(collection);
+
+    // $match filtreleri diğer sorgularla aynı şekilde dönüştürülür
+    const stages = pipeline.map(stage =>
+      '$match' in stage ? { $match: toMongoFilter(parseQueryFilter(stage.$match)) } : stage
+    );
+
+    return coll.aggregate(stages, this.sessionOptions()).toArray();
+  }
+
+  /**
+   * Native bulkWrite
+   * Transaction kullanılmaz: ordered modda hatadan önceki yazmalar kalıcıdır
+   */
+  async bulkWrite(collection: string, operations: BulkWriteOperation[], options: BulkWriteOptions = {}): Promise<BulkWriteResult> {
+    const coll = this.getCollection(collection);
+    const ordered = options.ordered ?? true;
+    const toFilter = (filter: QueryFilter) => toMongoFilter(parseQueryFilter(filter));
+    const ids: Record<number, string> = {};
+
+    const models = operations.map((op, index): AnyBulkWriteOperation => {
+      if ('insertOne' in op) {
+        const document = { _id: op.insertOne.document._id || generateObjectId(), ...op.insertOne.document };
+        ids[index] = String(document._id);
+        return { insertOne: { document: document as any } };
+      }
+      if ('updateOne' in op) {
+        const { filter, update, upsert } = op.updateOne;
+        return { updateOne: { filter: toFilter(filter), update: this.buildUpdateDocument(update), upsert } };
+      }
+      if ('updateMany' in op) {
+        const { filter, update, upsert } = op.updateMany;
+        return { updateMany: { filter: toFilter(filter), update: this.buildUpdateDocument(update), upsert } };
+      }
+      if ('replaceOne' in op) {
+        const { filter, replacement, upsert } = op.replaceOne;
+        return { replaceOne: { filter: toFilter(filter), replacement, upsert } };
+      }
+      if ('deleteOne' in op) {
+        return { deleteOne: { filter: toFilter(op.deleteOne.filter) } };
+      }
+      return { deleteMany: { filter: toFilter(op.deleteMany.filter) } };
+    });
+
+    let native: MongoBulkWriteError['result'];
+    let writeErrors: WriteError[] = [];
+
+    try {
+      native = await coll.bulkWrite(models, { ordered, ...this.sessionOptions() });
+    } catch (error) {
+      const bulkError = error as Partial<MongoBulkWriteError>;
+      if (!bulkError.result) throw error;
+      native = bulkError.result;
+      writeErrors = ([] as WriteError[]).concat(bulkError.writeErrors ?? []);
+    }
+
+    // ordered modda ilk hatadan sonraki işlemler çalışmaz
+    const failed = new Set(writeErrors.map(e => e.index));
+    const stoppedAt = ordered && writeErrors.length > 0 ? Math.min(...failed) : Infinity;
+
+    const result: BulkWriteResult = {
+      acknowledged: true,
+      insertedCount: native.insertedCount,
+      matchedCount: native.matchedCount,
+      modifiedCount: native.modifiedCount,
+      deletedCount: native.deletedCount,
+      upsertedCount: native.upsertedCount,
+      insertedIds: Object.fromEntries(
+        Object.entries(ids).filter(([index]) => !failed.has(Number(index)) && Number(index) < stoppedAt)
+      ),
+      upsertedIds: Object.fromEntries(
+        Object.entries(native.upsertedIds).map(([index, id]) => [index, String(id)])
+      ),
+      errors: writeErrors.map(e => toOperationError(operations[e.index], e.index, new Error(e.errmsg)))
+    };
+
+    if (ordered && result.errors.length > 0) {
+      throw new BulkWriteError(result);
+    }
+    return result;
   }
 
   /**
@@ -289,6 +444,14 @@ export class MongoDBAdapter extends BaseAdapter {
       mongoUpdate.$pull = parsed.pulls;
     }
     
+    if (Object.keys(parsed.addToSets).length > 0) {
+      mongoUpdate.$addToSet = parsed.addToSets;
+    }
+    
+    if (Object.keys(parsed.setOnInsert).length > 0) {
+      mongoUpdate.$setOnInsert = parsed.setOnInsert;
+    }
+    
     return mongoUpdate;
   }
 
@@ -3,24 +3,51 @@
 // mysql2 implementation
 // ============================================
 
-import { BaseAdapter } from './base';
+import { AsyncLocalStorage } from 'async_hooks';
+import { BaseAdapter, DEFAULT_BATCH_SIZE } from './base';
 import type {
   DatabaseCapabilities,
   QueryFilter,
   QueryOptions,
   UpdateFilter,
   UpdateResult,
+  UpdateOptions,
   DeleteResult,
-  ISchema
+  FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
+  ISchema,
+  PipelineStage,
+  ReadPreference,
+  ReplicationOptions,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult
 } from '../types';
-import { parseQueryFilter, toMySQLWhere, parseUpdateFilter } from '../utils/query-parser';
+import { ReplicaSet } from './replicas';
+import { runBulkWrite } from './bulk';
+import {
+  parseQueryFilter,
+  toMySQLWhere,
+  parseUpdateFilter,
+  toArrayValues,
+  toPullValues,
+  uniqueArrayValues,
+  splitNestedSets,
+  toJSONPath,
+  toUpsertDocument
+} from '../utils/query-parser';
+import { compileAggregation, normalizeAggregateRows } from '../utils/aggregate';
 import { generateId } from '../utils/id-generator';
 
 // MySQL types
 type Pool = import('mysql2/promise').Pool;
+type PoolConnection = import('mysql2/promise').PoolConnection;
 type RowDataPacket = import('mysql2/promise').RowDataPacket;
 type ResultSetHeader = import('mysql2/promise').ResultSetHeader;
 
+// Bir sorgudaki en fazla bind parametresi
+const MAX_PARAMS = 65535;
+
 export class MySQLAdapter extends BaseAdapter {
   name = 'mysql' as const;
   capabilities: DatabaseCapabilities = {
@@ -33,36 +60,63 @@ export class MySQLAdapter extends BaseAdapter {
   };
 
   private pool: Pool | null = null;
+  private replicas: ReplicaSet<Pool> | null = null;
   private schemas: Map<string, ISchema> = new Map();
+  // transaction() içindeki sorguların kullandığı bağlantı
+  private session = new AsyncLocalStorage<PoolConnection>();
+
+  async connect(uri: string, options?: Record<string, unknown>, replication?: ReplicationOptions): Promise<void> {
+    // Bağlantı kurulamazsa açılmış tüm havuzlar kapatılır
+    const opened: Pool[] = [];
 
-  async connect(uri: string, options?: Record<string, unknown>): Promise<void> {
     try {
       const mysql = await import('mysql2/promise');
       
-      // URI'yi parse et
-      const url = new URL(uri);
-      
-      this.pool = mysql.createPool({
-        host: url.hostname,
-        port: parseInt(url.port || '3306', 10),
-        user: url.username,
-        password: url.password,
-        database: url.pathname.slice(1),
-        waitForConnections: true,
-        connectionLimit: 10,
-        ...options
-      });
-      
-      // Bağlantıyı test et
-      const conn = await this.pool.getConnection();
-      conn.release();
+      const createPool = async (poolUri: string) => {
+        // URI'yi parse et
+        const url = new URL(poolUri);
+        
+        const pool = mysql.createPool({
+          host: url.hostname,
+          port: parseInt(url.port || '3306', 10),
+          user: url.username,
+          password: url.password,
+          database: url.pathname.slice(1),
+          waitForConnections: true,
+          connectionLimit: 10,
+          ...options
+        });
+        opened.push(pool);
+        
+        // Bağlantıyı test et
+        const conn = await pool.getConnection();
+        conn.release();
+        return pool;
+      };
+
+      this.pool = await createPool(uri);
+
+      if (replication?.replicas.length) {
+        // Bekleyen denemeler bitmeden havuzlar kapatılmasın diye hepsi beklenir
+        const results = await Promise.allSettled(replication.replicas.map(createPool));
+        const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed) throw failed.reason;
+        this.replicas = new ReplicaSet(results.map(result => (result as PromiseFulfilledResult<Pool>).value), replication.selection);
+      }
+
       this.connected = true;
     } catch (error) {
+      await Promise.allSettled(opened.map(pool => pool.end()));
+      this.pool = null;
       throw new Error(`MySQL connection failed: ${(error as Error).message}`);
     }
   }
 
   async disconnect(): Promise<void> {
+    if (this.replicas) {
+      await Promise.all(this.replicas.pools.map(pool => pool.end()));
+      this.replicas = null;
+    }
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -72,27 +126,88 @@ export class MySQLAdapter extends BaseAdapter {
 
   private async query<T = RowDataPacket[]>(sql: string, params: unknown[] = []): Promise<T> {
     this.ensureConnected();
-    const [rows] = await this.pool!.execute(sql, params);
+    const [rows] = await (this.activeClient() ?? this.pool!).execute(sql, params as any[]);
+    return rows as T;
+  }
+
+  /**
+   * Sorguların gideceği bağlantı: adapter transaction'ı veya Transaction API'si
+   */
+  private activeClient(): PoolConnection | undefined {
+    return this.session.getStore() ?? this.transactionClient<PoolConnection>();
+  }
+
+  /**
+   * Okuma sorgusu: replica varsa oraya, read: 'primary' ise primary'ye gider
+   */
+  private async readQuery<T = RowDataPacket[]>(sql: string, params: unknown[] = [], read?: ReadPreference): Promise<T> {
+    if (!this.replicas || read === 'primary' || this.activeClient()) {
+      return this.query<T>(sql, params);
+    }
+
+    this.ensureConnected();
+    const [rows] = await this.replicas.run(pool => pool.execute(sql, params as any[]), this.pool!);
     return rows as T;
   }
 
+  /**
+   * fn içindeki tüm sorguları tek bağlantıda transaction içinde çalıştır
+   * Zaten transaction içindeyse mevcut bağlantı kullanılır
+   */
+  private async transaction<R>(fn: () => Promise<R>): Promise<R> {
+    if (this.session.getStore()) return fn();
+
+    // Transaction API'sinin sabitlediği bağlantıya katıl
+    const pinned = this.transactionClient<PoolConnection>();
+    if (pinned) return this.session.run(pinned, fn);
+
+    this.ensureConnected();
+    const conn = await this.pool!.getConnection();
+
+    try {
+      await conn.beginTransaction();
+      const result = await this.session.run(conn, fn);
+      await conn.commit();
+      return result;
+    } catch (error) {
+      await conn.rollback();
+      throw error;
+    } finally {
+      conn.release();
+    }
+  }
+
   async createCollection(name: string, schema: ISchema): Promise<void> {
     this.ensureConnected();
+
+    const known = this.schemas.has(name);
     this.schemas.set(name, schema);
+
+    // DDL bağlantının açık transaction'ını örtük olarak commit eder: DDL her zaman ayrı bir
+    // pool bağlantısında çalışır. Transaction içinde mevcut tabloya DDL yapılmaz; transaction'ın
+    // tuttuğu metadata kilidi ayrı bağlantıdaki CREATE INDEX'i kilitlenmeye sokar.
+    if (this.activeClient()) {
+      if (known) return;
+      const [tables] = await this.pool!.execute<RowDataPacket[]>(
+        'SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?',
+        [name]
+      );
+      if (tables.length > 0) return;
+    }
     
     const columns = this.schemaToColumns(schema);
     const sql = `CREATE TABLE IF NOT EXISTS \`${name}\` (${columns}) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`;
     
-    await this.query(sql);
+    await this.pool!.execute(sql);
     
     // Index'leri oluştur
     for (const [field, def] of Object.entries(schema.definition)) {
       const fieldDef = def as { unique?: boolean; index?: boolean };
       try {
         if (fieldDef.unique) {
-          await this.query(`CREATE UNIQUE INDEX \`idx_${name}_${field}\` ON \`${name}\` (\`${field}\`)`);
+          await this.pool!.execute(`CREATE UNIQUE INDEX \`idx_${name}_${field}\` ON \`${name}\` (\`${field}\`)`);
         } else if (fieldDef.index) {
-          await this.query(`CREATE INDEX \`idx_${name}_${field}\` ON \`${name}\` (\`${field}\`)`);
+          await this.pool!.execute(`CREATE INDEX \`idx_${name}_${field}\` ON \`${name}\` (\`${field}\`)`);
         }
       } catch {
         // Index zaten varsa görmezden gel
@@ -125,17 +240,82 @@ export class MySQLAdapter extends BaseAdapter {
   }
 
   async insertMany(collection: string, docs: Record<string, unknown>[]): Promise<Record<string, unknown>[]> {
-    const results: Record<string, unknown>[] = [];
+    if (docs.length === 0) return [];
+
+    const docsWithIds = docs.map(doc => ({ _id: doc._id || generateId(), ...doc }));
+    const batches = this.toInsertBatches(docsWithIds, MAX_PARAMS);
+
+    // Çok satırlı INSERT; birden fazla parça varsa hepsi aynı transaction'da
+    const insert = async () => {
+      for (const { columns, rows } of batches) {
+        const values = rows.map(row => `(${row.map(() => '?').join(', ')})`);
+        const params = rows.flat().map(v =>
+          typeof v === 'object' && v !== null && !(v instanceof Date) ? JSON.stringify(v) : v
+        );
+        const sql = `INSERT INTO \`${collection}\` (${columns.map(c => `\`${c}\``).join(', ')}) VALUES ${values.join(', ')}`;
+        await this.query(sql, params);
+      }
+      return docsWithIds;
+    };
+
+    return batches.length > 1 ? this.transaction(insert) : insert();
+  }
+
+  async find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]> {
+    const { sql, params } = this.buildFindQuery(collection, filter, options);
+    const rows = await this.readQuery<RowDataPacket[]>(sql, params, options?.read);
     
-    for (const doc of docs) {
-      const result = await this.insertOne(collection, doc);
-      results.push(result);
+    const joins = options?.joins;
+    return rows.map(row => (joins?.length ? this.unpackJoinedRow(this.parseRow(row), joins) : this.parseRow(row)));
+  }
+
+  async *findCursor(collection: string, filter: QueryFilter, options?: QueryOptions): AsyncIterable<Record<string, unknown>> {
+    const { sql, params } = this.buildFindQuery(collection, filter, options);
+    const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+    const joins = options?.joins;
+
+    this.ensureConnected();
+
+    // Transaction içindeyse stream sabitlenmiş bağlantıda açılır ve bağlantı bırakılmaz
+    // Replica bağlantısı okuma sorgularıyla aynı failover yolundan alınır
+    const pinned = this.activeClient();
+    const conn = pinned ?? await (this.replicas && options?.read !== 'primary'
+      ? this.replicas.run(pool => pool.getConnection(), this.pool!)
+      : this.pool!.getConnection());
+    // Stream desteği promise wrapper'da yok, alttaki callback bağlantısı kullanılır
+    const core = conn.connection as unknown as import('mysql2').Connection;
+    const query = core.query(sql, params);
+    const stream = query.stream({ highWaterMark: batchSize });
+
+    // Sorgu bitince (hata dahil) 'end' yayılır; hatalar stream üzerinden iletilir
+    let ended = false;
+    const finished = new Promise<void>(resolve => query.once('end', () => { ended = true; resolve(); }));
+    query.on('error', () => {});
+
+    try {
+      // Tüketici yavaşsa stream duraklar (backpressure)
+      for await (const row of stream) {
+        const parsed = this.parseRow(row as RowDataPacket);
+        yield joins?.length ? this.unpackJoinedRow(parsed, joins) : parsed;
+      }
+    } finally {
+      stream.destroy();
+      if (pinned) {
+        // Erken çıkışta kalan satırlar okunup atılır, bağlantı transaction için kullanılabilir kalır
+        if (!ended) await finished;
+      } else if (ended) {
+        conn.release();
+      } else {
+        // Yarıda kalan sonuç kümesi bağlantıyı kirletir; havuza geri verilmez
+        conn.destroy();
+      }
     }
-    
-    return results;
   }
 
-  async find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]> {
+  /**
+   * find ve findCursor için SELECT sorgusunu oluştur
+   */
+  private buildFindQuery(collection: string, filter: QueryFilter, options?: QueryOptions): { sql: string; params: unknown[] } {
     const conditions = parseQueryFilter(filter);
     const { where, params } = toMySQLWhere(conditions);
     
@@ -152,8 +332,11 @@ export class MySQLAdapter extends BaseAdapter {
       sql += ` OFFSET ${options.skip}`;
     }
     
-    const rows = await this.query<RowDataPacket[]>(sql, params);
-    return rows.map(row => this.parseRow(row));
+    if (options?.joins?.length) {
+      sql = this.wrapWithJoins(sql, options.joins, options.sort);
+    }
+    
+    return { sql, params };
   }
 
   async findOne(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown> | null> {
@@ -161,9 +344,11 @@ export class MySQLAdapter extends BaseAdapter {
     return results[0] || null;
   }
 
-  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
-    const existing = await this.findOne(collection, filter);
+  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+    if (options?.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const existing = await this.findOne(collection, filter, { read: 'primary' });
     if (!existing) {
+      if (options?.upsert) return this.upsert(collection, filter, update);
       return {
         acknowledged: true,
         matchedCount: 0,
@@ -172,28 +357,9 @@ export class MySQLAdapter extends BaseAdapter {
       };
     }
     
-    const parsed = parseUpdateFilter(update);
-    const setClauses: string[] = [];
-    const params: unknown[] = [];
+    const { clauses, params } = this.buildSetClauses(update);
     
-    // $set
-    for (const [key, value] of Object.entries(parsed.sets)) {
-      setClauses.push(`\`${key}\` = ?`);
-      params.push(typeof value === 'object' && value !== null ? JSON.stringify(value) : value);
-    }
-    
-    // $inc
-    for (const [key, amount] of Object.entries(parsed.increments)) {
-      setClauses.push(`\`${key}\` = \`${key}\` + ?`);
-      params.push(amount);
-    }
-    
-    // $unset
-    for (const key of parsed.unsets) {
-      setClauses.push(`\`${key}\` = NULL`);
-    }
-    
-    if (setClauses.length === 0) {
+    if (clauses.length === 0) {
       return {
         acknowledged: true,
         matchedCount: 1,
@@ -203,7 +369,7 @@ export class MySQLAdapter extends BaseAdapter {
     }
     
     params.push(existing._id);
-    const sql = `UPDATE \`${collection}\` SET ${setClauses.join(', ')} WHERE \`_id\` = ?`;
+    const sql = `UPDATE \`${collection}\` SET ${clauses.join(', ')} WHERE \`_id\` = ?`;
     
     const result = await this.query<ResultSetHeader>(sql, params);
     
@@ -215,29 +381,18 @@ export class MySQLAdapter extends BaseAdapter {
     };
   }
 
-  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+    if (options?.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
     const conditions = parseQueryFilter(filter);
     const { where, params: whereParams } = toMySQLWhere(conditions);
     
-    const parsed = parseUpdateFilter(update);
-    const setClauses: string[] = [];
-    const params: unknown[] = [];
-    
-    for (const [key, value] of Object.entries(parsed.sets)) {
-      setClauses.push(`\`${key}\` = ?`);
-      params.push(typeof value === 'object' && value !== null ? JSON.stringify(value) : value);
-    }
-    
-    for (const [key, amount] of Object.entries(parsed.increments)) {
-      setClauses.push(`\`${key}\` = \`${key}\` + ?`);
-      params.push(amount);
-    }
+    const { clauses, params } = this.buildSetClauses(update);
     
-    for (const key of parsed.unsets) {
-      setClauses.push(`\`${key}\` = NULL`);
-    }
-    
-    if (setClauses.length === 0) {
+    if (clauses.length === 0) {
+      // Sadece $setOnInsert verilmiş olabilir
+      if (options?.upsert && await this.countDocuments(collection, filter) === 0) {
+        return this.upsert(collection, filter, update);
+      }
       return {
         acknowledged: true,
         matchedCount: 0,
@@ -246,9 +401,13 @@ export class MySQLAdapter extends BaseAdapter {
       };
     }
     
-    const sql = `UPDATE \`${collection}\` SET ${setClauses.join(', ')} WHERE ${where}`;
+    const sql = `UPDATE \`${collection}\` SET ${clauses.join(', ')} WHERE ${where}`;
     const result = await this.query<ResultSetHeader>(sql, [...params, ...whereParams]);
     
+    if (result.affectedRows === 0 && options?.upsert) {
+      return this.upsert(collection, filter, update);
+    }
+    
     return {
       acknowledged: true,
       matchedCount: result.affectedRows,
@@ -257,8 +416,81 @@ export class MySQLAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * Update operatörlerini SET ifadelerine çevir
+   */
+  private buildSetClauses(update: UpdateFilter): { clauses: string[]; params: unknown[] } {
+    const parsed = parseUpdateFilter(update);
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    
+    // $set
+    const { sets, nested } = splitNestedSets(parsed.sets);
+    
+    for (const [key, value] of Object.entries(sets)) {
+      clauses.push(`\`${key}\` = ?`);
+      params.push(typeof value === 'object' && value !== null ? JSON.stringify(value) : value);
+    }
+    
+    // Nokta notasyonlu alanlar JSON sütunu içinde güncellenir
+    for (const [column, entries] of Object.entries(nested)) {
+      const pairs = entries.map(() => '?, CAST(? AS JSON)').join(', ');
+      clauses.push(`\`${column}\` = JSON_SET(COALESCE(\`${column}\`, JSON_OBJECT()), ${pairs})`);
+      entries.forEach(({ path, value }) => params.push(toJSONPath(path), JSON.stringify(value)));
+    }
+    
+    // $inc
+    for (const [key, amount] of Object.entries(parsed.increments)) {
+      clauses.push(`\`${key}\` = \`${key}\` + ?`);
+      params.push(amount);
+    }
+    
+    // $unset
+    for (const key of parsed.unsets) {
+      clauses.push(`\`${key}\` = NULL`);
+    }
+    
+    this.buildArrayUpdates(parsed, clauses, params);
+    
+    return { clauses, params };
+  }
+
+  /**
+   * Eşleşme yoksa INSERT ... ON DUPLICATE KEY UPDATE
+   * ON DUPLICATE KEY UPDATE'te WHERE olmadığından sadece filtre tamamen hedef alanın
+   * eşitliğiyse kullanılır; diğer durumlarda düz INSERT yapılır (çakışmada duplicate key hatası)
+   */
+  private async upsert(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+    const target = this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const doc: Record<string, unknown> = { _id: generateId(), ...toUpsertDocument(filter, update) };
+    const keys = Object.keys(doc);
+    const params = Object.values(doc).map(v => typeof v === 'object' && v !== null && !(v instanceof Date) ? JSON.stringify(v) : v);
+    let sql = `INSERT INTO \`${collection}\` (${keys.map(k => `\`${k}\``).join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`;
+
+    const onlyTarget = parseQueryFilter(filter).every(c => c.operator === '$eq' && c.field === target);
+    let existing = false;
+    let hasChanges = false;
+    if (onlyTarget) {
+      const { clauses, params: setParams } = this.buildSetClauses(update);
+      sql += ` ON DUPLICATE KEY UPDATE ${clauses.length > 0 ? clauses.join(', ') : '`_id` = `_id`'}`;
+      // affectedRows eklenen ile değişmeyen satırı ayırmaz, mevcut satır önceden kontrol edilir
+      const rows = await this.query(`SELECT 1 FROM \`${collection}\` WHERE \`${target}\` = ? LIMIT 1`, [params[keys.indexOf(target)]]);
+      existing = rows.length > 0;
+      params.push(...setParams);
+      hasChanges = clauses.length > 0;
+    }
+
+    const result = await this.query<ResultSetHeader>(sql, params);
+
+    if (!existing) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: String(doc._id) };
+    }
+    // FOUND_ROWS bayrağıyla affectedRows: 1 = değişmedi, 2 = güncellendi
+    return { acknowledged: true, matchedCount: 1, modifiedCount: hasChanges && result.affectedRows === 2 ? 1 : 0, upsertedCount: 0 };
+  }
+
   async deleteOne(collection: string, filter: QueryFilter): Promise<DeleteResult> {
-    const existing = await this.findOne(collection, filter);
+    const existing = await this.findOne(collection, filter, { read: 'primary' });
     if (!existing) {
       return { acknowledged: true, deletedCount: 0 };
     }
@@ -283,11 +515,74 @@ export class MySQLAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * Transaction içinde eşleşen satır SELECT ... FOR UPDATE ile kilitlenir,
+   * güncelleme bitene kadar başka yazıcı satırı değiştiremez
+   * Eşleşme yoksa upsert aynı transaction'da yapılır
+   */
+  async findOneAndUpdate(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter,
+    options: FindOneAndUpdateOptions = {}
+  ): Promise<Record<string, unknown> | null> {
+    if (options.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const { clauses, params } = this.buildSetClauses(update);
+    const columns = this.selectToColumns(options.projection);
+
+    const row = await this.transaction(async () => {
+      let id = await this.lockOne(collection, filter, options.sort);
+      const read = async () => (await this.query(`SELECT ${columns} FROM \`${collection}\` WHERE \`_id\` = ?`, [id]))[0];
+
+      if (id === undefined) {
+        if (!options.upsert) return undefined;
+        // Varsayılan REPEATABLE READ'de boş FOR UPDATE aralığı kilitler, başka yazıcı araya giremez
+        const result = await this.upsert(collection, filter, update);
+        if (!options.new) return undefined;
+        id = result.upsertedId ?? await this.lockOne(collection, filter, options.sort);
+        return id === undefined ? undefined : read();
+      }
+
+      const previous = options.new ? undefined : await read();
+      if (clauses.length > 0) {
+        await this.query(`UPDATE \`${collection}\` SET ${clauses.join(', ')} WHERE \`_id\` = ?`, [...params, id]);
+      }
+      return options.new ? read() : previous;
+    });
+
+    return row ? this.parseRow(row) : null;
+  }
+
+  async findOneAndDelete(collection: string, filter: QueryFilter, options: FindOneAndDeleteOptions = {}): Promise<Record<string, unknown> | null> {
+    const columns = this.selectToColumns(options.projection);
+
+    const row = await this.transaction(async () => {
+      const id = await this.lockOne(collection, filter, options.sort);
+      if (id === undefined) return undefined;
+
+      const [previous] = await this.query(`SELECT ${columns} FROM \`${collection}\` WHERE \`_id\` = ?`, [id]);
+      await this.query(`DELETE FROM \`${collection}\` WHERE \`_id\` = ?`, [id]);
+      return previous;
+    });
+
+    return row ? this.parseRow(row) : null;
+  }
+
+  /**
+   * Filtreye uyan ilk satırı FOR UPDATE ile kilitle ve _id'sini döndür (transaction içinde çağrılır)
+   */
+  private async lockOne(collection: string, filter: QueryFilter, sort?: Record<string, 1 | -1>): Promise<unknown> {
+    const { where, params } = toMySQLWhere(parseQueryFilter(filter));
+    const orderBy = sort ? ` ${this.sortToOrderBy(sort)}` : '';
+    const [row] = await this.query(`SELECT \`_id\` FROM \`${collection}\` WHERE ${where}${orderBy} LIMIT 1 FOR UPDATE`, params);
+    return row?._id;
+  }
+
   async countDocuments(collection: string, filter: QueryFilter): Promise<number> {
     const conditions = parseQueryFilter(filter);
     const { where, params } = toMySQLWhere(conditions);
     
-    const [result] = await this.query<RowDataPacket[]>(
+    const [result] = await this.readQuery<RowDataPacket[]>(
       `SELECT COUNT(*) as count FROM \`${collection}\` WHERE ${where}`,
       params
     );
@@ -295,6 +590,89 @@ export class MySQLAdapter extends BaseAdapter {
     return result?.count || 0;
   }
 
+  async aggregate(collection: string, pipeline: PipelineStage[]): Promise<Record<string, unknown>[]> {
+    const compiled = compileAggregation(collection, pipeline, {
+      provider: 'mysql',
+      quote: name => this.quoteIdentifier(name),
+      paramPrefix: '?',
+      unboundedLimit: '18446744073709551615'
+    });
+
+    const rows = await this.query<RowDataPacket[]>(compiled.sql, compiled.params);
+    return normalizeAggregateRows(rows.map(row => this.parseRow(row)), compiled);
+  }
+
+  /**
+   * $push, $addToSet ve $pull için JSON dizi güncellemeleri oluştur
+   */
+  private buildArrayUpdates(
+    parsed: ReturnType<typeof parseUpdateFilter>,
+    setClauses: string[],
+    params: unknown[]
+  ): void {
+    for (const [key, value] of Object.entries(parsed.pushes)) {
+      const values = toArrayValues(value);
+      const appends = values.map(() => `'$', CAST(? AS JSON)`).join(', ');
+      setClauses.push(`\`${key}\` = JSON_ARRAY_APPEND(COALESCE(\`${key}\`, JSON_ARRAY()), ${appends})`);
+      params.push(...values.map(v => JSON.stringify(v)));
+    }
+    
+    for (const [key, value] of Object.entries(parsed.addToSets)) {
+      const values = uniqueArrayValues(toArrayValues(value));
+      // Eleman zaten varsa var olmayan bir yol verilir; JSON_ARRAY_APPEND bu çifti yok sayar
+      const appends = values.map(v =>
+        `IF(EXISTS (SELECT 1 FROM ${this.arrayElements(key)} WHERE ${this.arrayElementMatch(v)}), '$.__exists', '$'), CAST(? AS JSON)`
+      ).join(', ');
+      setClauses.push(`\`${key}\` = JSON_ARRAY_APPEND(COALESCE(\`${key}\`, JSON_ARRAY()), ${appends})`);
+      values.forEach(v => params.push(...(v === null ? [] : [JSON.stringify(v)]), JSON.stringify(v)));
+    }
+    
+    for (const [key, value] of Object.entries(parsed.pulls)) {
+      const values = toPullValues(value);
+      // Eşleşme NULL dönerse eleman korunur
+      setClauses.push(
+        `\`${key}\` = (SELECT COALESCE(JSON_ARRAYAGG(jt.v), JSON_ARRAY()) FROM ${this.arrayElements(key)} ` +
+        `WHERE NOT COALESCE(${values.map(v => this.arrayElementMatch(v)).join(' OR ')}, FALSE))`
+      );
+      params.push(...values.filter(v => v !== null).map(v => JSON.stringify(v)));
+    }
+  }
+
+  /**
+   * Dizi sütununun elemanları (jt.v)
+   */
+  private arrayElements(key: string): string {
+    return `JSON_TABLE(COALESCE(\`${key}\`, JSON_ARRAY()), '$[*]' COLUMNS (v JSON PATH '$')) AS jt`;
+  }
+
+  /**
+   * jt.v elemanının değere eşitliği (null dışında tek ? parametresi alır)
+   * JSON_CONTAINS kapsamayı kontrol eder ({a:1}, {a:1,b:2} içinde bulunur); JSON = tam eşitliktir
+   */
+  private arrayElementMatch(value: unknown): string {
+    return value === null ? `(jt.v IS NULL OR JSON_TYPE(jt.v) = 'NULL')` : 'jt.v = CAST(? AS JSON)';
+  }
+
+  /**
+   * MySQL backtick ile tırnaklar
+   */
+  protected quoteIdentifier(name: string): string {
+    return `\`${name}\``;
+  }
+
+  async bulkWrite(collection: string, operations: BulkWriteOperation[], options: BulkWriteOptions = {}): Promise<BulkWriteResult> {
+    return this.transaction(() => runBulkWrite(operations, options, {
+      columns: Object.keys(this.schemas.get(collection)?.definition ?? {}),
+      insertMany: docs => this.insertMany(collection, docs),
+      updateOne: (filter, update, options) => this.updateOne(collection, filter, update, options),
+      updateMany: (filter, update, options) => this.updateMany(collection, filter, update, options),
+      deleteOne: filter => this.deleteOne(collection, filter),
+      deleteMany: filter => this.deleteMany(collection, filter),
+      // SAVEPOINT prepared statement olarak çalıştırılamaz
+      exec: sql => this.session.getStore()!.query(sql)
+    }));
+  }
+
   /**
    * Schema'yı MySQL sütun tanımlarına çevir
    */
@@ -3,21 +3,37 @@
 // Node-postgres (pg) implementation
 // ============================================
 
-import { BaseAdapter } from './base';
+import { AsyncLocalStorage } from 'async_hooks';
+import { BaseAdapter, DEFAULT_BATCH_SIZE } from './base';
 import type {
   DatabaseCapabilities,
   QueryFilter,
   QueryOptions,
   UpdateFilter,
   UpdateResult,
+  UpdateOptions,
   DeleteResult,
-  ISchema
+  FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
+  ISchema,
+  PipelineStage,
+  ReadPreference,
+  ReplicationOptions,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult
 } from '../types';
-import { parseQueryFilter, toSQLWhere, toSQLUpdate } from '../utils/query-parser';
+import { ReplicaSet } from './replicas';
+import { runBulkWrite } from './bulk';
+import { parseQueryFilter, toSQLWhere, toSQLUpdate, toSQLSet, toUpsertDocument } from '../utils/query-parser';
+import { compileAggregation, normalizeAggregateRows } from '../utils/aggregate';
 import { generateId } from '../utils/id-generator';
 
 // PostgreSQL types
-import type { Pool } from 'pg';
+import type { Pool, PoolClient } from 'pg';
+
+// Bir sorgudaki en fazla bind parametresi
+const MAX_PARAMS = 65535;
 
 export class PostgreSQLAdapter extends BaseAdapter {
   name = 'postgres' as const;
@@ -31,27 +47,50 @@ export class PostgreSQLAdapter extends BaseAdapter {
   };
 
   private pool: Pool | null = null;
+  private replicas: ReplicaSet<Pool> | null = null;
   private schemas: Map<string, ISchema> = new Map();
+  // transaction() içindeki sorguların kullandığı bağlantı
+  private session = new AsyncLocalStorage<PoolClient>();
+
+  async connect(uri: string, options?: Record<string, unknown>, replication?: ReplicationOptions): Promise<void> {
+    // Bağlantı kurulamazsa açılmış tüm havuzlar kapatılır
+    const opened: Pool[] = [];
 
-  async connect(uri: string, options?: Record<string, unknown>): Promise<void> {
     try {
       const { Pool } = await import('pg');
       
-      this.pool = new Pool({
-        connectionString: uri,
-        ...options
-      });
-      
-      // Bağlantıyı test et
-      const client = await this.pool.connect();
-      client.release();
+      const createPool = async (connectionString: string) => {
+        const pool = new Pool({ connectionString, ...options });
+        opened.push(pool);
+        // Bağlantıyı test et
+        const client = await pool.connect();
+        client.release();
+        return pool;
+      };
+
+      this.pool = await createPool(uri);
+
+      if (replication?.replicas.length) {
+        // Bekleyen denemeler bitmeden havuzlar kapatılmasın diye hepsi beklenir
+        const results = await Promise.allSettled(replication.replicas.map(createPool));
+        const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed) throw failed.reason;
+        this.replicas = new ReplicaSet(results.map(result => (result as PromiseFulfilledResult<Pool>).value), replication.selection);
+      }
+
       this.connected = true;
     } catch (error) {
+      await Promise.allSettled(opened.map(pool => pool.end()));
+      this.pool = null;
       throw new Error(`PostgreSQL connection failed: ${(error as Error).message}`);
     }
   }
 
   async disconnect(): Promise<void> {
+    if (this.replicas) {
+      await Promise.all(this.replicas.pools.map(pool => pool.end()));
+      this.replicas = null;
+    }
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -61,10 +100,57 @@ export class PostgreSQLAdapter extends BaseAdapter {
 
   private async query<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
     this.ensureConnected();
-    const result = await this.pool!.query(sql, params);
+    const result = await (this.activeClient() ?? this.pool!).query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Sorguların gideceği bağlantı: adapter transaction'ı veya Transaction API'si
+   */
+  private activeClient(): PoolClient | undefined {
+    return this.session.getStore() ?? this.transactionClient<PoolClient>();
+  }
+
+  /**
+   * Okuma sorgusu: replica varsa oraya, read: 'primary' ise primary'ye gider
+   */
+  private async readQuery<T = any>(sql: string, params: unknown[] = [], read?: ReadPreference): Promise<T[]> {
+    if (!this.replicas || read === 'primary' || this.activeClient()) {
+      return this.query<T>(sql, params);
+    }
+
+    this.ensureConnected();
+    const result = await this.replicas.run(pool => pool.query(sql, params), this.pool!);
     return result.rows;
   }
 
+  /**
+   * fn içindeki tüm sorguları tek bağlantıda BEGIN/COMMIT arasında çalıştır
+   * Zaten transaction içindeyse mevcut bağlantı kullanılır
+   */
+  private async transaction<R>(fn: () => Promise<R>): Promise<R> {
+    if (this.session.getStore()) return fn();
+
+    // Transaction API'sinin sabitlediği bağlantıya katıl
+    const pinned = this.transactionClient<PoolClient>();
+    if (pinned) return this.session.run(pinned, fn);
+
+    this.ensureConnected();
+    const client = await this.pool!.connect();
+
+    try {
+      await client.query('BEGIN');
+      const result = await this.session.run(client, fn);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async createCollection(name: string, schema: ISchema): Promise<void> {
     this.ensureConnected();
     this.schemas.set(name, schema);
@@ -109,17 +195,70 @@ export class PostgreSQLAdapter extends BaseAdapter {
   }
 
   async insertMany(collection: string, docs: Record<string, unknown>[]): Promise<Record<string, unknown>[]> {
-    const results: Record<string, unknown>[] = [];
+    if (docs.length === 0) return [];
+
+    const docsWithIds = docs.map(doc => ({ _id: doc._id || generateId(), ...doc }));
+    const batches = this.toInsertBatches(docsWithIds, MAX_PARAMS);
+
+    // Çok satırlı INSERT; birden fazla parça varsa hepsi aynı transaction'da
+    const insert = async () => {
+      const results: Record<string, unknown>[] = [];
+      for (const { columns, rows } of batches) {
+        let index = 1;
+        const values = rows.map(row => `(${row.map(() => `$${index++}`).join(', ')})`);
+        const sql = `INSERT INTO "${collection}" (${columns.map(c => `"${c}"`).join(', ')}) VALUES ${values.join(', ')} RETURNING *`;
+        results.push(...await this.query(sql, rows.flat()));
+      }
+      return results;
+    };
+
+    return batches.length > 1 ? this.transaction(insert) : insert();
+  }
+
+  async find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]> {
+    const { sql, params } = this.buildFindQuery(collection, filter, options);
+    const rows = await this.readQuery(sql, params, options?.read);
     
-    for (const doc of docs) {
-      const result = await this.insertOne(collection, doc);
-      results.push(result);
+    const joins = options?.joins;
+    return joins?.length ? rows.map(row => this.unpackJoinedRow(row, joins)) : rows;
+  }
+
+  async *findCursor(collection: string, filter: QueryFilter, options?: QueryOptions): AsyncIterable<Record<string, unknown>> {
+    const { sql, params } = this.buildFindQuery(collection, filter, options);
+    const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+    const joins = options?.joins;
+
+    this.ensureConnected();
+    const { default: Cursor } = await import('pg-cursor');
+
+    // Transaction içindeyse cursor sabitlenmiş bağlantıda açılır ve bağlantı bırakılmaz
+    // Replica bağlantısı okuma sorgularıyla aynı failover yolundan alınır
+    const pinned = this.activeClient();
+    const client = pinned ?? await (this.replicas && options?.read !== 'primary'
+      ? this.replicas.run(pool => pool.connect(), this.pool!)
+      : this.pool!.connect());
+    const cursor = client.query(new Cursor<Record<string, unknown>>(sql, params));
+
+    try {
+      // Sonraki parça ancak önceki tüketildiğinde okunur
+      while (true) {
+        const rows = await cursor.read(batchSize);
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          yield joins?.length ? this.unpackJoinedRow(row, joins) : row;
+        }
+      }
+    } finally {
+      await cursor.close();
+      if (!pinned) client.release();
     }
-    
-    return results;
   }
 
-  async find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]> {
+  /**
+   * find ve findCursor için SELECT sorgusunu oluştur
+   */
+  private buildFindQuery(collection: string, filter: QueryFilter, options?: QueryOptions): { sql: string; params: unknown[] } {
     const conditions = parseQueryFilter(filter);
     const { where, params } = toSQLWhere(conditions, '$');
     
@@ -136,7 +275,11 @@ export class PostgreSQLAdapter extends BaseAdapter {
       sql += ` OFFSET ${options.skip}`;
     }
     
-    return this.query(sql, params);
+    if (options?.joins?.length) {
+      sql = this.wrapWithJoins(sql, options.joins, options.sort);
+    }
+    
+    return { sql, params };
   }
 
   async findOne(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown> | null> {
@@ -144,10 +287,12 @@ export class PostgreSQLAdapter extends BaseAdapter {
     return results[0] || null;
   }
 
-  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+    if (options?.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
     // Önce eşleşen bir kayıt bul
-    const existing = await this.findOne(collection, filter);
+    const existing = await this.findOne(collection, filter, { read: 'primary' });
     if (!existing) {
+      if (options?.upsert) return this.upsert(collection, filter, update);
       return {
         acknowledged: true,
         matchedCount: 0,
@@ -170,7 +315,8 @@ export class PostgreSQLAdapter extends BaseAdapter {
     };
   }
 
-  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+    if (options?.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
     const conditions = parseQueryFilter(filter);
     const { where, params: whereParams } = toSQLWhere(conditions, '$');
     
@@ -182,6 +328,7 @@ export class PostgreSQLAdapter extends BaseAdapter {
     const matchedCount = parseInt(countResult[0]?.count || '0', 10);
     
     if (matchedCount === 0) {
+      if (options?.upsert) return this.upsert(collection, filter, update);
       return {
         acknowledged: true,
         matchedCount: 0,
@@ -201,8 +348,50 @@ export class PostgreSQLAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * Eşleşme yoksa INSERT ... ON CONFLICT (hedef) DO UPDATE
+   * xmax = 0 satırın yeni eklendiğini gösterir
+   */
+  private async upsert(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+    const { sql, params, target, hasChanges } = this.upsertStatement(collection, filter, update);
+    const [row] = await this.query<{ _id: unknown; inserted: boolean }>(`${sql} RETURNING "_id", (xmax = 0) AS inserted`, params);
+
+    if (!row) throw this.upsertConflict(collection, target);
+    if (!row.inserted) {
+      return { acknowledged: true, matchedCount: 1, modifiedCount: hasChanges ? 1 : 0, upsertedCount: 0 };
+    }
+    return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: String(row._id) };
+  }
+
+  /**
+   * Upsert INSERT'i (RETURNING hariç)
+   * Arada eklenen satır güncellenir; çakışan satır filtreye uymuyorsa dokunulmaz ve satır dönmez
+   */
+  private upsertStatement(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter
+  ): { sql: string; params: unknown[]; target: string; hasChanges: boolean } {
+    const target = this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const doc: Record<string, unknown> = { _id: generateId(), ...toUpsertDocument(filter, update) };
+    const keys = Object.keys(doc);
+    const params = Object.values(doc);
+    const table = `"${collection}"`;
+
+    // Mevcut değer referansları tablo adıyla yazılır (EXCLUDED ile çakışmasın)
+    const { clauses, params: setParams } = toSQLSet(update, params.length + 1, '$', table);
+    const { where, params: whereParams } = toSQLWhere(parseQueryFilter(filter), '$', params.length + setParams.length + 1);
+    const set = clauses.length > 0 ? clauses.join(', ') : `"_id" = ${table}."_id"`;
+    const sql =
+      `INSERT INTO ${table} (${keys.map(k => `"${k}"`).join(', ')}) VALUES (${keys.map((_, i) => `$${i + 1}`).join(', ')})` +
+      ` ON CONFLICT ("${target}") DO UPDATE SET ${set} WHERE ${table}."_id" IN (SELECT "_id" FROM ${table} WHERE ${where})`;
+    params.push(...setParams, ...whereParams);
+
+    return { sql, params, target, hasChanges: clauses.length > 0 };
+  }
+
   async deleteOne(collection: string, filter: QueryFilter): Promise<DeleteResult> {
-    const existing = await this.findOne(collection, filter);
+    const existing = await this.findOne(collection, filter, { read: 'primary' });
     if (!existing) {
       return { acknowledged: true, deletedCount: 0 };
     }
@@ -227,11 +416,63 @@ export class PostgreSQLAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * Tek UPDATE: eşleşen satır alt sorguda FOR UPDATE ile kilitlenir
+   * RETURNING "old".* güncellemeden önceki, tablo.* sonraki hali verir
+   * Eşleşme yoksa upsert INSERT ... ON CONFLICT ... RETURNING ile yapılır
+   */
+  async findOneAndUpdate(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter,
+    options: FindOneAndUpdateOptions = {}
+  ): Promise<Record<string, unknown> | null> {
+    if (options.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const table = `"${collection}"`;
+    const { where, params: whereParams } = toSQLWhere(parseQueryFilter(filter), '$');
+    // Mevcut değer referansları tablo adıyla yazılır ("old" ile çakışmasın)
+    const { clauses, params: setParams } = toSQLSet(update, whereParams.length + 1, '$', table);
+    const set = clauses.length > 0 ? clauses.join(', ') : `"_id" = ${table}."_id"`;
+    const orderBy = options.sort ? ` ${this.sortToOrderBy(options.sort)}` : '';
+
+    const sql =
+      `WITH updated AS (UPDATE ${table} SET ${set} ` +
+      `FROM (SELECT * FROM ${table} WHERE ${where}${orderBy} LIMIT 1 FOR UPDATE) AS "old" ` +
+      `WHERE ${table}."_id" = "old"."_id" RETURNING ${options.new ? table : '"old"'}.*) ` +
+      `SELECT ${this.selectToColumns(options.projection)} FROM updated`;
+    const [row] = await this.query(sql, [...whereParams, ...setParams]);
+
+    if (!row && options.upsert) {
+      if (!options.new) {
+        await this.upsert(collection, filter, update);
+        return null;
+      }
+      // Arada eklenen satır ON CONFLICT ile güncellenir, sonuç aynı ifadede döner
+      const { sql: upsertSql, params: upsertParams, target } = this.upsertStatement(collection, filter, update);
+      const [upserted] = await this.query(`${upsertSql} RETURNING ${this.selectToColumns(options.projection)}`, upsertParams);
+      if (!upserted) throw this.upsertConflict(collection, target);
+      return upserted;
+    }
+    return row ?? null;
+  }
+
+  async findOneAndDelete(collection: string, filter: QueryFilter, options: FindOneAndDeleteOptions = {}): Promise<Record<string, unknown> | null> {
+    const { where, params } = toSQLWhere(parseQueryFilter(filter), '$');
+    const orderBy = options.sort ? ` ${this.sortToOrderBy(options.sort)}` : '';
+
+    const sql =
+      `DELETE FROM "${collection}" WHERE "_id" = ` +
+      `(SELECT "_id" FROM "${collection}" WHERE ${where}${orderBy} LIMIT 1 FOR UPDATE) ` +
+      `RETURNING ${this.selectToColumns(options.projection)}`;
+    const [row] = await this.query(sql, params);
+    return row ?? null;
+  }
+
   async countDocuments(collection: string, filter: QueryFilter): Promise<number> {
     const conditions = parseQueryFilter(filter);
     const { where, params } = toSQLWhere(conditions, '$');
     
-    const result = await this.query<{ count: string }>(
+    const result = await this.readQuery<{ count: string }>(
       `SELECT COUNT(*) as count FROM "${collection}" WHERE ${where}`,
       params
     );
@@ -239,6 +480,29 @@ export class PostgreSQLAdapter extends BaseAdapter {
     return parseInt(result[0]?.count || '0', 10);
   }
 
+  async aggregate(collection: string, pipeline: PipelineStage[]): Promise<Record<string, unknown>[]> {
+    const compiled = compileAggregation(collection, pipeline, {
+      provider: 'postgres',
+      quote: name => this.quoteIdentifier(name),
+      paramPrefix: '$'
+    });
+
+    const rows = await this.query<Record<string, unknown>>(compiled.sql, compiled.params);
+    return normalizeAggregateRows(rows, compiled);
+  }
+
+  async bulkWrite(collection: string, operations: BulkWriteOperation[], options: BulkWriteOptions = {}): Promise<BulkWriteResult> {
+    return this.transaction(() => runBulkWrite(operations, options, {
+      columns: Object.keys(this.schemas.get(collection)?.definition ?? {}),
+      insertMany: docs => this.insertMany(collection, docs),
+      updateOne: (filter, update, options) => this.updateOne(collection, filter, update, options),
+      updateMany: (filter, update, options) => this.updateMany(collection, filter, update, options),
+      deleteOne: filter => this.deleteOne(collection, filter),
+      deleteMany: filter => this.deleteMany(collection, filter),
+      exec: sql => this.query(sql)
+    }));
+  }
+
   /**
    * Schema'yı PostgreSQL sütun tanımlarına çevir
    */
@@ -0,0 +1,132 @@
+// ============================================
+// SDBC - Read Replicas
+// Replica pool selection for SQL adapters
+// ============================================
+
+import type { ReplicaSelection } from '../types';
+
+// Gecikme ortalamasında son ölçümün ağırlığı
+const LATENCY_WEIGHT = 0.3;
+
+// Bağlantı hatası veren replica bu süre boyunca seçilmez
+const RETRY_AFTER_MS = 30_000;
+
+// Sunucuya ulaşılamadığını gösteren hata kodları (node, pg, mysql2)
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENOTFOUND', 'EPIPE',
+  'PROTOCOL_CONNECTION_LOST', 'ER_ACCESS_DENIED_ERROR', 'ER_CON_COUNT_ERROR',
+  '28000', '28P01', '57P01', '57P03'
+]);
+
+/**
+ * Hata replica'nın kendisinden mi (bağlantı/kimlik doğrulama) yoksa sorgudan mı
+ * Sorgu hataları (sözdizimi, kısıt) diğer replica'larda da aynı sonucu verir
+ */
+export function isReplicaFailure(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  if (typeof code === 'string' && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08'))) {
+    return true;
+  }
+  return typeof message === 'string' && /connection terminated|timeout exceeded when trying to connect/i.test(message);
+}
+
+/**
+ * Okuma sorguları için replica pool'larını yönetir
+ * round-robin: sırayla dağıtır, least-latency: ortalama gecikmesi en düşük olanı seçer
+ * Bağlantı hatası veren replica RETRY_AFTER_MS boyunca atlanır
+ */
+export class ReplicaSet<P> {
+  private next = 0;
+  private latencies: number[];
+  private failedAt: number[];
+
+  constructor(
+    readonly pools: P[],
+    private selection: ReplicaSelection = 'round-robin'
+  ) {
+    this.latencies = pools.map(() => 0);
+    this.failedAt = pools.map(() => 0);
+  }
+
+  get size(): number {
+    return this.pools.length;
+  }
+
+  /**
+   * Sıradaki replica'nın index'i
+   * Henüz ölçülmemiş replica'nın gecikmesi 0 sayılır, böylece her biri en az bir kez denenir
+   * Sağlıklı replica kalmadıysa hatalı olanlar da aday olur
+   */
+  pick(exclude: ReadonlySet<number> = new Set()): number {
+    const candidates = this.pools.map((_, index) => index).filter(index => !exclude.has(index));
+    const healthy = candidates.filter(index => this.isHealthy(index));
+    const pool = healthy.length > 0 ? healthy : candidates;
+
+    if (this.selection === 'least-latency') {
+      return pool.reduce((best, index) => (this.latencies[index] < this.latencies[best] ? index : best));
+    }
+
+    for (let i = 0; i < this.pools.length; i++) {
+      const index = (this.next + i) % this.pools.length;
+      if (pool.includes(index)) {
+        this.next = (index + 1) % this.pools.length;
+        return index;
+      }
+    }
+    return pool[0];
+  }
+
+  /**
+   * Sorgu süresini kaydet (üstel hareketli ortalama)
+   */
+  record(index: number, ms: number): void {
+    const current = this.latencies[index];
+    this.latencies[index] = current === 0 ? ms : current + (ms - current) * LATENCY_WEIGHT;
+    this.failedAt[index] = 0;
+  }
+
+  /**
+   * Bağlantı hatasını kaydet: replica bir süre atlanır, sonra gecikmesi yeniden ölçülür
+   */
+  fail(index: number): void {
+    this.failedAt[index] = Date.now();
+    this.latencies[index] = 0;
+  }
+
+  private isHealthy(index: number): boolean {
+    return this.failedAt[index] === 0 || Date.now() - this.failedAt[index] >= RETRY_AFTER_MS;
+  }
+
+  /**
+   * Seçilen replica üzerinde çalıştır ve süresini ölç
+   * Bağlantı hatasında sıradaki replica, hepsi başarısızsa primary denenir
+   */
+  async run<T>(fn: (pool: P) => Promise<T>, primary?: P): Promise<T> {
+    const tried = new Set<number>();
+    let lastError: unknown;
+
+    while (tried.size < this.pools.length) {
+      const index = this.pick(tried);
+      tried.add(index);
+      const started = performance.now();
+
+      try {
+        const result = await fn(this.pools[index]);
+        this.record(index, performance.now() - started);
+        return result;
+      } catch (error) {
+        if (!isReplicaFailure(error)) {
+          this.record(index, performance.now() - started);
+          throw error;
+        }
+        this.fail(index);
+        lastError = error;
+      }
+    }
+
+    if (primary !== undefined) {
+      return fn(primary);
+    }
+    throw lastError;
+  }
+}
@@ -10,15 +10,38 @@ import type {
   QueryOptions,
   UpdateFilter,
   UpdateResult,
+  UpdateOptions,
   DeleteResult,
-  ISchema
+  FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
+  ISchema,
+  PipelineStage,
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult
 } from '../types';
-import { parseQueryFilter, toSQLWhere, parseUpdateFilter } from '../utils/query-parser';
+import { runBulkWrite } from './bulk';
+import { Transaction } from '../Transaction';
+import {
+  parseQueryFilter,
+  toSQLWhere,
+  parseUpdateFilter,
+  toArrayValues,
+  toPullValues,
+  uniqueArrayValues,
+  splitNestedSets,
+  toJSONPath,
+  toUpsertDocument
+} from '../utils/query-parser';
+import { compileAggregation, normalizeAggregateRows } from '../utils/aggregate';
 import { generateId } from '../utils/id-generator';
 
 // SQLite types
 type Database = import('better-sqlite3').Database;
 
+// SQLITE_MAX_VARIABLE_NUMBER varsayılanı
+const MAX_PARAMS = 32766;
+
 export class SQLiteAdapter extends BaseAdapter {
   name = 'sqlite' as const;
   capabilities: DatabaseCapabilities = {
@@ -32,6 +55,8 @@ export class SQLiteAdapter extends BaseAdapter {
 
   private db: Database | null = null;
   private schemas: Map<string, ISchema> = new Map();
+  // transaction() çağrıları sırayla çalışır (tek bağlantı, aynı anda tek BEGIN)
+  private queue: Promise<unknown> = Promise.resolve();
 
   async connect(uri: string, options?: Record<string, unknown>): Promise<void> {
     try {
@@ -57,19 +82,32 @@ export class SQLiteAdapter extends BaseAdapter {
 
   private run(sql: string, params: unknown[] = []): any {
     this.ensureConnected();
+    this.ensureTransactionUsable();
     return this.db!.prepare(sql).run(...params);
   }
 
   private all<T = any>(sql: string, params: unknown[] = []): T[] {
     this.ensureConnected();
+    this.ensureTransactionUsable();
     return this.db!.prepare(sql).all(...params) as T[];
   }
 
   private get<T = any>(sql: string, params: unknown[] = []): T | undefined {
     this.ensureConnected();
+    this.ensureTransactionUsable();
     return this.db!.prepare(sql).get(...params) as T | undefined;
   }
 
+  /**
+   * Ham SQL çalıştır (Transaction API'si BEGIN/COMMIT/ROLLBACK için kullanır)
+   * Satır döndüren sorgularda satırlar, diğerlerinde run() sonucu döner
+   */
+  async query(sql: string, params: unknown[] = []): Promise<any> {
+    this.ensureConnected();
+    const statement = this.db!.prepare(sql);
+    return statement.reader ? statement.all(...params) : statement.run(...params);
+  }
+
   async createCollection(name: string, schema: ISchema): Promise<void> {
     this.ensureConnected();
     this.schemas.set(name, schema);
@@ -117,31 +155,57 @@ export class SQLiteAdapter extends BaseAdapter {
   }
 
   async insertMany(collection: string, docs: Record<string, unknown>[]): Promise<Record<string, unknown>[]> {
-    const results: Record<string, unknown>[] = [];
-    
-    // Transaction kullan
-    const insertMany = this.db!.transaction((docs: Record<string, unknown>[]) => {
-      for (const doc of docs) {
-        const docWithId = {
-          _id: doc._id || generateId(),
-          ...doc
-        };
-        
-        const keys = Object.keys(docWithId);
-        const values = Object.values(docWithId).map(v => this.serializeValue(v));
-        const placeholders = keys.map(() => '?');
-        
-        const sql = `INSERT INTO "${collection}" (${keys.map(k => `"${k}"`).join(', ')}) VALUES (${placeholders.join(', ')})`;
-        this.run(sql, values);
-        results.push(docWithId);
+    if (docs.length === 0) return [];
+    this.ensureConnected();
+
+    const docsWithIds = docs.map(doc => ({ _id: doc._id || generateId(), ...doc }));
+    
+    // Çok satırlı INSERT, parçalar tek transaction'da
+    const insertMany = this.db!.transaction(() => {
+      for (const { columns, rows } of this.toInsertBatches(docsWithIds, MAX_PARAMS)) {
+        const values = rows.map(row => `(${row.map(() => '?').join(', ')})`);
+        const sql = `INSERT INTO "${collection}" (${columns.map(c => `"${c}"`).join(', ')}) VALUES ${values.join(', ')}`;
+        this.run(sql, rows.flat().map(v => this.serializeValue(v)));
       }
     });
     
-    insertMany(docs);
-    return results;
+    insertMany();
+    return docsWithIds;
   }
 
   async find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]> {
+    const { sql, params } = this.buildFindQuery(collection, filter, options);
+    const rows = this.all(sql, params);
+    
+    const joins = options?.joins;
+    return rows.map(row => (joins?.length ? this.unpackJoinedRow(this.deserializeRow(row), joins) : this.deserializeRow(row)));
+  }
+
+  /**
+   * better-sqlite3 iterate() ile satır satır okur
+   * Not: cursor açıkken aynı bağlantıda yazma yapılamaz (okuma yapılabilir)
+   */
+  async *findCursor(collection: string, filter: QueryFilter, options?: QueryOptions): AsyncIterable<Record<string, unknown>> {
+    const { sql, params } = this.buildFindQuery(collection, filter, options);
+    const joins = options?.joins;
+
+    this.ensureConnected();
+    const rows = this.db!.prepare(sql).iterate(...params) as IterableIterator<Record<string, unknown>>;
+
+    try {
+      for (const row of rows) {
+        const parsed = this.deserializeRow(row);
+        yield joins?.length ? this.unpackJoinedRow(parsed, joins) : parsed;
+      }
+    } finally {
+      rows.return?.();
+    }
+  }
+
+  /**
+   * find ve findCursor için SELECT sorgusunu oluştur
+   */
+  private buildFindQuery(collection: string, filter: QueryFilter, options?: QueryOptions): { sql: string; params: unknown[] } {
     const conditions = parseQueryFilter(filter);
     const { where, params } = this.toSQLiteWhere(conditions);
     
@@ -158,8 +222,11 @@ export class SQLiteAdapter extends BaseAdapter {
       sql += ` OFFSET ${options.skip}`;
     }
     
-    const rows = this.all(sql, params);
-    return rows.map(row => this.deserializeRow(row));
+    if (options?.joins?.length) {
+      sql = this.wrapWithJoins(sql, options.joins, options.sort);
+    }
+    
+    return { sql, params };
   }
 
   async findOne(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown> | null> {
@@ -167,9 +234,11 @@ export class SQLiteAdapter extends BaseAdapter {
     return results[0] || null;
   }
 
-  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateOne(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+    if (options?.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
     const existing = await this.findOne(collection, filter);
     if (!existing) {
+      if (options?.upsert) return this.upsert(collection, filter, update);
       return {
         acknowledged: true,
         matchedCount: 0,
@@ -178,25 +247,9 @@ export class SQLiteAdapter extends BaseAdapter {
       };
     }
     
-    const parsed = parseUpdateFilter(update);
-    const setClauses: string[] = [];
-    const params: unknown[] = [];
-    
-    for (const [key, value] of Object.entries(parsed.sets)) {
-      setClauses.push(`"${key}" = ?`);
-      params.push(this.serializeValue(value));
-    }
-    
-    for (const [key, amount] of Object.entries(parsed.increments)) {
-      setClauses.push(`"${key}" = "${key}" + ?`);
-      params.push(amount);
-    }
-    
-    for (const key of parsed.unsets) {
-      setClauses.push(`"${key}" = NULL`);
-    }
+    const { clauses, params } = this.buildSetClauses(update);
     
-    if (setClauses.length === 0) {
+    if (clauses.length === 0) {
       return {
         acknowledged: true,
         matchedCount: 1,
@@ -206,7 +259,7 @@ export class SQLiteAdapter extends BaseAdapter {
     }
     
     params.push(existing._id);
-    const sql = `UPDATE "${collection}" SET ${setClauses.join(', ')} WHERE "_id" = ?`;
+    const sql = `UPDATE "${collection}" SET ${clauses.join(', ')} WHERE "_id" = ?`;
     const result = this.run(sql, params);
     
     return {
@@ -217,29 +270,18 @@ export class SQLiteAdapter extends BaseAdapter {
     };
   }
 
-  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult> {
+  async updateMany(collection: string, filter: QueryFilter, update: UpdateFilter, options?: UpdateOptions): Promise<UpdateResult> {
+    if (options?.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
     const conditions = parseQueryFilter(filter);
     const { where, params: whereParams } = this.toSQLiteWhere(conditions);
     
-    const parsed = parseUpdateFilter(update);
-    const setClauses: string[] = [];
-    const params: unknown[] = [];
-    
-    for (const [key, value] of Object.entries(parsed.sets)) {
-      setClauses.push(`"${key}" = ?`);
-      params.push(this.serializeValue(value));
-    }
-    
-    for (const [key, amount] of Object.entries(parsed.increments)) {
-      setClauses.push(`"${key}" = "${key}" + ?`);
-      params.push(amount);
-    }
-    
-    for (const key of parsed.unsets) {
-      setClauses.push(`"${key}" = NULL`);
-    }
+    const { clauses, params } = this.buildSetClauses(update);
     
-    if (setClauses.length === 0) {
+    if (clauses.length === 0) {
+      // Sadece $setOnInsert verilmiş olabilir
+      if (options?.upsert && await this.countDocuments(collection, filter) === 0) {
+        return this.upsert(collection, filter, update);
+      }
       return {
         acknowledged: true,
         matchedCount: 0,
@@ -248,9 +290,13 @@ export class SQLiteAdapter extends BaseAdapter {
       };
     }
     
-    const sql = `UPDATE "${collection}" SET ${setClauses.join(', ')} WHERE ${where}`;
+    const sql = `UPDATE "${collection}" SET ${clauses.join(', ')} WHERE ${where}`;
     const result = this.run(sql, [...params, ...whereParams]);
     
+    if (result.changes === 0 && options?.upsert) {
+      return this.upsert(collection, filter, update);
+    }
+    
     return {
       acknowledged: true,
       matchedCount: result.changes,
@@ -259,6 +305,83 @@ export class SQLiteAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * Update operatörlerini SET ifadelerine çevir
+   */
+  private buildSetClauses(update: UpdateFilter): { clauses: string[]; params: unknown[] } {
+    const parsed = parseUpdateFilter(update);
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    
+    const { sets, nested } = splitNestedSets(parsed.sets);
+    
+    for (const [key, value] of Object.entries(sets)) {
+      clauses.push(`"${key}" = ?`);
+      params.push(this.serializeValue(value));
+    }
+    
+    // Nokta notasyonlu alanlar JSON sütunu içinde güncellenir
+    for (const [column, entries] of Object.entries(nested)) {
+      const pairs = entries.map(() => '?, json(?)').join(', ');
+      clauses.push(`"${column}" = json_set(COALESCE("${column}", '{}'), ${pairs})`);
+      entries.forEach(({ path, value }) => params.push(toJSONPath(path), JSON.stringify(value)));
+    }
+    
+    for (const [key, amount] of Object.entries(parsed.increments)) {
+      clauses.push(`"${key}" = "${key}" + ?`);
+      params.push(amount);
+    }
+    
+    for (const key of parsed.unsets) {
+      clauses.push(`"${key}" = NULL`);
+    }
+    
+    this.buildArrayUpdates(parsed, clauses, params);
+    
+    return { clauses, params };
+  }
+
+  /**
+   * Eşleşme yoksa INSERT ... ON CONFLICT(hedef) DO UPDATE
+   * Sürücü senkron olduğu için ön kontrol ile INSERT arasına başka yazma giremez
+   */
+  private upsert(collection: string, filter: QueryFilter, update: UpdateFilter): UpdateResult {
+    const { sql, params, id, target, existing, hasChanges } = this.upsertStatement(collection, filter, update);
+    const { changes } = this.run(sql, params);
+
+    if (!existing) {
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: String(id) };
+    }
+    // Çakışan satır filtreye uymuyorsa changes 0 olur
+    if (changes === 0) throw this.upsertConflict(collection, target);
+    return { acknowledged: true, matchedCount: changes, modifiedCount: hasChanges ? changes : 0, upsertedCount: 0 };
+  }
+
+  /**
+   * Upsert INSERT'i (RETURNING hariç) ve çakışma hedefinde satır olup olmadığı
+   */
+  private upsertStatement(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter
+  ): { sql: string; params: unknown[]; id: unknown; target: string; existing: boolean; hasChanges: boolean } {
+    const target = this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const doc: Record<string, unknown> = { _id: generateId(), ...toUpsertDocument(filter, update) };
+    const keys = Object.keys(doc);
+    const params = Object.values(doc).map(v => this.serializeValue(v));
+
+    const { clauses, params: setParams } = this.buildSetClauses(update);
+    const { where, params: whereParams } = this.toSQLiteWhere(parseQueryFilter(filter));
+    const set = clauses.length > 0 ? clauses.join(', ') : '"_id" = "_id"';
+    const sql =
+      `INSERT INTO "${collection}" (${keys.map(k => `"${k}"`).join(', ')}) VALUES (${keys.map(() => '?').join(', ')})` +
+      ` ON CONFLICT("${target}") DO UPDATE SET ${set} WHERE ${where}`;
+    const existing = this.get(`SELECT 1 FROM "${collection}" WHERE "${target}" = ?`, [params[keys.indexOf(target)]]) !== undefined;
+    params.push(...setParams, ...whereParams);
+
+    return { sql, params, id: doc._id, target, existing, hasChanges: clauses.length > 0 };
+  }
+
   async deleteOne(collection: string, filter: QueryFilter): Promise<DeleteResult> {
     const existing = await this.findOne(collection, filter);
     if (!existing) {
@@ -282,6 +405,58 @@ export class SQLiteAdapter extends BaseAdapter {
     };
   }
 
+  /**
+   * Seçim, güncelleme ve upsert tek yazma transaction'ında (BEGIN IMMEDIATE) çalışır
+   * new: true ise güncellenmiş satır UPDATE/INSERT ... RETURNING ile okunur
+   */
+  async findOneAndUpdate(
+    collection: string,
+    filter: QueryFilter,
+    update: UpdateFilter,
+    options: FindOneAndUpdateOptions = {}
+  ): Promise<Record<string, unknown> | null> {
+    if (options.upsert) this.upsertTarget(collection, this.schemas.get(collection), filter);
+    const { where, params: whereParams } = this.toSQLiteWhere(parseQueryFilter(filter));
+    const { clauses, params } = this.buildSetClauses(update);
+    const set = clauses.length > 0 ? clauses.join(', ') : '"_id" = "_id"';
+    const orderBy = options.sort ? ` ${this.sortToOrderBy(options.sort)}` : '';
+    const columns = this.selectToColumns(options.projection);
+
+    this.ensureConnected();
+    const findAndUpdate = this.db!.transaction(() => {
+      const target = this.get<{ _id: unknown }>(`SELECT "_id" FROM "${collection}" WHERE ${where}${orderBy} LIMIT 1`, whereParams);
+      if (!target) {
+        if (!options.upsert) return undefined;
+        // Eşleşme yoktu; çakışan satır filtreye uymadığından önceki doküman her zaman null
+        const { sql, params: upsertParams, target } = this.upsertStatement(collection, filter, update);
+        const upserted = this.get(`${sql} RETURNING ${columns}`, upsertParams);
+        if (!upserted) throw this.upsertConflict(collection, target);
+        return options.new ? upserted : undefined;
+      }
+
+      const previous = options.new
+        ? undefined
+        : this.get(`SELECT ${columns} FROM "${collection}" WHERE "_id" = ?`, [target._id]);
+      const updated = this.get(`UPDATE "${collection}" SET ${set} WHERE "_id" = ? RETURNING ${columns}`, [...params, target._id]);
+      return options.new ? updated : previous;
+    });
+
+    const row = findAndUpdate.immediate();
+    return row ? this.deserializeRow(row) : null;
+  }
+
+  async findOneAndDelete(collection: string, filter: QueryFilter, options: FindOneAndDeleteOptions = {}): Promise<Record<string, unknown> | null> {
+    const { where, params } = this.toSQLiteWhere(parseQueryFilter(filter));
+    const orderBy = options.sort ? ` ${this.sortToOrderBy(options.sort)}` : '';
+
+    const row = this.get(
+      `DELETE FROM "${collection}" WHERE "_id" = (SELECT "_id" FROM "${collection}" WHERE ${where}${orderBy} LIMIT 1) ` +
+      `RETURNING ${this.selectToColumns(options.projection)}`,
+      params
+    );
+    return row ? this.deserializeRow(row) : null;
+  }
+
   async countDocuments(collection: string, filter: QueryFilter): Promise<number> {
     const conditions = parseQueryFilter(filter);
     const { where, params } = this.toSQLiteWhere(conditions);
@@ -294,15 +469,112 @@ export class SQLiteAdapter extends BaseAdapter {
     return result?.count || 0;
   }
 
+  async aggregate(collection: string, pipeline: PipelineStage[]): Promise<Record<string, unknown>[]> {
+    const compiled = compileAggregation(collection, pipeline, {
+      provider: 'sqlite',
+      quote: name => this.quoteIdentifier(name),
+      paramPrefix: '?',
+      unboundedLimit: '-1'
+    });
+
+    const rows = this.all<Record<string, unknown>>(compiled.sql, compiled.params);
+    return normalizeAggregateRows(rows.map(row => this.deserializeRow(row)), compiled);
+  }
+
+  async bulkWrite(collection: string, operations: BulkWriteOperation[], options: BulkWriteOptions = {}): Promise<BulkWriteResult> {
+    return this.transaction(() => runBulkWrite(operations, options, {
+      columns: Object.keys(this.schemas.get(collection)?.definition ?? {}),
+      insertMany: docs => this.insertMany(collection, docs),
+      updateOne: (filter, update, options) => this.updateOne(collection, filter, update, options),
+      updateMany: (filter, update, options) => this.updateMany(collection, filter, update, options),
+      deleteOne: filter => this.deleteOne(collection, filter),
+      deleteMany: filter => this.deleteMany(collection, filter),
+      exec: async sql => this.run(sql)
+    }));
+  }
+
+  /**
+   * fn'i BEGIN/COMMIT arasında çalıştır
+   * Sadece çağıranın Transaction'ı açıksa ona katılır; eşzamanlı çağrılar sıraya girer,
+   * böylece ilgisiz bir çağrının BEGIN'i (ve savepoint'leri) paylaşılmaz
+   */
+  private async transaction<R>(fn: () => Promise<R>): Promise<R> {
+    this.ensureConnected();
+    if (Transaction.current(this)) return fn();
+
+    const result = this.queue.then(async () => {
+      this.run('BEGIN');
+      try {
+        const value = await fn();
+        this.run('COMMIT');
+        return value;
+      } catch (error) {
+        this.run('ROLLBACK');
+        throw error;
+      }
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * $push, $addToSet ve $pull için JSON dizi güncellemeleri oluştur
+   */
+  private buildArrayUpdates(
+    parsed: ReturnType<typeof parseUpdateFilter>,
+    setClauses: string[],
+    params: unknown[]
+  ): void {
+    for (const [key, value] of Object.entries(parsed.pushes)) {
+      const values = toArrayValues(value);
+      const inserts = values.map(() => `'$[#]', json(?)`).join(', ');
+      setClauses.push(`"${key}" = json_insert(COALESCE("${key}", '[]'), ${inserts})`);
+      params.push(...values.map(v => JSON.stringify(v)));
+    }
+    
+    for (const [key, value] of Object.entries(parsed.addToSets)) {
+      const values = uniqueArrayValues(toArrayValues(value));
+      // Eleman zaten varsa '$[0]' yolu kullanılır; json_insert mevcut elemanın üzerine yazmaz
+      const inserts = values.map(v =>
+        `CASE WHEN EXISTS (SELECT 1 FROM json_each("${key}") WHERE ${this.arrayElementMatch(v)}) THEN '$[0]' ELSE '$[#]' END, json(?)`
+      ).join(', ');
+      setClauses.push(`"${key}" = json_insert(COALESCE("${key}", '[]'), ${inserts})`);
+      values.forEach(v => params.push(this.arrayElementParam(v), JSON.stringify(v)));
+    }
+    
+    for (const [key, value] of Object.entries(parsed.pulls)) {
+      const values = toPullValues(value);
+      // json_each değerleri SQL tipinde döner, obje/boolean elemanlar tekrar JSON'a çevrilir
+      const element = `CASE WHEN type IN ('object', 'array') THEN json(value) WHEN type = 'true' THEN json('true') WHEN type = 'false' THEN json('false') ELSE value END`;
+      setClauses.push(
+        `"${key}" = (SELECT json_group_array(${element}) FROM json_each(COALESCE("${key}", '[]')) ` +
+        `WHERE NOT (${values.map(v => this.arrayElementMatch(v)).join(' OR ')}))`
+      );
+      params.push(...values.map(v => this.arrayElementParam(v)));
+    }
+  }
+
+  /**
+   * json_each elemanının değere eşitliği (tek ? parametresi alır)
+   * IS ile null değer JSON null elemanlarla eşleşir; obje/dizi değerler sadece obje/dizi elemanlarla eşleşir
+   */
+  private arrayElementMatch(value: unknown): string {
+    return isJSONContainer(value) ? `(type IN ('object', 'array') AND value = json(?))` : 'value IS ?';
+  }
+
+  private arrayElementParam(value: unknown): unknown {
+    return isJSONContainer(value) ? JSON.stringify(value) : this.serializeValue(value);
+  }
+
   /**
    * SQLite için WHERE clause oluştur (? placeholder kullanır)
    */
   private toSQLiteWhere(conditions: any[]): { where: string; params: unknown[] } {
-    const result = toSQLWhere(conditions, '?');
-    // SQLite ? placeholder kullanır
+    const result = toSQLWhere(conditions, '?', 1, 'sqlite');
+    // SQLite ? placeholder kullanır; Date ve boolean değerler bind edilemez
     return {
       where: result.where.replace(/\?\d+/g, '?'),
-      params: result.params
+      params: result.params.map(v => this.serializeValue(v))
     };
   }
 
@@ -415,3 +687,10 @@ export class SQLiteAdapter extends BaseAdapter {
     return result;
   }
 }
+
+/**
+ * JSON'da obje veya dizi olarak saklanan değer mi
+ */
+function isJSONContainer(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !(value instanceof Date);
+}
@@ -6,6 +6,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { connect, disconnect, connectionManager } from './connection';
+import { MigrationManager, loadMigrations, loadModels, hasDrift, diffModels, renderMigration, type MigrationOptions, type MigrationResult, type TableDiff } from './migration';
+import type { BaseAdapter } from './adapters/base';
+import type { DatabaseProvider } from './types';
 
 // ============================================
 // Configuration
@@ -84,6 +88,48 @@ function ensureDir(dir: string): void {
   }
 }
 
+/**
+ * Connect with the configured database for the duration of the callback
+ */
+async function withConnection<T>(config: CLIConfig, callback: (adapter: BaseAdapter) => Promise<T>): Promise<T> {
+  await connect({
+    provider: config.database.provider as DatabaseProvider,
+    uri: config.database.url
+  });
+
+  try {
+    return await callback(connectionManager.getAdapter() as BaseAdapter);
+  } finally {
+    await disconnect();
+  }
+}
+
+/**
+ * Load every migration file and hand a connected manager to the callback
+ */
+async function withMigrationManager<T>(
+  config: CLIConfig,
+  callback: (manager: MigrationManager) => Promise<T>,
+  options: MigrationOptions = {}
+): Promise<T> {
+  const migrations = await loadMigrations(config.migrationsDir);
+
+  return withConnection(config, adapter => {
+    const manager = new MigrationManager(adapter, options);
+    manager.addMigrations(migrations);
+    return callback(manager);
+  });
+}
+
+/**
+ * Throw when the manager reported a failure so the process exits non-zero
+ */
+function assertSucceeded(result: MigrationResult): void {
+  if (!result.success) {
+    throw new Error(result.error || 'Migration failed');
+  }
+}
+
 function formatTimestamp(): string {
   const now = new Date();
   return now.toISOString().replace(/[-:T]/g, '').slice(0, 14);
@@ -127,10 +173,15 @@ async function init(): Promise<void> {
   log('   3. Run: npx sdbc migrate\n');
 }
 
-async function generateMigration(name: string): Promise<void> {
+async function generateMigration(name: string, fromModels: boolean): Promise<void> {
   if (!name) {
     error('Migration name is required');
-    log('Usage: sdbc generate:migration <name>');
+    log('Usage: sdbc generate:migration <name> [--from-models]');
+    return;
+  }
+  
+  if (fromModels) {
+    await generateMigrationFromModels(name);
     return;
   }
   
@@ -150,7 +201,7 @@ export const name = '${timestamp}_${name}';
 
 export async function up(schema: SchemaBuilder): Promise<void> {
   // Create your table
-  schema.createTable('${name}', (table) => {
+  await schema.createTable('${name}', (table) => {
     table.increments('id').primary();
     table.string('name').notNull();
     table.timestamps();
@@ -159,7 +210,7 @@ export async function up(schema: SchemaBuilder): Promise<void> {
 
 export async function down(schema: SchemaBuilder): Promise<void> {
   // Drop your table
-  schema.dropTable('${name}');
+  await schema.dropTable('${name}');
 }
 `;
   
@@ -168,6 +219,59 @@ export async function down(schema: SchemaBuilder): Promise<void> {
   log(`   Path: ${filePath}`);
 }
 
+async function generateMigrationFromModels(name: string): Promise<void> {
+  log('\n🔍 SDBC - Diffing Models Against Database\n', 'cyan');
+  
+  const config = loadConfig();
+  
+  if (!fs.existsSync(config.modelsDir)) {
+    warn('No models directory found');
+    return;
+  }
+  
+  const models = await loadModels(config.modelsDir);
+  
+  if (models.length === 0) {
+    warn(`No models exported from ${config.modelsDir}`);
+    return;
+  }
+  
+  const diffs = await withConnection(config, adapter => diffModels(adapter, models));
+  
+  if (diffs.length === 0) {
+    info('No schema changes detected');
+    return;
+  }
+  
+  for (const diff of diffs) {
+    info(`${diff.table}: ${diff.create ? 'new table' : describeDiff(diff)}`);
+  }
+  
+  ensureDir(config.migrationsDir);
+  
+  const timestamp = formatTimestamp();
+  const fileName = `${timestamp}_${name}.ts`;
+  const filePath = path.join(config.migrationsDir, fileName);
+  
+  fs.writeFileSync(filePath, renderMigration(`${timestamp}_${name}`, diffs));
+  log('');
+  success(`Created migration: ${fileName}`);
+  log(`   Path: ${filePath}`);
+  warn('Review detected renames and NOT NULL columns before running it');
+}
+
+function describeDiff(diff: TableDiff): string {
+  const parts = [
+    [diff.added.length, 'added'],
+    [diff.dropped.length, 'dropped'],
+    [diff.changed.length, 'changed'],
+    [diff.renamed.length, 'renamed'],
+    [diff.addedIndexes.length + diff.droppedIndexes.length, 'index change(s)']
+  ] as const;
+  
+  return parts.filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}`).join(', ');
+}
+
 async function generateModel(name: string): Promise<void> {
   if (!name) {
     error('Model name is required');
@@ -224,7 +328,7 @@ export default ${className};
   log(`   Path: ${filePath}`);
 }
 
-async function migrate(): Promise<void> {
+async function migrate(strict: boolean): Promise<void> {
   log('\n🔄 SDBC - Running Migrations\n', 'cyan');
   
   const config = loadConfig();
@@ -235,25 +339,17 @@ async function migrate(): Promise<void> {
     return;
   }
   
-  const files = fs.readdirSync(config.migrationsDir)
-    .filter(f => f.endsWith('.ts') || f.endsWith('.js'))
-    .sort();
-  
-  if (files.length === 0) {
-    info('No migrations to run');
-    return;
-  }
+  const result = await withMigrationManager(config, manager => manager.migrate(), { strict });
   
-  log(`Found ${files.length} migration(s)\n`);
+  log('');
+  assertSucceeded(result);
   
-  for (const file of files) {
-    info(`Running: ${file}`);
-    // In real implementation, would load and execute migration
-    success(`Completed: ${file}`);
+  if (result.executed.length === 0) {
+    info('Nothing to migrate');
+    return;
   }
   
-  log('');
-  success('All migrations completed');
+  success(`Ran ${result.executed.length} migration(s)`);
 }
 
 async function rollback(): Promise<void> {
@@ -267,23 +363,33 @@ async function rollback(): Promise<void> {
   }
   
   info('Rolling back last batch...');
-  // In real implementation, would rollback migrations
-  success('Rollback completed');
+  const result = await withMigrationManager(config, manager => manager.rollback());
+  
+  log('');
+  assertSucceeded(result);
+  success(`Rolled back ${result.rolled_back.length} migration(s)`);
 }
 
 async function fresh(): Promise<void> {
   log('\n🔄 SDBC - Fresh Migration\n', 'cyan');
   
-  warn('This will drop all tables and re-run all migrations!');
+  const config = loadConfig();
+  
+  if (!fs.existsSync(config.migrationsDir)) {
+    warn('No migrations directory found');
+    return;
+  }
+  
+  warn('This will roll back every migration and re-run them!');
   
-  // In real implementation, would drop all and re-migrate
-  info('Dropping all tables...');
-  success('Tables dropped');
+  const result = await withMigrationManager(config, manager => manager.fresh());
   
-  await migrate();
+  log('');
+  assertSucceeded(result);
+  success(`Rolled back ${result.rolled_back.length} and ran ${result.executed.length} migration(s)`);
 }
 
-async function status(): Promise<void> {
+async function status(strict: boolean): Promise<void> {
   log('\n📊 SDBC - Migration Status\n', 'cyan');
   
   const config = loadConfig();
@@ -293,11 +399,9 @@ async function status(): Promise<void> {
     return;
   }
   
-  const files = fs.readdirSync(config.migrationsDir)
-    .filter(f => f.endsWith('.ts') || f.endsWith('.js'))
-    .sort();
+  const { executed, pending, drift } = await withMigrationManager(config, manager => manager.status());
   
-  if (files.length === 0) {
+  if (executed.length === 0 && pending.length === 0) {
     info('No migrations found');
     return;
   }
@@ -305,13 +409,32 @@ async function status(): Promise<void> {
   log('Migration Status:');
   log('─'.repeat(60));
   
-  for (const file of files) {
-    // In real implementation, would check if migration was run
-    log(`  ✓ ${file} (executed)`);
+  for (const record of executed) {
+    if (drift.missing.includes(record.name)) {
+      log(`  ✗ ${record.name} (batch ${record.batch}, file missing)`, 'red');
+    } else if (drift.modified.includes(record.name)) {
+      log(`  ✎ ${record.name} (batch ${record.batch}, modified after execution)`, 'red');
+    } else {
+      log(`  ✓ ${record.name} (batch ${record.batch})`, 'green');
+    }
+  }
+  
+  for (const migration of pending) {
+    const outOfOrder = drift.outOfOrder.includes(migration.name);
+    log(`  ○ ${migration.name} (pending${outOfOrder ? ', out of order' : ''})`, outOfOrder ? 'red' : 'yellow');
   }
   
   log('─'.repeat(60));
-  log(`Total: ${files.length} migration(s)`);
+  log(`Executed: ${executed.length}, Pending: ${pending.length}`);
+  
+  if (hasDrift(drift)) {
+    log('');
+    warn(`Drift: ${drift.modified.length} modified, ${drift.missing.length} missing, ${drift.outOfOrder.length} out of order`);
+    
+    if (strict) {
+      throw new Error('Migration drift detected');
+    }
+  }
 }
 
 function showHelp(): void {
@@ -324,17 +447,20 @@ ${colors.yellow}Usage:${colors.reset}
 ${colors.yellow}Commands:${colors.reset}
   ${colors.green}init${colors.reset}                      Initialize SDBC in current directory
   ${colors.green}generate:migration${colors.reset} <name> Generate a new migration file
+                            --from-models: diff models against the database
   ${colors.green}generate:model${colors.reset} <name>     Generate a new model file
   ${colors.green}migrate${colors.reset}                   Run pending migrations
+                            --strict: refuse to run when migrations drifted
   ${colors.green}migrate:rollback${colors.reset}          Rollback last batch of migrations
-  ${colors.green}migrate:fresh${colors.reset}             Drop all tables and re-run migrations
-  ${colors.green}migrate:status${colors.reset}            Show migration status
+  ${colors.green}migrate:fresh${colors.reset}             Roll back and re-run all migrations
+  ${colors.green}migrate:status${colors.reset}            Show migration status and drift
   ${colors.green}help${colors.reset}                      Show this help message
   ${colors.green}version${colors.reset}                   Show version
 
 ${colors.yellow}Examples:${colors.reset}
   sdbc init
   sdbc generate:migration create_users_table
+  sdbc generate:migration add_user_fields --from-models
   sdbc generate:model User
   sdbc migrate
   sdbc migrate:rollback
@@ -364,7 +490,8 @@ function showVersion(): void {
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const command = args[0];
-  const param = args[1];
+  const param = args.slice(1).find(arg => !arg.startsWith('--')) ?? '';
+  const flags = new Set(args.filter(arg => arg.startsWith('--')));
   
   switch (command) {
     case 'init':
@@ -373,7 +500,7 @@ async function main(): Promise<void> {
       
     case 'generate:migration':
     case 'g:m':
-      await generateMigration(param);
+      await generateMigration(param, flags.has('--from-models'));
       break;
       
     case 'generate:model':
@@ -383,7 +510,7 @@ async function main(): Promise<void> {
       
     case 'migrate':
     case 'm':
-      await migrate();
+      await migrate(flags.has('--strict'));
       break;
       
     case 'migrate:rollback':
@@ -398,7 +525,7 @@ async function main(): Promise<void> {
       
     case 'migrate:status':
     case 'm:s':
-      await status();
+      await status(flags.has('--strict'));
       break;
       
     case 'version':
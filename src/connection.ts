@@ -8,14 +8,19 @@ import type {
   DatabaseProvider,
   DatabaseAdapter,
   ConnectionManager as IConnectionManager,
-  DatabaseCapabilities
+  DatabaseCapabilities,
+  Document,
+  Model as IModel,
+  SchemaDocument
 } from './types';
+import type { Schema } from './Schema';
 import {
   MongoDBAdapter,
   PostgreSQLAdapter,
   MySQLAdapter,
   SQLiteAdapter
 } from './adapters';
+import { createModel } from './Model';
 
 export interface ExtendedConnectionOptions extends ConnectionOptions {
   /** Bağlantı sonrası tüm modelleri sync et */
@@ -27,19 +32,36 @@ export interface ExtendedConnectionOptions extends ConnectionOptions {
   };
 }
 
-class ConnectionManagerImpl implements IConnectionManager {
+/**
+ * Tek bir veritabanı bağlantısı ve ona bağlı model registry'si
+ */
+export class Connection implements IConnectionManager {
   adapter: DatabaseAdapter | null = null;
   isConnected = false;
   syncEnabled = false;
   syncOptions: { force?: boolean; alter?: boolean } = {};
+  /** Bu bağlantıya bağlı modeller */
+  readonly models: Map<string, IModel> = new Map();
+  /** Sync edilmiş modeller */
+  readonly syncedModels: Set<string> = new Set();
+
+  constructor(public readonly name: string = 'default') {}
 
   async connect(options: ExtendedConnectionOptions): Promise<void> {
     if (this.isConnected) {
       await this.disconnect();
     }
 
+    if (options.replicas?.length && options.provider !== 'postgres' && options.provider !== 'mysql') {
+      throw new Error(`Read replicas are not supported for ${options.provider}`);
+    }
+
     this.adapter = this.createAdapter(options.provider);
-    await this.adapter.connect(options.uri, options.options);
+    await this.adapter.connect(
+      options.uri,
+      options.options,
+      options.replicas?.length ? { replicas: options.replicas, selection: options.replicaSelection } : undefined
+    );
     this.isConnected = true;
     
     // Sync ayarlarını kaydet
@@ -66,6 +88,21 @@ class ConnectionManagerImpl implements IConnectionManager {
     return this.getAdapter().capabilities;
   }
 
+  /**
+   * Bu bağlantıyı kullanan model oluştur
+   *
+   * @example
+   * ```ts
+   * const analytics = await createConnection('analytics', { provider: 'postgres', uri: '...' });
+   * const Event = analytics.model('Event', EventSchema);
+   * ```
+   */
+  model<S extends Schema<any, any>>(name: string, schema: S): IModel<SchemaDocument<S>>;
+  model<T extends Document>(name: string, schema: Schema<any, any>): IModel<T>;
+  model(name: string, schema: Schema<any, any>): IModel {
+    return createModel(this, name, schema);
+  }
+
   private createAdapter(provider: DatabaseProvider): DatabaseAdapter {
     switch (provider) {
       case 'mongodb':
@@ -82,8 +119,11 @@ class ConnectionManagerImpl implements IConnectionManager {
   }
 }
 
-// Singleton instance
-export const connectionManager = new ConnectionManagerImpl();
+// Varsayılan bağlantı (connect() ve model() bunu kullanır)
+export const connectionManager = new Connection();
+
+// İsimli bağlantılar
+const connections: Map<string, Connection> = new Map([['default', connectionManager]]);
 
 /**
  * Veritabanına bağlan
@@ -101,6 +141,41 @@ export async function connect(options: ConnectionOptions): Promise<typeof connec
   return connectionManager;
 }
 
+/**
+ * Varsayılandan bağımsız, kendi model registry'si olan isimli bağlantı oluştur
+ *
+ * @example
+ * ```ts
+ * const analytics = await createConnection('analytics', {
+ *   provider: 'mongodb',
+ *   uri: 'mongodb://localhost:27017/analytics'
+ * });
+ * const Event = analytics.model('Event', EventSchema);
+ * ```
+ */
+export async function createConnection(name: string, options: ExtendedConnectionOptions): Promise<Connection> {
+  let connection = connections.get(name);
+
+  if (connection?.isConnected) {
+    throw new Error(`Connection '${name}' already exists`);
+  }
+
+  if (!connection) {
+    connection = new Connection(name);
+    connections.set(name, connection);
+  }
+
+  await connection.connect(options);
+  return connection;
+}
+
+/**
+ * İsimli bağlantıyı getir
+ */
+export function getConnection(name = 'default'): Connection | undefined {
+  return connections.get(name);
+}
+
 /**
  * Veritabanı bağlantısını kapat
  */
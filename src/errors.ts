@@ -0,0 +1,50 @@
+// ============================================
+// SDBC - Errors
+// Error classes thrown by SDBC
+// ============================================
+
+import type { FieldValidationError, BulkWriteResult, BulkWriteOperationError } from './types';
+
+/**
+ * Schema doğrulama hatası
+ * errors alanında her hatalı path için detay bulunur
+ */
+export class ValidationError extends Error {
+  public errors: Record<string, FieldValidationError>;
+
+  constructor(errors: Record<string, FieldValidationError>) {
+    super(`Validation failed: ${Object.values(errors).map(e => e.message).join(', ')}`);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * ordered bulkWrite hatası
+ * SQL'de transaction geri alındığı için result'ta yazılmış işlem yoktur
+ */
+export class BulkWriteError extends Error {
+  public errors: BulkWriteOperationError[];
+  public result: BulkWriteResult;
+
+  constructor(result: BulkWriteResult) {
+    super(`Bulk write failed: ${result.errors.map(e => `#${e.index} ${e.operation}: ${e.message}`).join(', ')}`);
+    this.name = 'BulkWriteError';
+    this.errors = result.errors;
+    this.result = result;
+  }
+}
+
+/**
+ * Transaction süresi (TransactionOptions.timeout) aşıldı
+ * Transaction otomatik geri alınmıştır, sonraki sorgular bu hatayı fırlatır
+ */
+export class TransactionTimeoutError extends Error {
+  public timeout: number;
+
+  constructor(timeout: number) {
+    super(`Transaction timed out after ${timeout}ms and was rolled back`);
+    this.name = 'TransactionTimeoutError';
+    this.timeout = timeout;
+  }
+}
@@ -6,17 +6,25 @@
 // Core exports
 export { Schema } from './Schema';
 export { model, getModel, getModels, clearModels, syncAll } from './Model';
-export { connect, disconnect, getCapabilities, connectionManager } from './connection';
+export { connect, disconnect, getCapabilities, connectionManager, createConnection, getConnection, Connection } from './connection';
 export { SchemaSyncManager } from './sync';
+export { ValidationError, BulkWriteError, TransactionTimeoutError } from './errors';
 
 // Migration exports
 export {
   MigrationManager,
   defineMigration,
   createMigrationName,
+  loadMigrations,
+  hasDrift,
   SchemaBuilder,
   ColumnBuilder,
-  createSchemaBuilder
+  createSchemaBuilder,
+  diffModels,
+  diffTable,
+  introspectTable,
+  loadModels,
+  renderMigration
 } from './migration';
 
 export type {
@@ -24,9 +32,13 @@ export type {
   MigrationRecord,
   MigrationOptions,
   MigrationResult,
+  MigrationDrift,
   ColumnType,
   ColumnDefinition,
-  IndexDefinition
+  IndexDefinition,
+  ModelSchemaSource,
+  TableDiff,
+  TableSnapshot
 } from './migration';
 
 // Transaction exports
@@ -35,7 +47,8 @@ export {
   TransactionManager,
   getTransactionManager,
   setTransactionManager,
-  withTransaction
+  withTransaction,
+  isRetryableTransactionError
 } from './Transaction';
 
 export type {
@@ -88,25 +101,60 @@ export type {
   SchemaFieldType,
   SchemaFieldDefinition,
   ISchema,
+  ValidatorWithMessage,
+  ValidatorFunction,
+  InferSchemaType,
+  SchemaDocument,
+  
+  // Validation errors
+  ValidationErrorKind,
+  FieldValidationError,
   
   // Query types
   QueryFilter,
+  TypedQueryFilter,
+  UntypedQueryFilter,
+  FieldCondition,
   QueryOperators,
   QueryOptions,
+  SessionOptions,
   QueryCondition,
   QueryBuilder,
+  CursorOptions,
+  PaginateOptions,
+  PaginateResult,
+  PaginateEdge,
+  PageInfo,
   PopulateOptions,
+  PopulateJoin,
   
   // Update types
   UpdateFilter,
+  TypedUpdateOperators,
+  UntypedUpdateFilter,
   UpdateOperators,
   UpdateResult,
   DeleteResult,
   FindOneAndUpdateOptions,
+  FindOneAndDeleteOptions,
+  UpdateOptions,
+  
+  // Bulk types
+  BulkWriteOperation,
+  BulkWriteOptions,
+  BulkWriteResult,
+  BulkWriteOperationError,
+  
+  // Aggregation types
+  PipelineStage,
+  GroupStage,
+  AggregateAccumulator,
   
   // Document & Model
   Document,
   DocumentMethods,
+  LeanDocument,
+  LeanResult,
   Model,
   
   // Sync types
@@ -116,12 +164,21 @@ export type {
   // Connection
   ConnectionOptions,
   DatabaseProvider,
+  ReadPreference,
+  ReplicaSelection,
+  ReplicationOptions,
   DatabaseCapabilities,
   DatabaseAdapter,
   
   // Hooks
   HookEvent,
   HookFunction,
+  QueryHookEvent,
+  QueryHookFunction,
+  QueryPreHookFunction,
+  QueryPostHookFunction,
+  QueryHookResults,
+  QueryContext,
   VirtualDefinition,
   VirtualBuilder,
   IndexOptions
@@ -146,7 +203,7 @@ export const version = '1.2.0';
 // Default export
 import { Schema } from './Schema';
 import { model, syncAll } from './Model';
-import { connect, disconnect, getCapabilities } from './connection';
+import { connect, disconnect, getCapabilities, createConnection } from './connection';
 import { MigrationManager, SchemaBuilder, createSchemaBuilder } from './migration';
 import { TransactionManager, withTransaction } from './Transaction';
 
@@ -156,6 +213,7 @@ export default {
   connect,
   disconnect,
   getCapabilities,
+  createConnection,
   syncAll,
   MigrationManager,
   SchemaBuilder,
@@ -3,13 +3,20 @@
 // Enterprise-grade database migrations
 // ============================================
 
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 import type { BaseAdapter } from '../adapters/base';
+import { createSchemaBuilder, type SchemaBuilder } from './SchemaBuilder';
 
 export interface MigrationFile {
   name: string;
   timestamp: number;
   up: (adapter: BaseAdapter) => Promise<void>;
   down: (adapter: BaseAdapter) => Promise<void>;
+  /** İçerik checksum'ı; verilmezse up/down kaynağından hesaplanır */
+  checksum?: string;
 }
 
 export interface MigrationRecord {
@@ -18,6 +25,8 @@ export interface MigrationRecord {
   timestamp: number;
   executedAt: Date;
   batch: number;
+  /** Çalıştırıldığı andaki checksum (eski kayıtlarda null) */
+  checksum?: string | null;
 }
 
 export interface MigrationOptions {
@@ -27,6 +36,20 @@ export interface MigrationOptions {
   tableName?: string;
   /** Hata durumunda rollback yap */
   rollbackOnError?: boolean;
+  /** Drift varsa migrate() hiçbir migration çalıştırmaz */
+  strict?: boolean;
+}
+
+/**
+ * Çalıştırılmış migration'lar ile dosyalar arasındaki farklar
+ */
+export interface MigrationDrift {
+  /** Çalıştırıldıktan sonra içeriği değişmiş */
+  modified: string[];
+  /** Kaydı var ama dosyası yok */
+  missing: string[];
+  /** Bekleyen ama son çalıştırılandan daha eski timestamp'li */
+  outOfOrder: string[];
 }
 
 export interface MigrationResult {
@@ -44,11 +67,13 @@ export interface MigrationResult {
 export class MigrationManager {
   private adapter: BaseAdapter;
   private tableName: string;
+  private strict: boolean;
   private migrations: MigrationFile[] = [];
   
   constructor(adapter: BaseAdapter, options: MigrationOptions = {}) {
     this.adapter = adapter;
     this.tableName = options.tableName || '_sdbc_migrations';
+    this.strict = options.strict || false;
   }
 
   /**
@@ -83,13 +108,20 @@ export class MigrationManager {
     const createTableSQL = this.getCreateTableSQL();
     if (createTableSQL) {
       try {
-        await (this.adapter as any).query(createTableSQL, []);
+        await this.query(createTableSQL, []);
       } catch (error: any) {
         // Tablo zaten varsa hata vermez
         if (!error.message?.includes('already exists')) {
           throw error;
         }
       }
+
+      // checksum sütunu olmadan oluşturulmuş eski tabloları güncelle
+      try {
+        await this.query(`SELECT checksum FROM ${this.quoteName(this.tableName)} WHERE 1 = 0`, []);
+      } catch {
+        await this.query(`ALTER TABLE ${this.quoteName(this.tableName)} ADD COLUMN checksum VARCHAR(64)`, []);
+      }
     }
   }
 
@@ -107,7 +139,8 @@ export class MigrationManager {
             name VARCHAR(255) NOT NULL UNIQUE,
             timestamp BIGINT NOT NULL,
             executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-            batch INT NOT NULL
+            batch INT NOT NULL,
+            checksum VARCHAR(64)
           )
         `;
       case 'mysql':
@@ -117,7 +150,8 @@ export class MigrationManager {
             name VARCHAR(255) NOT NULL UNIQUE,
             timestamp BIGINT NOT NULL,
             executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-            batch INT NOT NULL
+            batch INT NOT NULL,
+            checksum VARCHAR(64)
           )
         `;
       case 'sqlite':
@@ -127,7 +161,8 @@ export class MigrationManager {
             name TEXT NOT NULL UNIQUE,
             timestamp INTEGER NOT NULL,
             executed_at TEXT DEFAULT CURRENT_TIMESTAMP,
-            batch INTEGER NOT NULL
+            batch INTEGER NOT NULL,
+            checksum TEXT
           )
         `;
       default:
@@ -146,7 +181,7 @@ export class MigrationManager {
     }
 
     try {
-      const result = await (this.adapter as any).query(
+      const result = await this.query(
         `SELECT * FROM ${this.quoteName(this.tableName)} ORDER BY timestamp ASC`,
         []
       );
@@ -172,6 +207,19 @@ export class MigrationManager {
   async migrate(): Promise<MigrationResult> {
     await this.ensureMigrationTable();
     
+    if (this.strict) {
+      const drift = await this.getDrift();
+      if (hasDrift(drift)) {
+        return {
+          success: false,
+          executed: [],
+          rolled_back: [],
+          pending: (await this.getPendingMigrations()).map(m => m.name),
+          error: `Migration drift detected (strict mode): ${describeDrift(drift)}`
+        };
+      }
+    }
+    
     const pending = await this.getPendingMigrations();
     const executed: string[] = [];
     const batch = await this.getNextBatch();
@@ -373,12 +421,39 @@ export class MigrationManager {
   async status(): Promise<{
     executed: MigrationRecord[];
     pending: MigrationFile[];
+    drift: MigrationDrift;
   }> {
     await this.ensureMigrationTable();
     
     return {
       executed: await this.getExecutedMigrations(),
-      pending: await this.getPendingMigrations()
+      pending: await this.getPendingMigrations(),
+      drift: await this.getDrift()
+    };
+  }
+
+  /**
+   * Değiştirilmiş, kayıp ve sırası bozulmuş migration'ları bul
+   */
+  async getDrift(): Promise<MigrationDrift> {
+    const executed = await this.getExecutedMigrations();
+    const pending = await this.getPendingMigrations();
+    const files = new Map(this.migrations.map(m => [m.name, m]));
+
+    const modified = executed.filter(record => {
+      const migration = files.get(record.name);
+      // Checksum'sız eski kayıtlar karşılaştırılamaz
+      return migration && record.checksum && record.checksum !== checksumOf(migration);
+    });
+    const missing = executed.filter(record => !files.has(record.name));
+
+    const latest = Math.max(0, ...executed.map(record => Number(record.timestamp)));
+    const outOfOrder = pending.filter(migration => migration.timestamp < latest);
+
+    return {
+      modified: modified.map(m => m.name),
+      missing: missing.map(m => m.name),
+      outOfOrder: outOfOrder.map(m => m.name)
     };
   }
 
@@ -394,14 +469,15 @@ export class MigrationManager {
         name: migration.name,
         timestamp: migration.timestamp,
         executedAt: new Date(),
-        batch
+        batch,
+        checksum: checksumOf(migration)
       });
       return;
     }
 
-    await (this.adapter as any).query(
-      `INSERT INTO ${this.quoteName(this.tableName)} (name, timestamp, batch) VALUES (?, ?, ?)`,
-      [migration.name, migration.timestamp, batch]
+    await this.query(
+      `INSERT INTO ${this.quoteName(this.tableName)} (name, timestamp, batch, checksum) VALUES (?, ?, ?, ?)`,
+      [migration.name, migration.timestamp, batch, checksumOf(migration)]
     );
   }
 
@@ -413,7 +489,7 @@ export class MigrationManager {
       return;
     }
 
-    await (this.adapter as any).query(
+    await this.query(
       `DELETE FROM ${this.quoteName(this.tableName)} WHERE name = ?`,
       [name]
     );
@@ -433,7 +509,7 @@ export class MigrationManager {
     }
 
     try {
-      const result = await (this.adapter as any).query(
+      const result = await this.query(
         `SELECT MAX(batch) as max_batch FROM ${this.quoteName(this.tableName)}`,
         []
       );
@@ -450,12 +526,23 @@ export class MigrationManager {
       return await this.adapter.find(this.tableName, { batch }, {}) as unknown as MigrationRecord[];
     }
 
-    return await (this.adapter as any).query(
+    return await this.query(
       `SELECT * FROM ${this.quoteName(this.tableName)} WHERE batch = ? ORDER BY timestamp ASC`,
       [batch]
     );
   }
 
+  /**
+   * Ham SQL çalıştır; PostgreSQL için `?` yer tutucuları `$n`'e çevrilir
+   */
+  private async query(sql: string, params: unknown[]): Promise<any> {
+    if (this.adapter.name === 'postgres') {
+      let index = 0;
+      sql = sql.replace(/\?/g, () => `$${++index}`);
+    }
+    return (this.adapter as any).query(sql, params);
+  }
+
   private quoteName(name: string): string {
     const adapterName = this.adapter.name;
     if (adapterName === 'mysql') return `\`${name}\``;
@@ -467,6 +554,32 @@ export class MigrationManager {
 // Migration Helper Functions
 // ============================================
 
+/**
+ * İçeriğin SHA-256 checksum'ı (satır sonları normalize edilir)
+ */
+function createChecksum(content: string): string {
+  return createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function checksumOf(migration: MigrationFile): string {
+  return migration.checksum ?? createChecksum(`${migration.up.toString()}\n${migration.down.toString()}`);
+}
+
+/**
+ * Drift'te herhangi bir kayıt var mı
+ */
+export function hasDrift(drift: MigrationDrift): boolean {
+  return drift.modified.length + drift.missing.length + drift.outOfOrder.length > 0;
+}
+
+function describeDrift(drift: MigrationDrift): string {
+  return [
+    ...drift.modified.map(name => `${name} (modified)`),
+    ...drift.missing.map(name => `${name} (missing)`),
+    ...drift.outOfOrder.map(name => `${name} (out of order)`)
+  ].join(', ');
+}
+
 /**
  * Migration dosyası oluştur
  */
@@ -499,3 +612,82 @@ export function createMigrationName(description: string): string {
   
   return `${timestamp}_${slug}`;
 }
+
+/**
+ * Migration modülünün dışa aktardıkları (`sdbc generate:migration` şablonu)
+ */
+interface MigrationModule {
+  name?: string;
+  up: (schema: SchemaBuilder, adapter: BaseAdapter) => Promise<void>;
+  down: (schema: SchemaBuilder, adapter: BaseAdapter) => Promise<void>;
+}
+
+/**
+ * Klasördeki `.js`/`.ts` migration dosyalarını yükle
+ * Dosya adı timestamp ile başlamalı (ör. `20240101120000_create_users.ts`);
+ * `up`/`down` fonksiyonlarına SchemaBuilder ve adapter verilir
+ */
+export async function loadMigrations(directory: string): Promise<MigrationFile[]> {
+  const migrations: MigrationFile[] = [];
+
+  for (const [base, file] of listModuleFiles(directory)) {
+    const match = base.match(/^(\d+)_/);
+    if (!match) {
+      throw new Error(`Migration file name must start with a timestamp: ${file}`);
+    }
+
+    const filePath = path.resolve(directory, file);
+    const exported = await importModule(filePath);
+    // CommonJS modüllerinde export'lar `default` altında gelir
+    const mod: MigrationModule = typeof exported.up === 'function' ? exported : (exported.default ?? exported);
+    if (typeof mod.up !== 'function' || typeof mod.down !== 'function') {
+      throw new Error(`Migration ${file} must export up() and down() functions`);
+    }
+
+    migrations.push({
+      name: mod.name || base,
+      timestamp: Number(match[1]),
+      up: (adapter) => mod.up(createSchemaBuilder(adapter), adapter),
+      down: (adapter) => mod.down(createSchemaBuilder(adapter), adapter),
+      checksum: createChecksum(fs.readFileSync(filePath, 'utf-8'))
+    });
+  }
+
+  return migrations;
+}
+
+/**
+ * Klasördeki `.js`/`.ts` dosyaları (uzantısız ad → dosya adı, sıralı)
+ * Derlenmiş .js ve kaynak .ts yan yana ise .js kullanılır
+ */
+export function listModuleFiles(directory: string): Map<string, string> {
+  const files = new Map<string, string>();
+
+  for (const file of fs.readdirSync(directory).sort()) {
+    if (file.endsWith('.d.ts') || !/\.(js|ts)$/.test(file)) continue;
+
+    const base = file.replace(/\.(js|ts)$/, '');
+    if (!files.has(base) || file.endsWith('.js')) {
+      files.set(base, file);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * `.js`/`.ts` modülünü yükle (migration ve model dosyaları için)
+ */
+export async function importModule(filePath: string): Promise<Record<string, any>> {
+  try {
+    return await import(pathToFileURL(filePath).href);
+  } catch (error: any) {
+    if (filePath.endsWith('.ts') && error?.code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(
+        `Cannot load TypeScript file ${path.basename(filePath)}: ` +
+        'run the CLI with a TypeScript loader (e.g. `npx tsx node_modules/.bin/sdbc migrate`) or compile it to .js'
+      );
+    }
+    throw new Error(`Failed to load ${path.basename(filePath)}: ${error?.message}`, { cause: error });
+  }
+}
@@ -23,6 +23,8 @@ export interface ColumnDefinition {
   autoIncrement: boolean;
   unsigned: boolean;
   enumValues?: string[];
+  /** Modify an existing column instead of adding it (alterTable) */
+  change?: boolean;
   references?: {
     table: string;
     column: string;
@@ -120,6 +122,12 @@ export class ColumnBuilder {
     return this;
   }
 
+  /** Modify the existing column to this definition (alterTable) */
+  change(): this {
+    this.column.change = true;
+    return this;
+  }
+
   /** Get built column */
   build(): ColumnDefinition {
     return this.column;
@@ -135,6 +143,7 @@ export class SchemaBuilder {
   private columns: ColumnDefinition[] = [];
   private indexes: IndexDefinition[] = [];
   private dropColumns: string[] = [];
+  private dropIndexes: string[] = [];
   private renameColumns: Array<{ from: string; to: string }> = [];
 
   constructor(adapter: BaseAdapter) {
@@ -170,13 +179,20 @@ export class SchemaBuilder {
   async alterTable(name: string, callback: (table: SchemaBuilder) => void): Promise<void> {
     this.tableName = name;
     this.columns = [];
+    this.indexes = [];
     this.dropColumns = [];
+    this.dropIndexes = [];
     this.renameColumns = [];
     
     callback(this);
     
+    // Drop indexes first so their columns can be dropped
+    for (const indexName of this.dropIndexes) {
+      await this.execute(this.buildDropIndexSQL(indexName));
+    }
+    
     // Add columns
-    for (const col of this.columns) {
+    for (const col of this.columns.filter(c => !c.change)) {
       await this.execute(this.buildAddColumnSQL(col));
     }
     
@@ -189,6 +205,23 @@ export class SchemaBuilder {
     for (const rename of this.renameColumns) {
       await this.execute(this.buildRenameColumnSQL(rename.from, rename.to));
     }
+    
+    // Change columns
+    const changed = this.columns.filter(c => c.change);
+    if (changed.length > 0 && this.adapter.name === 'sqlite') {
+      await this.rebuildSQLiteTable(changed);
+    } else {
+      for (const col of changed) {
+        for (const sql of this.buildChangeColumnSQL(col)) {
+          await this.execute(sql);
+        }
+      }
+    }
+    
+    // Create indexes
+    for (const index of this.indexes) {
+      await this.execute(this.buildCreateIndexSQL(index));
+    }
   }
 
   /**
@@ -440,6 +473,11 @@ export class SchemaBuilder {
     this.renameColumns.push({ from, to });
   }
 
+  /** Drop INDEX */
+  dropIndex(name: string): void {
+    this.dropIndexes.push(name);
+  }
+
   // ============================================
   // SQL Builders
   // ============================================
@@ -489,6 +527,97 @@ export class SchemaBuilder {
     return `CREATE ${uniqueStr}INDEX ${quote}${index.name}${quote} ON ${quote}${this.tableName}${quote} (${cols})`;
   }
 
+  private buildDropIndexSQL(name: string): string {
+    if (this.adapter.name === 'mysql') {
+      return `DROP INDEX \`${name}\` ON \`${this.tableName}\``;
+    }
+    
+    return `DROP INDEX IF EXISTS "${name}"`;
+  }
+
+  private buildChangeColumnSQL(col: ColumnDefinition): string[] {
+    const table = this.tableName;
+    
+    if (this.adapter.name === 'mysql') {
+      return [`ALTER TABLE \`${table}\` MODIFY COLUMN ${this.columnToSQL(col)}`];
+    }
+    
+    const type = this.typeToSQL(col);
+    const column = `ALTER TABLE "${table}" ALTER COLUMN "${col.name}"`;
+    
+    return [
+      `${column} TYPE ${type} USING "${col.name}"::${type}`,
+      `${column} ${col.nullable ? 'DROP' : 'SET'} NOT NULL`,
+      col.defaultValue !== undefined
+        ? `${column} SET DEFAULT ${this.defaultToSQL(col.defaultValue)}`
+        : `${column} DROP DEFAULT`
+    ];
+  }
+
+  /**
+   * SQLite cannot alter a column in place: copy the table with the new
+   * column definitions, swap it in and recreate its indexes.
+   * Follows SQLite's ALTER TABLE procedure: foreign keys are switched off
+   * around one transaction, so a failed copy leaves the original table intact
+   */
+  private async rebuildSQLiteTable(changed: ColumnDefinition[]): Promise<void> {
+    const table = this.tableName;
+    const query = (sql: string) => (this.adapter as any).query(sql, []);
+    
+    const existing: Array<{ name: string; type: string; notnull: number; dflt_value: string | null; pk: number }> =
+      await query(`PRAGMA table_info("${table}")`);
+    const indexes: Array<{ sql: string }> = await query(
+      `SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = '${table}' AND sql IS NOT NULL`
+    );
+    
+    const columnDefs = existing.map(col => {
+      const change = changed.find(c => c.name === col.name);
+      if (change) return this.columnToSQL(change);
+      
+      let sql = `"${col.name}" ${col.type}`;
+      if (col.pk) sql += ' PRIMARY KEY';
+      if (col.notnull && !col.pk) sql += ' NOT NULL';
+      if (col.dflt_value !== null) sql += ` DEFAULT ${col.dflt_value}`;
+      return sql;
+    });
+    
+    const temp = `_sdbc_tmp_${table}`;
+    const names = existing.map(col => `"${col.name}"`).join(', ');
+
+    // Inside an open transaction PRAGMA foreign_keys is a no-op and BEGIN fails: use a savepoint
+    const nested = Boolean((this.adapter as any).db?.inTransaction);
+    const [{ foreign_keys: foreignKeys }] = await query('PRAGMA foreign_keys');
+    if (foreignKeys && !nested) await this.execute('PRAGMA foreign_keys = OFF');
+
+    try {
+      await this.execute(nested ? 'SAVEPOINT "_sdbc_rebuild"' : 'BEGIN');
+      try {
+        await this.execute(`CREATE TABLE "${temp}" (${columnDefs.join(', ')})`);
+        await this.execute(`INSERT INTO "${temp}" (${names}) SELECT ${names} FROM "${table}"`);
+        await this.execute(`DROP TABLE "${table}"`);
+        await this.execute(`ALTER TABLE "${temp}" RENAME TO "${table}"`);
+
+        for (const index of indexes) {
+          await this.execute(index.sql);
+        }
+
+        if (foreignKeys) {
+          const violations: unknown[] = await query(`PRAGMA foreign_key_check("${table}")`);
+          if (violations.length > 0) {
+            throw new Error(`Rebuilding ${table} would violate ${violations.length} foreign key constraint(s)`);
+          }
+        }
+        await this.execute(nested ? 'RELEASE "_sdbc_rebuild"' : 'COMMIT');
+      } catch (error) {
+        await this.execute(nested ? 'ROLLBACK TO "_sdbc_rebuild"' : 'ROLLBACK');
+        if (nested) await this.execute('RELEASE "_sdbc_rebuild"');
+        throw error;
+      }
+    } finally {
+      if (foreignKeys && !nested) await this.execute('PRAGMA foreign_keys = ON');
+    }
+  }
+
   private columnToSQL(col: ColumnDefinition): string {
     const adapterName = this.adapter.name;
     const quote = adapterName === 'mysql' ? '`' : '"';
@@ -504,7 +633,8 @@ export class SchemaBuilder {
     }
     
     if (col.autoIncrement) {
-      sql += adapterName === 'postgres' ? '' : ' AUTO_INCREMENT';
+      if (adapterName === 'mysql') sql += ' AUTO_INCREMENT';
+      else if (adapterName === 'sqlite') sql += ' AUTOINCREMENT';
     }
     
     if (!col.nullable && !col.primary) {
@@ -528,7 +658,8 @@ export class SchemaBuilder {
     return sql;
   }
 
-  private typeToSQL(col: ColumnDefinition): string {
+  /** SQL type of a column for the current database */
+  typeToSQL(col: ColumnDefinition): string {
     const adapterName = this.adapter.name;
     
     const typeMap: Record<string, Record<ColumnType, string>> = {
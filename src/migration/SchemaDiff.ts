@@ -0,0 +1,510 @@
+// ============================================
+// SDBC - Schema Diff
+// Model schema'larını canlı veritabanıyla karşılaştırıp migration üretir
+// ============================================
+
+import * as path from 'path';
+import type { BaseAdapter } from '../adapters/base';
+import type { ISchema, IndexOptions, SchemaFieldDefinition } from '../types';
+import { toStorageSchema } from '../subdocument';
+import { listModuleFiles, importModule } from './Migration';
+import {
+  ColumnBuilder,
+  createSchemaBuilder,
+  type ColumnDefinition,
+  type ColumnType,
+  type IndexDefinition
+} from './SchemaBuilder';
+
+/**
+ * Diff için gereken model bilgisi (IModel ile uyumlu)
+ */
+export interface ModelSchemaSource {
+  modelName?: string;
+  collectionName: string;
+  schema: ISchema;
+}
+
+/**
+ * Veritabanındaki tablonun anlık görüntüsü
+ */
+export interface TableSnapshot {
+  columns: ColumnDefinition[];
+  indexes: IndexDefinition[];
+}
+
+/**
+ * Bir tablonun schema ile farkları
+ */
+export interface TableDiff {
+  table: string;
+  /** Tablo veritabanında yok; `added` tüm sütunları içerir */
+  create: boolean;
+  added: ColumnDefinition[];
+  dropped: ColumnDefinition[];
+  changed: Array<{ from: ColumnDefinition; to: ColumnDefinition }>;
+  renamed: Array<{ from: string; to: string }>;
+  addedIndexes: IndexDefinition[];
+  droppedIndexes: IndexDefinition[];
+}
+
+// Veritabanı tiplerinin SchemaBuilder karşılıkları
+const LIVE_TYPES: Record<string, ColumnType> = {
+  'character varying': 'string',
+  varchar: 'string',
+  character: 'string',
+  char: 'string',
+  text: 'text',
+  mediumtext: 'text',
+  longtext: 'text',
+  integer: 'integer',
+  int: 'integer',
+  smallint: 'integer',
+  mediumint: 'integer',
+  bigint: 'bigint',
+  real: 'float',
+  float: 'float',
+  'double precision': 'double',
+  double: 'double',
+  numeric: 'decimal',
+  decimal: 'decimal',
+  boolean: 'boolean',
+  tinyint: 'boolean',
+  date: 'date',
+  datetime: 'datetime',
+  timestamp: 'timestamp',
+  'timestamp without time zone': 'timestamp',
+  json: 'json',
+  jsonb: 'json',
+  uuid: 'uuid',
+  bytea: 'binary',
+  blob: 'binary'
+};
+
+// ============================================
+// Introspection
+// ============================================
+
+/**
+ * Tablonun sütunlarını ve index'lerini oku; tablo yoksa null döner
+ */
+export async function introspectTable(adapter: BaseAdapter, table: string): Promise<TableSnapshot | null> {
+  const query = (sql: string, params: unknown[] = []): Promise<any[]> => (adapter as any).query(sql, params);
+
+  switch (adapter.name) {
+    case 'postgres': {
+      const columns = await query(
+        `SELECT column_name AS name, data_type AS type, character_maximum_length AS length, is_nullable AS nullable
+         FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = $1
+         ORDER BY ordinal_position`,
+        [table]
+      );
+      if (columns.length === 0) return null;
+
+      const indexes = await query(
+        `SELECT i.relname AS name, ix.indisunique AS "unique", a.attname AS "column"
+         FROM pg_index ix
+         JOIN pg_class t ON t.oid = ix.indrelid
+         JOIN pg_class i ON i.oid = ix.indexrelid
+         JOIN pg_namespace n ON n.oid = t.relnamespace
+         JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+         WHERE t.relname = $1 AND n.nspname = current_schema() AND NOT ix.indisprimary
+         ORDER BY i.relname, array_position(ix.indkey::int2[], a.attnum)`,
+        [table]
+      );
+
+      return {
+        columns: columns.map(c => liveColumn(c.name, c.type, c.length, c.nullable === 'YES')),
+        indexes: groupIndexes(indexes.map(i => ({ name: i.name, column: i.column, unique: i.unique === true })))
+      };
+    }
+
+    case 'mysql': {
+      const columns = await query(
+        `SELECT COLUMN_NAME AS name, DATA_TYPE AS type, CHARACTER_MAXIMUM_LENGTH AS length, IS_NULLABLE AS nullable
+         FROM information_schema.columns
+         WHERE table_schema = DATABASE() AND table_name = ?
+         ORDER BY ORDINAL_POSITION`,
+        [table]
+      );
+      if (columns.length === 0) return null;
+
+      const indexes = await query(
+        `SELECT INDEX_NAME AS name, NON_UNIQUE AS non_unique, COLUMN_NAME AS \`column\`
+         FROM information_schema.statistics
+         WHERE table_schema = DATABASE() AND table_name = ? AND INDEX_NAME <> 'PRIMARY'
+         ORDER BY INDEX_NAME, SEQ_IN_INDEX`,
+        [table]
+      );
+
+      return {
+        columns: columns.map(c => liveColumn(c.name, c.type, c.length, c.nullable === 'YES')),
+        indexes: groupIndexes(indexes.map(i => ({ name: i.name, column: i.column, unique: Number(i.non_unique) === 0 })))
+      };
+    }
+
+    case 'sqlite': {
+      const columns = await query(`PRAGMA table_info("${table}")`);
+      if (columns.length === 0) return null;
+
+      // origin 'c': CREATE INDEX ile oluşturulmuş (PRIMARY KEY / UNIQUE kısıtı değil)
+      const list = (await query(`PRAGMA index_list("${table}")`)).filter(i => i.origin === 'c');
+      const indexes: IndexDefinition[] = [];
+      for (const index of list) {
+        const info = await query(`PRAGMA index_info("${index.name}")`);
+        indexes.push({ name: index.name, unique: index.unique === 1, columns: info.map(c => c.name) });
+      }
+
+      return {
+        columns: columns.map(c => {
+          const length = /\((\d+)\)/.exec(c.type)?.[1];
+          return liveColumn(c.name, c.type, length ? Number(length) : null, c.notnull === 0 && c.pk === 0);
+        }),
+        indexes
+      };
+    }
+
+    default:
+      throw new Error(`Schema diff is not supported for ${adapter.name}`);
+  }
+}
+
+function liveColumn(name: string, type: string, length: number | null, nullable: boolean): ColumnDefinition {
+  const base = type.toLowerCase().replace(/\(.*\)/, '').trim();
+  const column = new ColumnBuilder(name, LIVE_TYPES[base] ?? 'text').build();
+
+  if (column.type === 'string' && length) column.length = Number(length);
+  column.nullable = nullable;
+  return column;
+}
+
+function groupIndexes(rows: Array<{ name: string; column: string; unique: boolean }>): IndexDefinition[] {
+  const indexes = new Map<string, IndexDefinition>();
+
+  for (const row of rows) {
+    const index = indexes.get(row.name) ?? { name: row.name, columns: [], unique: row.unique };
+    index.columns.push(row.column);
+    indexes.set(row.name, index);
+  }
+
+  return [...indexes.values()];
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/**
+ * Schema alanını SchemaBuilder sütununa çevir (adapter'ların createCollection tipleriyle aynı)
+ */
+function schemaColumn(name: string, def: SchemaFieldDefinition): ColumnDefinition {
+  let type: ColumnType;
+
+  switch (def.type) {
+    case String:
+    case 'ObjectId':
+      type = 'string';
+      break;
+    case Number:
+      type = 'double';
+      break;
+    case Boolean:
+      type = 'boolean';
+      break;
+    case Date:
+      type = 'datetime';
+      break;
+    case Array:
+    case Object:
+    case 'Mixed':
+      type = 'json';
+      break;
+    default:
+      type = 'text';
+  }
+
+  const column = new ColumnBuilder(name, type).build();
+  if (type === 'string') column.length = 255;
+
+  const required = Array.isArray(def.required) ? def.required[0] : def.required;
+  column.nullable = !required;
+
+  const value = def.default;
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    column.defaultValue = value;
+  }
+
+  return column;
+}
+
+/**
+ * Schema'nın beklediği index'ler (adapter'ların `idx_<tablo>_<alan>` adlandırmasıyla)
+ */
+function schemaIndexes(table: string, schema: ISchema, storage: ISchema): IndexDefinition[] {
+  const indexes: IndexDefinition[] = [];
+
+  for (const [field, def] of Object.entries(storage.definition)) {
+    const { unique, index } = def as SchemaFieldDefinition;
+    if (unique || index) {
+      indexes.push({ name: `idx_${table}_${field}`, columns: [field], unique: !!unique });
+    }
+  }
+
+  const compound: Array<{ fields: Record<string, 1 | -1>; options?: IndexOptions }> = (schema as any).indexes || [];
+  for (const { fields, options } of compound) {
+    const columns = Object.keys(fields);
+    indexes.push({ name: options?.name ?? `idx_${table}_${columns.join('_')}`, columns, unique: !!options?.unique });
+  }
+
+  return indexes;
+}
+
+/**
+ * Model schema'sını tablonun anlık görüntüsüyle karşılaştır; fark yoksa null döner
+ */
+export function diffTable(
+  adapter: BaseAdapter,
+  table: string,
+  schema: ISchema,
+  live: TableSnapshot | null
+): TableDiff | null {
+  const builder = createSchemaBuilder(adapter);
+  const storage = toStorageSchema(schema);
+
+  const expected = Object.entries(storage.definition)
+    .filter(([name]) => name !== '_id')
+    .map(([name, def]) => schemaColumn(name, def as SchemaFieldDefinition));
+  const expectedIndexes = schemaIndexes(table, schema, storage);
+
+  const diff: TableDiff = {
+    table,
+    create: !live,
+    added: [],
+    dropped: [],
+    changed: [],
+    renamed: [],
+    addedIndexes: [],
+    droppedIndexes: []
+  };
+
+  if (!live) {
+    const id = new ColumnBuilder('_id', 'string').primary().build();
+    id.length = 36;
+    diff.added = [id, ...expected];
+    diff.addedIndexes = expectedIndexes;
+    return diff;
+  }
+
+  const liveColumns = new Map(live.columns.filter(c => c.name !== '_id').map(c => [c.name, c]));
+  const sameDefinition = (a: ColumnDefinition, b: ColumnDefinition) =>
+    builder.typeToSQL(a) === builder.typeToSQL(b) && a.nullable === b.nullable;
+
+  for (const column of expected) {
+    const current = liveColumns.get(column.name);
+    if (!current) {
+      diff.added.push(column);
+    } else if (!sameDefinition(current, column)) {
+      diff.changed.push({ from: current, to: { ...column, change: true } });
+    }
+  }
+
+  const expectedNames = new Set(expected.map(c => c.name));
+  diff.dropped = [...liveColumns.values()].filter(c => !expectedNames.has(c.name));
+
+  // Tanımı birebir aynı tek bir eklenen/silinen sütun çifti yeniden adlandırma kabul edilir
+  for (const added of [...diff.added]) {
+    const candidates = diff.dropped.filter(c => sameDefinition(c, added));
+    if (candidates.length !== 1) continue;
+
+    const [dropped] = candidates;
+    if (diff.added.filter(c => sameDefinition(c, dropped)).length !== 1) continue;
+
+    diff.renamed.push({ from: dropped.name, to: added.name });
+    diff.added = diff.added.filter(c => c !== added);
+    diff.dropped = diff.dropped.filter(c => c !== dropped);
+  }
+
+  // Sadece SDBC adlandırmasına uyan veya schema'da tanımlı index'ler yönetilir
+  const managed = live.indexes.filter(index =>
+    index.name.startsWith(`idx_${table}_`) ||
+    index.name.startsWith(`uniq_${table}_`) ||
+    expectedIndexes.some(e => e.name === index.name)
+  );
+  const sameIndex = (a: IndexDefinition, b: IndexDefinition) =>
+    a.name === b.name && a.unique === b.unique && a.columns.join(',') === b.columns.join(',');
+
+  diff.addedIndexes = expectedIndexes.filter(index => !managed.some(m => sameIndex(m, index)));
+  diff.droppedIndexes = managed.filter(index => !expectedIndexes.some(e => sameIndex(e, index)));
+
+  const changes = diff.added.length + diff.dropped.length + diff.changed.length + diff.renamed.length +
+    diff.addedIndexes.length + diff.droppedIndexes.length;
+  return changes > 0 ? diff : null;
+}
+
+/**
+ * Modellerin schema'larını canlı veritabanıyla karşılaştır
+ */
+export async function diffModels(adapter: BaseAdapter, models: ModelSchemaSource[]): Promise<TableDiff[]> {
+  if (adapter.name === 'mongodb') {
+    throw new Error('Schema diff is only supported for SQL databases');
+  }
+
+  const diffs: TableDiff[] = [];
+
+  for (const model of models) {
+    const live = await introspectTable(adapter, model.collectionName);
+    const diff = diffTable(adapter, model.collectionName, model.schema, live);
+    if (diff) diffs.push(diff);
+  }
+
+  return diffs;
+}
+
+/**
+ * Klasördeki model dosyalarını yükle ve export edilen modelleri topla
+ */
+export async function loadModels(directory: string): Promise<ModelSchemaSource[]> {
+  const models = new Map<string, ModelSchemaSource>();
+
+  for (const file of listModuleFiles(directory).values()) {
+    const exported = await importModule(path.resolve(directory, file));
+    const values = [...Object.values(exported), ...Object.values(exported.default ?? {})];
+
+    for (const value of values) {
+      if (isModel(value) && !models.has(value.collectionName)) {
+        models.set(value.collectionName, value);
+      }
+    }
+  }
+
+  return [...models.values()];
+}
+
+function isModel(value: unknown): value is ModelSchemaSource {
+  const candidate = value as ModelSchemaSource | null;
+  return !!candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.collectionName === 'string' &&
+    typeof candidate.schema?.definition === 'object';
+}
+
+// ============================================
+// Migration Source
+// ============================================
+
+/**
+ * Farklardan `sdbc generate:migration` formatında migration kaynağı üret
+ */
+export function renderMigration(name: string, diffs: TableDiff[]): string {
+  const up = diffs.map(diff => renderUp(diff));
+  const down = [...diffs].reverse().map(diff => renderDown(diff));
+
+  return `// Migration: ${name}
+// Generated from models: ${new Date().toISOString()}
+
+import type { SchemaBuilder } from 'sdbc';
+
+export const name = '${name}';
+
+export async function up(schema: SchemaBuilder): Promise<void> {
+${up.join('\n\n')}
+}
+
+export async function down(schema: SchemaBuilder): Promise<void> {
+${down.join('\n\n')}
+}
+`;
+}
+
+function renderUp(diff: TableDiff): string {
+  if (diff.create) {
+    return renderTable('createTable', diff.table, [
+      ...diff.added.map(column => renderColumn(column)),
+      ...diff.addedIndexes.map(index => renderIndex(index))
+    ]);
+  }
+
+  return renderTable('alterTable', diff.table, [
+    ...diff.droppedIndexes.map(index => `table.dropIndex(${literal(index.name)});`),
+    ...diff.added.map(column => renderAddColumn(column)),
+    ...diff.dropped.map(column => `table.dropColumn(${literal(column.name)});`),
+    ...diff.renamed.map(({ from, to }) =>
+      `table.renameColumn(${literal(from)}, ${literal(to)}); // detected rename, verify before running`),
+    ...diff.changed.map(({ to }) => renderColumn(to)),
+    ...diff.addedIndexes.map(index => renderIndex(index))
+  ]);
+}
+
+function renderDown(diff: TableDiff): string {
+  if (diff.create) {
+    return `  await schema.dropTable(${literal(diff.table)});`;
+  }
+
+  return renderTable('alterTable', diff.table, [
+    ...diff.addedIndexes.map(index => `table.dropIndex(${literal(index.name)});`),
+    ...diff.dropped.map(column => renderAddColumn(column)),
+    ...diff.added.map(column => `table.dropColumn(${literal(column.name)});`),
+    ...diff.renamed.map(({ from, to }) => `table.renameColumn(${literal(to)}, ${literal(from)});`),
+    ...diff.changed.map(({ from }) => renderColumn({ ...from, change: true })),
+    ...diff.droppedIndexes.map(index => renderIndex(index))
+  ]);
+}
+
+function renderTable(method: 'createTable' | 'alterTable', table: string, lines: string[]): string {
+  return `  await schema.${method}(${literal(table)}, (table) => {
+${lines.map(line => `    ${line}`).join('\n')}
+  });`;
+}
+
+/**
+ * Mevcut satırlar varken NOT NULL sütun default olmadan eklenemez
+ */
+function renderAddColumn(column: ColumnDefinition): string {
+  if (column.nullable || column.defaultValue !== undefined) {
+    return renderColumn(column);
+  }
+  return `${renderColumn({ ...column, nullable: true })} // required in schema: backfill existing rows, then make it NOT NULL`;
+}
+
+function renderColumn(column: ColumnDefinition): string {
+  const name = literal(column.name);
+  const methods: Record<ColumnType, string> = {
+    string: column.length && column.length !== 255 ? `string(${name}, ${column.length})` : `string(${name})`,
+    text: `text(${name})`,
+    integer: `integer(${name})`,
+    bigint: `bigInteger(${name})`,
+    float: `float(${name})`,
+    double: `double(${name})`,
+    decimal: `decimal(${name})`,
+    boolean: `boolean(${name})`,
+    date: `date(${name})`,
+    datetime: `datetime(${name})`,
+    timestamp: `timestamp(${name})`,
+    time: `text(${name})`,
+    json: `json(${name})`,
+    uuid: `uuid(${name})`,
+    binary: `binary(${name})`,
+    enum: `string(${name})`
+  };
+
+  let code = `table.${methods[column.type]}`;
+  if (column.primary) code += '.primary()';
+  else if (!column.nullable) code += '.notNull()';
+  if (column.defaultValue !== undefined) code += `.default(${literal(column.defaultValue)})`;
+  if (column.change) code += '.change()';
+
+  return `${code};`;
+}
+
+function renderIndex(index: IndexDefinition): string {
+  const columns = `[${index.columns.map(literal).join(', ')}]`;
+  return `table.${index.unique ? 'uniqueIndex' : 'index'}(${columns}, ${literal(index.name)});`;
+}
+
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  return String(value);
+}
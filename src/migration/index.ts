@@ -6,10 +6,13 @@ export {
   MigrationManager, 
   defineMigration, 
   createMigrationName,
+  loadMigrations,
+  hasDrift,
   type MigrationFile,
   type MigrationRecord,
   type MigrationOptions,
-  type MigrationResult
+  type MigrationResult,
+  type MigrationDrift
 } from './Migration';
 
 export {
@@ -20,3 +23,14 @@ export {
   type ColumnDefinition,
   type IndexDefinition
 } from './SchemaBuilder';
+
+export {
+  diffModels,
+  diffTable,
+  introspectTable,
+  loadModels,
+  renderMigration,
+  type ModelSchemaSource,
+  type TableDiff,
+  type TableSnapshot
+} from './SchemaDiff';
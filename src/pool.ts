@@ -560,6 +560,8 @@ export interface RetryConfig {
   baseDelay?: number;
   maxDelay?: number;
   factor?: number;
+  /** Return false to rethrow the error without retrying (default: retry every error) */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
 }
 
 /**
@@ -573,7 +575,8 @@ export async function withRetry<T>(
     maxRetries = 3,
     baseDelay = 100,
     maxDelay = 5000,
-    factor = 2
+    factor = 2,
+    shouldRetry = () => true
   } = config;
   
   let lastError: Error | null = null;
@@ -584,6 +587,10 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
       
+      if (!shouldRetry(lastError, attempt)) {
+        throw lastError;
+      }
+      
       if (attempt < maxRetries) {
         const delay = Math.min(baseDelay * Math.pow(factor, attempt), maxDelay);
         await new Promise(resolve => setTimeout(resolve, delay));
@@ -0,0 +1,189 @@
+// ============================================
+// SDBC - Populate
+// Resolves ref fields into referenced documents
+// ============================================
+
+import type {
+  DatabaseAdapter,
+  ISchema,
+  Model,
+  PopulateJoin,
+  PopulateOptions,
+  QueryFilter,
+  QueryOptions,
+  SchemaFieldDefinition
+} from './types';
+
+type ModelResolver = (name: string) => Model | undefined;
+
+export interface ResolvedPopulate {
+  path: string;
+  model: Model;
+  isArray: boolean;
+  select?: string[];
+  match?: QueryFilter;
+}
+
+export interface PopulatePlan {
+  /** Adapter tarafından JOIN ile çözülecek alanlar */
+  joins: PopulateJoin[];
+  /** $in ile toplu sorgulanacak alanlar */
+  batched: ResolvedPopulate[];
+}
+
+/**
+ * Populate seçeneğini PopulateOptions listesine çevir
+ * 'author tags' gibi boşlukla ayrılmış string'ler desteklenir
+ */
+export function normalizePopulate(populate: QueryOptions['populate']): PopulateOptions[] {
+  if (!populate) return [];
+
+  const items = Array.isArray(populate) ? populate : [populate];
+  const result: PopulateOptions[] = [];
+
+  for (const item of items) {
+    if (typeof item === 'string') {
+      item.split(' ').filter(Boolean).forEach(path => result.push({ path }));
+    } else {
+      result.push(item);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Select ifadesini sütun listesine çevir (_id her zaman dahil)
+ */
+function selectToFields(schema: ISchema, select?: string | string[]): string[] {
+  const allFields = ['_id', ...Object.keys(schema.definition).filter(k => k !== '_id')];
+  if (!select) return allFields;
+
+  const tokens = Array.isArray(select) ? select : select.split(' ').filter(Boolean);
+  const included = tokens.filter(t => !t.startsWith('-'));
+  const excluded = new Set(tokens.filter(t => t.startsWith('-')).map(t => t.slice(1)));
+
+  if (included.length > 0) {
+    return Array.from(new Set(['_id', ...included]));
+  }
+
+  return allFields.filter(f => f === '_id' || !excluded.has(f));
+}
+
+/**
+ * Populate seçeneklerini schema'daki ref tanımlarıyla eşleştir
+ */
+export function resolvePopulate(
+  schema: ISchema,
+  populate: QueryOptions['populate'],
+  resolveModel: ModelResolver
+): ResolvedPopulate[] {
+  return normalizePopulate(populate).map(opts => {
+    const def = schema.definition[opts.path] as SchemaFieldDefinition | undefined;
+    const modelName = opts.model || def?.ref;
+
+    if (!modelName) {
+      throw new Error(`Cannot populate path '${opts.path}': no ref defined in schema`);
+    }
+
+    const refModel = resolveModel(modelName);
+    if (!refModel) {
+      throw new Error(`Cannot populate path '${opts.path}': model '${modelName}' is not registered`);
+    }
+
+    return {
+      path: opts.path,
+      model: refModel,
+      isArray: def?.type === Array,
+      select: opts.select ? selectToFields(refModel.schema, opts.select) : undefined,
+      match: opts.match
+    };
+  });
+}
+
+/**
+ * Populate işlemlerini JOIN ve toplu sorgu olarak ayır
+ * Tekil ve match içermeyen ref'ler JOIN destekleyen SQL adapter'larında tek sorguda çözülür
+ */
+export async function planPopulate(
+  adapter: DatabaseAdapter,
+  schema: ISchema,
+  populate: QueryOptions['populate'],
+  resolveModel: ModelResolver
+): Promise<PopulatePlan> {
+  const plan: PopulatePlan = { joins: [], batched: [] };
+  const resolved = resolvePopulate(schema, populate, resolveModel);
+
+  for (const item of resolved) {
+    // Referans tablosunun var olduğundan emin ol
+    await adapter.createCollection(item.model.collectionName, item.model.schema);
+
+    const canJoin = adapter.capabilities.joins && adapter.name !== 'mongodb' && !item.isArray && !item.match;
+
+    if (canJoin) {
+      plan.joins.push({
+        path: item.path,
+        collection: item.model.collectionName,
+        columns: item.select || selectToFields(item.model.schema)
+      });
+    } else {
+      plan.batched.push(item);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Ref alanlarını $in ile toplu sorgulayarak doldur
+ * N doküman için alan başına tek sorgu çalışır
+ */
+export async function populateBatched(
+  adapter: DatabaseAdapter,
+  rows: Record<string, unknown>[],
+  batched: ResolvedPopulate[]
+): Promise<void> {
+  for (const item of batched) {
+    const ids = new Set<string>();
+
+    for (const row of rows) {
+      const value = row[item.path];
+      const values = item.isArray && Array.isArray(value) ? value : [value];
+      for (const id of values) {
+        if (id !== undefined && id !== null) ids.add(String(id));
+      }
+    }
+
+    if (ids.size === 0) continue;
+
+    const idFilter: QueryFilter = { _id: { $in: Array.from(ids) } };
+    const filter = item.match ? { $and: [item.match, idFilter] } : idFilter;
+    const refs = await adapter.find(item.model.collectionName, filter, { select: item.select });
+    const byId = new Map(refs.map(ref => [String(ref._id), ref]));
+
+    for (const row of rows) {
+      const value = row[item.path];
+
+      if (item.isArray) {
+        row[item.path] = Array.isArray(value)
+          ? value.map(id => byId.get(String(id))).filter(Boolean)
+          : [];
+      } else if (value !== undefined && value !== null) {
+        row[item.path] = byId.get(String(value)) ?? null;
+      }
+    }
+  }
+}
+
+/**
+ * Populate edilmiş değeri tekrar id'ye çevir (kaydetmeden önce)
+ */
+export function depopulate(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(v => depopulate(v));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date) && '_id' in value) {
+    return (value as Record<string, unknown>)._id;
+  }
+  return value;
+}
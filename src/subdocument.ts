@@ -0,0 +1,424 @@
+// ============================================
+// SDBC - Subdocument Storage
+// Maps flattened subdocuments to separate SQL columns
+// ============================================
+
+import { Schema } from './Schema';
+import type {
+  BulkWriteOperation,
+  DatabaseAdapter,
+  FindOneAndDeleteOptions,
+  GroupStage,
+  ISchema,
+  PipelineStage,
+  QueryFilter,
+  QueryOptions,
+  SchemaDefinition,
+  SchemaFieldDefinition,
+  UpdateFilter
+} from './types';
+
+interface FlatColumn {
+  /** Sütun adı: address_city */
+  column: string;
+  /** Doküman içindeki yol: ['address', 'city'] */
+  path: string[];
+}
+
+const storageSchemas = new WeakMap<ISchema, ISchema>();
+
+/**
+ * flatten: true olan alt doküman alanlarının sütunlarını listele
+ */
+function flatColumns(schema: ISchema, prefix: string[] = []): FlatColumn[] {
+  const columns: FlatColumn[] = [];
+
+  for (const [key, field] of Object.entries(schema.definition)) {
+    const def = field as SchemaFieldDefinition;
+    if (!def.flatten || !def.schema) continue;
+
+    columns.push(...subdocumentColumns(def.schema, [...prefix, key]));
+  }
+
+  return columns;
+}
+
+/**
+ * Alt doküman schema'sının tüm alanlarını sütun olarak aç
+ */
+function subdocumentColumns(schema: ISchema, path: string[]): FlatColumn[] {
+  const columns: FlatColumn[] = [];
+
+  if (schema.options._id !== false) {
+    columns.push({ column: [...path, '_id'].join('_'), path: [...path, '_id'] });
+  }
+
+  for (const [key, field] of Object.entries(schema.definition)) {
+    const def = field as SchemaFieldDefinition;
+    if (def.flatten && def.schema) {
+      columns.push(...subdocumentColumns(def.schema, [...path, key]));
+    } else {
+      columns.push({ column: [...path, key].join('_'), path: [...path, key] });
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Yoldaki alan tanımını bul
+ */
+function fieldAt(schema: ISchema, path: string[]): SchemaFieldDefinition {
+  let current = schema;
+  let def: SchemaFieldDefinition = { type: String };
+
+  for (const key of path) {
+    def = (current.definition[key] as SchemaFieldDefinition | undefined) ?? { type: String };
+    if (def.schema) current = def.schema;
+  }
+
+  return def;
+}
+
+/**
+ * SQL tablosu için flatten edilmiş schema'yı oluştur
+ * Flatten alanı yoksa aynı schema döner
+ */
+export function toStorageSchema(schema: ISchema): ISchema {
+  const cached = storageSchemas.get(schema);
+  if (cached) return cached;
+
+  const columns = flatColumns(schema);
+  if (columns.length === 0) return schema;
+
+  const roots = new Set(columns.map(c => c.path[0]));
+  const definition: SchemaDefinition = {};
+
+  for (const [key, field] of Object.entries(schema.definition)) {
+    if (!roots.has(key)) {
+      definition[key] = field;
+    }
+  }
+
+  for (const { column, path } of columns) {
+    const def = fieldAt(schema, path);
+    // Üst alan zorunlu değilse sütun NULL olabilmeli
+    const required = path.slice(0, -1).every((_, i) => fieldAt(schema, path.slice(0, i + 1)).required);
+    definition[column] = { ...def, required: required && def.required };
+  }
+
+  const storage = new Schema(definition, { ...schema.options, timestamps: false });
+  storageSchemas.set(schema, storage);
+  return storage;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current = target;
+  for (const key of path.slice(0, -1)) {
+    if (current[key] === null || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[path[path.length - 1]] = value;
+}
+
+/**
+ * 'address' veya 'address.city' gibi bir yolu sütun değerlerine aç
+ * Yol flatten edilmiş bir alana ait değilse null döner
+ */
+function expandPath(columns: FlatColumn[], key: string, value: unknown): Record<string, unknown> | null {
+  const segments = key.split('.');
+  const matched = columns.filter(c => segments.every((s, i) => c.path[i] === s));
+  if (matched.length === 0) return null;
+
+  const result: Record<string, unknown> = {};
+  for (const { column, path } of matched) {
+    result[column] = getPath(value, path.slice(segments.length)) ?? null;
+  }
+  return result;
+}
+
+/**
+ * Yolu tek bir sütun adına çevir (tam eşleşme yoksa olduğu gibi döner)
+ */
+function columnFor(columns: FlatColumn[], key: string): string {
+  return columns.find(c => c.path.join('.') === key)?.column ?? key;
+}
+
+function flattenDocument(columns: FlatColumn[], doc: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...doc };
+  const roots = new Set(columns.map(c => c.path[0]));
+
+  for (const root of roots) {
+    if (!(root in result)) continue;
+    Object.assign(result, expandPath(columns, root, result[root]));
+    delete result[root];
+  }
+
+  return result;
+}
+
+function unflattenRow(columns: FlatColumn[], row: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...row };
+
+  for (const { column, path } of columns) {
+    if (!(column in result)) continue;
+
+    const value = result[column];
+    delete result[column];
+    if (value !== null && value !== undefined) {
+      setPath(result, path, value);
+    }
+  }
+
+  return result;
+}
+
+function mapFilter(columns: FlatColumn[], filter: QueryFilter): QueryFilter {
+  const result: QueryFilter = {};
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$or' || key === '$and') {
+      result[key] = (condition as QueryFilter[]).map(f => mapFilter(columns, f));
+    } else {
+      result[columnFor(columns, key)] = condition;
+    }
+  }
+
+  return result;
+}
+
+function mapOptions(columns: FlatColumn[], options?: QueryOptions): QueryOptions | undefined {
+  if (!options) return options;
+
+  const result = { ...options };
+
+  if (options.sort) {
+    result.sort = Object.fromEntries(
+      Object.entries(options.sort).map(([key, order]) => [columnFor(columns, key), order])
+    );
+  }
+
+  if (options.select) {
+    const tokens = typeof options.select === 'string'
+      ? options.select.split(' ').filter(Boolean)
+      : Array.isArray(options.select)
+        ? options.select
+        : Object.entries(options.select).map(([key, v]) => (v === 0 ? `-${key}` : key));
+
+    result.select = tokens.flatMap(token => {
+      const exclude = token.startsWith('-');
+      const key = exclude ? token.slice(1) : token;
+      const expanded = expandPath(columns, key, undefined);
+      const names = expanded ? Object.keys(expanded) : [key];
+      return names.map(name => (exclude ? `-${name}` : name));
+    }).join(' ');
+  }
+
+  return result;
+}
+
+/**
+ * findOneAndUpdate/findOneAndDelete seçeneklerindeki sort ve projection'ı sütunlara çevir
+ */
+function mapModifyOptions<O extends FindOneAndDeleteOptions>(columns: FlatColumn[], options?: O): O | undefined {
+  if (!options) return options;
+
+  const mapped = mapOptions(columns, { sort: options.sort, select: options.projection });
+  return { ...options, sort: mapped?.sort, projection: mapped?.select };
+}
+
+function mapUpdate(columns: FlatColumn[], update: UpdateFilter): UpdateFilter {
+  const hasOperators = Object.keys(update).some(k => k.startsWith('$'));
+  const ops = (hasOperators ? update : { $set: update }) as Record<string, Record<string, unknown>>;
+  const result: Record<string, Record<string, unknown>> = {};
+
+  for (const [op, fields] of Object.entries(ops)) {
+    result[op] = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      const expanded = op === '$set' || op === '$setOnInsert' || op === '$unset' ? expandPath(columns, key, value) : null;
+
+      if (!expanded) {
+        result[op][columnFor(columns, key)] = value;
+      } else if (op === '$unset') {
+        Object.keys(expanded).forEach(column => { result[op][column] = ''; });
+      } else {
+        Object.assign(result[op], expanded);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Aggregate pipeline'ındaki alan referanslarını sütunlara çevir
+ * $group/$project'ten sonraki aşamalar bu aşamaların çıktısına baktığı için olduğu gibi kalır
+ */
+function mapPipeline(columns: FlatColumn[], pipeline: PipelineStage[]): PipelineStage[] {
+  const ref = (value: unknown) => (typeof value === 'string' && value.startsWith('$')
+    ? `$${columnFor(columns, value.slice(1))}`
+    : value);
+  const refs = (value: Record<string, unknown>) => Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [key, ref(v)])
+  );
+  let reshaped = false;
+
+  return pipeline.map((stage): PipelineStage => {
+    if (reshaped) return stage;
+
+    if ('$match' in stage) return { $match: mapFilter(columns, stage.$match) };
+    if ('$sort' in stage) return { $sort: mapOptions(columns, { sort: stage.$sort })!.sort! };
+
+    if ('$group' in stage) {
+      reshaped = true;
+      const group: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(stage.$group)) {
+        group[key] = value !== null && typeof value === 'object' ? refs(value) : ref(value);
+      }
+      return { $group: group as GroupStage };
+    }
+
+    if ('$project' in stage) {
+      reshaped = true;
+      const project: Record<string, 0 | 1 | boolean | string> = {};
+      for (const [key, value] of Object.entries(stage.$project)) {
+        const column = columnFor(columns, key);
+        if (typeof value === 'string') project[key] = ref(value) as string;
+        // Dahil edilen alan çıktıda yol adıyla kalır
+        else if (value === 1 || value === true) project[key] = column === key ? value : `$${column}`;
+        else project[column] = value;
+      }
+      return { $project: project };
+    }
+
+    return stage;
+  });
+}
+
+/**
+ * bulkWrite işleminin filtre, update ve dokümanlarını flatten sütunlara çevir
+ */
+function mapBulkOperation(columns: FlatColumn[], op: BulkWriteOperation): BulkWriteOperation {
+  if ('insertOne' in op) {
+    return { insertOne: { document: flattenDocument(columns, op.insertOne.document) } };
+  }
+  if ('updateOne' in op) {
+    return { updateOne: { ...op.updateOne, filter: mapFilter(columns, op.updateOne.filter), update: mapUpdate(columns, op.updateOne.update) } };
+  }
+  if ('updateMany' in op) {
+    return { updateMany: { ...op.updateMany, filter: mapFilter(columns, op.updateMany.filter), update: mapUpdate(columns, op.updateMany.update) } };
+  }
+  if ('replaceOne' in op) {
+    return {
+      replaceOne: {
+        ...op.replaceOne,
+        filter: mapFilter(columns, op.replaceOne.filter),
+        replacement: flattenDocument(columns, op.replaceOne.replacement)
+      }
+    };
+  }
+  if ('deleteOne' in op) {
+    return { deleteOne: { filter: mapFilter(columns, op.deleteOne.filter) } };
+  }
+  return { deleteMany: { filter: mapFilter(columns, op.deleteMany.filter) } };
+}
+
+/**
+ * Model'in koleksiyonu için flatten eşlemesi yapan adapter döndür
+ * MongoDB'de ve flatten alanı olmayan schema'larda adapter olduğu gibi döner
+ */
+export function withStorageMapping(adapter: DatabaseAdapter, collection: string, schema: ISchema): DatabaseAdapter {
+  if (adapter.name === 'mongodb') return adapter;
+
+  const columns = flatColumns(schema);
+  if (columns.length === 0) return adapter;
+
+  const own = (name: string) => name === collection;
+  const unflatten = (row: Record<string, unknown>) => unflattenRow(columns, row);
+
+  return {
+    name: adapter.name,
+    capabilities: adapter.capabilities,
+    connect: (uri, options, replication) => adapter.connect(uri, options, replication),
+    disconnect: () => adapter.disconnect(),
+    isConnected: () => adapter.isConnected(),
+
+    createCollection: (name, s) => adapter.createCollection(name, own(name) ? toStorageSchema(schema) : s),
+    dropCollection: name => adapter.dropCollection(name),
+
+    insertOne: async (name, doc) => own(name)
+      ? unflatten(await adapter.insertOne(name, flattenDocument(columns, doc)))
+      : adapter.insertOne(name, doc),
+    insertMany: async (name, docs) => own(name)
+      ? (await adapter.insertMany(name, docs.map(doc => flattenDocument(columns, doc)))).map(unflatten)
+      : adapter.insertMany(name, docs),
+
+    find: async (name, filter, options) => own(name)
+      ? (await adapter.find(name, mapFilter(columns, filter), mapOptions(columns, options))).map(unflatten)
+      : adapter.find(name, filter, options),
+    findOne: async (name, filter, options) => {
+      if (!own(name)) return adapter.findOne(name, filter, options);
+      const row = await adapter.findOne(name, mapFilter(columns, filter), mapOptions(columns, options));
+      return row ? unflatten(row) : null;
+    },
+    findCursor: (name, filter, options) => {
+      if (!own(name)) return adapter.findCursor(name, filter, options);
+      const rows = adapter.findCursor(name, mapFilter(columns, filter), mapOptions(columns, options));
+      return (async function* () {
+        for await (const row of rows) yield unflatten(row);
+      })();
+    },
+
+    updateOne: (name, filter, update, options) => own(name)
+      ? adapter.updateOne(name, mapFilter(columns, filter), mapUpdate(columns, update), options)
+      : adapter.updateOne(name, filter, update, options),
+    updateMany: (name, filter, update, options) => own(name)
+      ? adapter.updateMany(name, mapFilter(columns, filter), mapUpdate(columns, update), options)
+      : adapter.updateMany(name, filter, update, options),
+
+    deleteOne: (name, filter) => adapter.deleteOne(name, own(name) ? mapFilter(columns, filter) : filter),
+    deleteMany: (name, filter) => adapter.deleteMany(name, own(name) ? mapFilter(columns, filter) : filter),
+    findOneAndUpdate: async (name, filter, update, options) => {
+      if (!own(name)) return adapter.findOneAndUpdate(name, filter, update, options);
+      const row = await adapter.findOneAndUpdate(
+        name,
+        mapFilter(columns, filter),
+        mapUpdate(columns, update),
+        mapModifyOptions(columns, options)
+      );
+      return row ? unflatten(row) : null;
+    },
+    findOneAndDelete: async (name, filter, options) => {
+      if (!own(name)) return adapter.findOneAndDelete(name, filter, options);
+      const row = await adapter.findOneAndDelete(name, mapFilter(columns, filter), mapModifyOptions(columns, options));
+      return row ? unflatten(row) : null;
+    },
+    countDocuments: (name, filter) => adapter.countDocuments(name, own(name) ? mapFilter(columns, filter) : filter),
+
+    aggregate: async (name, pipeline) => {
+      if (!own(name)) return adapter.aggregate(name, pipeline);
+      const rows = await adapter.aggregate(name, mapPipeline(columns, pipeline));
+      // $group/$project yoksa satırlar tablonun kendi satırlarıdır
+      const reshaped = pipeline.some(stage => '$group' in stage || '$project' in stage);
+      return reshaped ? rows : rows.map(unflatten);
+    },
+
+    bulkWrite: (name, operations, options) => adapter.bulkWrite(
+      name,
+      own(name) ? operations.map(op => mapBulkOperation(columns, op)) : operations,
+      options
+    )
+  };
+}
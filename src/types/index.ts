@@ -3,6 +3,8 @@
 // Type Definitions
 // ============================================
 
+import type { Transaction } from '../Transaction';
+
 // Schema Types
 export type SchemaFieldType = 
   | typeof String 
@@ -15,23 +17,53 @@ export type SchemaFieldType =
   | 'ObjectId'
   | 'Mixed';
 
+/** Özel hata mesajlı validator: required: [true, 'İsim zorunlu'] */
+export type ValidatorWithMessage<T> = T | [T, string];
+
+export type ValidatorFunction = (value: unknown) => boolean | Promise<boolean>;
+
 export interface SchemaFieldDefinition {
-  type: SchemaFieldType;
-  required?: boolean;
+  type: SchemaFieldType | ISchema | SchemaField[] | SchemaDefinition;
+  required?: ValidatorWithMessage<boolean>;
   unique?: boolean;
   default?: unknown;
   ref?: string;
   index?: boolean;
-  enum?: unknown[];
-  min?: number;
-  max?: number;
-  minlength?: number;
-  maxlength?: number;
-  match?: RegExp;
-  validate?: (value: unknown) => boolean | Promise<boolean>;
+  enum?: unknown[] | { values: unknown[]; message?: string };
+  min?: ValidatorWithMessage<number>;
+  max?: ValidatorWithMessage<number>;
+  minlength?: ValidatorWithMessage<number>;
+  maxlength?: ValidatorWithMessage<number>;
+  match?: ValidatorWithMessage<RegExp>;
+  validate?: ValidatorFunction | { validator: ValidatorFunction; message?: string };
+  /** Alt doküman schema'sı (iç içe obje veya Schema) */
+  schema?: ISchema;
+  /** Tipli dizi eleman tanımı ([String], [CommentSchema]) */
+  of?: SchemaFieldDefinition;
+  /** SQL'de alt dokümanı JSON yerine ayrı sütunlarda sakla (address_city) */
+  flatten?: boolean;
 }
 
-export type SchemaField = SchemaFieldType | SchemaFieldDefinition;
+// Validation Errors
+export type ValidationErrorKind =
+  | 'required'
+  | 'enum'
+  | 'min'
+  | 'max'
+  | 'minlength'
+  | 'maxlength'
+  | 'match'
+  | 'type'
+  | 'custom';
+
+export interface FieldValidationError {
+  kind: ValidationErrorKind;
+  path: string;
+  value: unknown;
+  message: string;
+}
+
+export type SchemaField = SchemaFieldType | SchemaFieldDefinition | ISchema | SchemaField[] | SchemaDefinition;
 
 export interface SchemaDefinition {
   [key: string]: SchemaField;
@@ -42,8 +74,62 @@ export interface SchemaOptions {
   collection?: string;
   strict?: boolean;
   versionKey?: boolean | string;
+  /** Alt doküman olarak kullanıldığında _id üret (varsayılan: true) */
+  _id?: boolean;
 }
 
+// Schema Type Inference
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Tek bir alan tanımını TypeScript tipine çevir */
+type InferField<F> =
+  F extends StringConstructor ? string
+  : F extends NumberConstructor ? number
+  : F extends BooleanConstructor ? boolean
+  : F extends DateConstructor ? Date
+  : F extends BufferConstructor ? Buffer
+  : F extends 'ObjectId' ? string
+  : F extends 'Mixed' ? any
+  : F extends ArrayConstructor ? unknown[]
+  : F extends ObjectConstructor ? Record<string, unknown>
+  : F extends { readonly __infer?: { definition: infer D; options: infer O } } ? InferDefinition<D, O>
+  : F extends readonly [] ? unknown[]
+  : F extends readonly (infer E)[] ? InferField<E>[]
+  : F extends { enum: readonly (infer E)[] } ? E
+  : F extends { enum: { values: readonly (infer E)[] } } ? E
+  : F extends { type: infer T } ? InferField<T>
+  : F extends SchemaDefinition ? InferDefinition<F, { _id: false }>
+  : unknown;
+
+/** required: true / [true, '...'] veya default olan alanlar her zaman dolu */
+type RequiredKeys<D> = {
+  [K in keyof D]: D[K] extends { required: true | readonly [true, string] } | { default: {} } ? K : never;
+}[keyof D];
+
+type InferDefinition<D, O> = Simplify<
+  { -readonly [K in RequiredKeys<D>]: InferField<D[K]> }
+  & { -readonly [K in Exclude<keyof D, RequiredKeys<D>>]?: InferField<D[K]> }
+  & (O extends { _id: false } ? {} : { _id: string })
+  & (O extends { timestamps: true } ? { createdAt: Date; updatedAt: Date } : {})
+>;
+
+/**
+ * Schema tanımından doküman tipini çıkar
+ *
+ * @example
+ * ```ts
+ * type User = InferSchemaType<typeof UserSchema>;
+ * ```
+ */
+export type InferSchemaType<S> = S extends { readonly __infer?: { definition: infer D; options: infer O } }
+  ? InferDefinition<D, O>
+  : never;
+
+/** model() için schema'dan Document tipi (tanım literal değilse düz Document) */
+export type SchemaDocument<S> = S extends { readonly __infer?: { definition: infer D } }
+  ? string extends keyof D ? Document : InferSchemaType<S> & Document
+  : Document;
+
 // Query Operators
 export interface QueryOperators<T = unknown> {
   $eq?: T;
@@ -62,16 +148,96 @@ export interface QueryOperators<T = unknown> {
 
 export type QueryCondition<T = unknown> = T | QueryOperators<T>;
 
-export interface QueryFilter {
+/** Tipsiz filtre: her anahtarı kabul eder (tip kontrolünden kaçış için) */
+export interface UntypedQueryFilter {
   [key: string]: QueryCondition;
 }
 
-export interface QueryOptions {
+/** Index signature ve document methodları hariç alan adları */
+type FieldKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K extends keyof DocumentMethods ? never : K]: 0;
+};
+
+/** Alt alanlarına 'address.city' gibi path ile erişilebilen alanlar */
+type NestedKeys<T> = {
+  [K in FieldKeys<T>]: NonNullable<T[K]> extends Date | Buffer ? never : NonNullable<T[K]> extends object ? K : never;
+}[FieldKeys<T>];
+
+type NestedPaths<T, V> = { [K in NestedKeys<T> as `${K & string}.${string}`]?: V };
+
+type ArrayElement<V> = NonNullable<V> extends readonly (infer E)[] ? E : never;
+
+/** Dizi alanlarında tek eleman ile de eşleşilebilir ({ tags: 'a' }) */
+type FieldValue<V> = NonNullable<V> extends readonly unknown[] ? NonNullable<V> | ArrayElement<V> : NonNullable<V>;
+
+export type FieldCondition<V> = FieldValue<V> | null | QueryOperators<FieldValue<V>>;
+
+/** Dokümanın alanlarıyla sınırlı filtre */
+export type TypedQueryFilter<T> = { [K in FieldKeys<T>]?: FieldCondition<T[K]> }
+  & NestedPaths<T, QueryCondition>
+  & { $or?: TypedQueryFilter<T>[]; $and?: TypedQueryFilter<T>[] };
+
+/**
+ * Sorgu filtresi
+ * T düz Document (veya verilmemiş) ise tipsiz forma döner
+ */
+export type QueryFilter<T = Document> = Document extends T ? UntypedQueryFilter : TypedQueryFilter<T>;
+
+export interface SessionOptions {
+  /** İşlemi bu transaction'ın bağlantısında/session'ında çalıştır */
+  session?: Transaction;
+}
+
+export interface QueryOptions extends SessionOptions {
   limit?: number;
   skip?: number;
   sort?: Record<string, 1 | -1>;
   select?: string | string[] | Record<string, 0 | 1>;
   populate?: string | PopulateOptions | (string | PopulateOptions)[];
+  /** Dokümanları sarmalamadan düz adapter satırları döndür */
+  lean?: boolean;
+  /** SQL adapter'ları için JOIN ile çözülecek populate'ler (Model katmanı doldurur) */
+  joins?: PopulateJoin[];
+  /** Okumayı primary'ye zorla (read-your-writes) */
+  read?: ReadPreference;
+  /** Cursor'da veritabanından tek seferde çekilecek kayıt sayısı */
+  batchSize?: number;
+}
+
+export interface CursorOptions {
+  /** Veritabanından tek seferde çekilecek kayıt sayısı (varsayılan: 100) */
+  batchSize?: number;
+}
+
+export interface PaginateOptions extends SessionOptions {
+  /** Sıralama; eşitlikleri ayırmak için sona _id eklenir (varsayılan: { _id: 1 }) */
+  sort?: Record<string, 1 | -1>;
+  /** Sayfa boyutu (varsayılan: 20) */
+  first?: number;
+  /** Bu cursor'dan sonraki kayıtlar */
+  after?: string;
+  /** Bu cursor'dan önceki kayıtlar */
+  before?: string;
+  populate?: string | PopulateOptions | (string | PopulateOptions)[];
+  lean?: boolean;
+  read?: ReadPreference;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface PaginateEdge<T> {
+  node: T;
+  cursor: string;
+}
+
+export interface PaginateResult<T> {
+  edges: PaginateEdge<T>[];
+  pageInfo: PageInfo;
 }
 
 export interface PopulateOptions {
@@ -81,6 +247,37 @@ export interface PopulateOptions {
   match?: QueryFilter;
 }
 
+export interface PopulateJoin {
+  /** Referans id'sini tutan yerel alan */
+  path: string;
+  /** Referans verilen tablo/collection */
+  collection: string;
+  /** JOIN ile getirilecek sütunlar (_id dahil) */
+  columns: string[];
+}
+
+// Aggregation
+export type AggregateAccumulator =
+  | { $sum: string | number }
+  | { $avg: string }
+  | { $min: string }
+  | { $max: string }
+  | { $count: Record<string, never> };
+
+export interface GroupStage {
+  /** Gruplama anahtarı: '$field', { alias: '$field' } veya null (tüm kayıtlar) */
+  _id: string | null | Record<string, string>;
+  [field: string]: AggregateAccumulator | string | null | Record<string, string>;
+}
+
+export type PipelineStage =
+  | { $match: QueryFilter }
+  | { $group: GroupStage }
+  | { $sort: Record<string, 1 | -1> }
+  | { $limit: number }
+  | { $skip: number }
+  | { $project: Record<string, 0 | 1 | boolean | string> };
+
 // Update Operations
 export interface UpdateOperators {
   $set?: Record<string, unknown>;
@@ -89,9 +286,36 @@ export interface UpdateOperators {
   $push?: Record<string, unknown>;
   $pull?: Record<string, unknown>;
   $addToSet?: Record<string, unknown>;
+  /** Sadece upsert ile yeni satır eklenirken yazılır */
+  $setOnInsert?: Record<string, unknown>;
 }
 
-export type UpdateFilter = UpdateOperators | Record<string, unknown>;
+/** Tipsiz update (tip kontrolünden kaçış için) */
+export type UntypedUpdateFilter = UpdateOperators | Record<string, unknown>;
+
+type NumericKeys<T> = { [K in FieldKeys<T>]: NonNullable<T[K]> extends number ? K : never }[FieldKeys<T>];
+type ArrayKeys<T> = { [K in FieldKeys<T>]: NonNullable<T[K]> extends readonly unknown[] ? K : never }[FieldKeys<T>];
+
+type SetFields<T> = { [K in FieldKeys<T>]?: T[K] } & NestedPaths<T, unknown>;
+
+/** Dokümanın alanlarıyla sınırlı update operatörleri */
+export type TypedUpdateOperators<T> = {
+  $set?: SetFields<T>;
+  $unset?: { [K in FieldKeys<T>]?: 1 | '' } & NestedPaths<T, 1 | ''>;
+  $inc?: { [K in NumericKeys<T>]?: number };
+  $push?: { [K in ArrayKeys<T>]?: ArrayElement<T[K]> | { $each: ArrayElement<T[K]>[] } };
+  $pull?: { [K in ArrayKeys<T>]?: ArrayElement<T[K]> | { $in: ArrayElement<T[K]>[] } };
+  $addToSet?: { [K in ArrayKeys<T>]?: ArrayElement<T[K]> | { $each: ArrayElement<T[K]>[] } };
+  $setOnInsert?: SetFields<T>;
+};
+
+/**
+ * Update: operatörler veya düz alanlar ($set kısayolu)
+ * T düz Document (veya verilmemiş) ise tipsiz forma döner
+ */
+export type UpdateFilter<T = Document> = Document extends T
+  ? UntypedUpdateFilter
+  : TypedUpdateOperators<T> | SetFields<T>;
 
 // Connection
 export type DatabaseProvider = 'mongodb' | 'postgres' | 'mysql' | 'sqlite';
@@ -100,6 +324,20 @@ export interface ConnectionOptions {
   provider: DatabaseProvider;
   uri: string;
   options?: Record<string, unknown>;
+  /** Okuma sorguları için replica URI'leri (PostgreSQL / MySQL) */
+  replicas?: string[];
+  /** Replica seçim stratejisi (varsayılan: 'round-robin') */
+  replicaSelection?: ReplicaSelection;
+}
+
+/** Okumanın gideceği sunucu: replica varsa varsayılan 'replica' */
+export type ReadPreference = 'primary' | 'replica';
+
+export type ReplicaSelection = 'round-robin' | 'least-latency';
+
+export interface ReplicationOptions {
+  replicas: string[];
+  selection?: ReplicaSelection;
 }
 
 export interface DatabaseCapabilities {
@@ -113,8 +351,8 @@ export interface DatabaseCapabilities {
 
 // Document
 export interface DocumentMethods {
-  save(): Promise<Document>;
-  remove(): Promise<void>;
+  save(options?: SessionOptions): Promise<Document>;
+  remove(options?: SessionOptions): Promise<void>;
   toJSON(): Record<string, unknown>;
   toObject(): Record<string, unknown>;
 }
@@ -126,6 +364,18 @@ export interface Document extends DocumentMethods {
   [key: string]: unknown;
 }
 
+/** lean() sonucu: save/remove gibi document methodları olmayan düz obje */
+export type LeanDocument<T> = {
+  [K in keyof T as K extends keyof DocumentMethods ? never : K]: T[K];
+};
+
+/** QueryBuilder sonucunu (T[] veya T | null) lean karşılığına çevir */
+export type LeanResult<R> = R extends (infer D)[]
+  ? LeanDocument<D>[]
+  : R extends null
+    ? null
+    : LeanDocument<R>;
+
 // Sync Options
 export interface SyncOptions {
   /** Tabloyu zorla yeniden oluştur (DİKKAT: veri kaybı!) */
@@ -143,35 +393,44 @@ export interface SyncResult {
 // Model
 export interface Model<T extends Document = Document> {
   modelName: string;
+  collectionName: string;
   schema: ISchema;
   
   // Sync - Tabloyu schema ile senkronize et
   sync(options?: SyncOptions): Promise<SyncResult>;
   
   // Create
-  create(doc: Partial<T>): Promise<T>;
-  create(docs: Partial<T>[]): Promise<T[]>;
-  create(docOrDocs: Partial<T> | Partial<T>[]): Promise<T | T[]>;
-  insertMany(docs: Partial<T>[]): Promise<T[]>;
+  create(doc: Partial<T>, options?: SessionOptions): Promise<T>;
+  create(docs: Partial<T>[], options?: SessionOptions): Promise<T[]>;
+  create(docOrDocs: Partial<T> | Partial<T>[], options?: SessionOptions): Promise<T | T[]>;
+  insertMany(docs: Partial<T>[], options?: SessionOptions): Promise<T[]>;
   
   // Read
-  find(filter?: QueryFilter, options?: QueryOptions): QueryBuilder<T[]>;
-  findOne(filter?: QueryFilter, options?: QueryOptions): QueryBuilder<T | null>;
+  find(filter?: QueryFilter<T>, options?: QueryOptions): QueryBuilder<T[]>;
+  findOne(filter?: QueryFilter<T>, options?: QueryOptions): QueryBuilder<T | null>;
   findById(id: string, options?: QueryOptions): QueryBuilder<T | null>;
-  countDocuments(filter?: QueryFilter): Promise<number>;
-  exists(filter: QueryFilter): Promise<boolean>;
+  countDocuments(filter?: QueryFilter<T>, options?: SessionOptions): Promise<number>;
+  exists(filter: QueryFilter<T>, options?: SessionOptions): Promise<boolean>;
+  /** Keyset (cursor) sayfalama */
+  paginate(filter?: QueryFilter<T>, options?: PaginateOptions): Promise<PaginateResult<T>>;
+  
+  // Aggregate
+  aggregate<R = Record<string, unknown>>(pipeline: PipelineStage[], options?: SessionOptions): Promise<R[]>;
   
   // Update
-  updateOne(filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult>;
-  updateMany(filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult>;
-  findOneAndUpdate(filter: QueryFilter, update: UpdateFilter, options?: FindOneAndUpdateOptions): Promise<T | null>;
-  findByIdAndUpdate(id: string, update: UpdateFilter, options?: FindOneAndUpdateOptions): Promise<T | null>;
+  updateOne(filter: QueryFilter<T>, update: UpdateFilter<T>, options?: UpdateOptions): Promise<UpdateResult>;
+  updateMany(filter: QueryFilter<T>, update: UpdateFilter<T>, options?: UpdateOptions): Promise<UpdateResult>;
+  findOneAndUpdate(filter: QueryFilter<T>, update: UpdateFilter<T>, options?: FindOneAndUpdateOptions): Promise<T | null>;
+  findByIdAndUpdate(id: string, update: UpdateFilter<T>, options?: FindOneAndUpdateOptions): Promise<T | null>;
   
   // Delete
-  deleteOne(filter: QueryFilter): Promise<DeleteResult>;
-  deleteMany(filter: QueryFilter): Promise<DeleteResult>;
-  findOneAndDelete(filter: QueryFilter): Promise<T | null>;
-  findByIdAndDelete(id: string): Promise<T | null>;
+  deleteOne(filter: QueryFilter<T>, options?: SessionOptions): Promise<DeleteResult>;
+  deleteMany(filter: QueryFilter<T>, options?: SessionOptions): Promise<DeleteResult>;
+  findOneAndDelete(filter: QueryFilter<T>, options?: FindOneAndDeleteOptions): Promise<T | null>;
+  findByIdAndDelete(id: string, options?: FindOneAndDeleteOptions): Promise<T | null>;
+  
+  // Bulk
+  bulkWrite(operations: BulkWriteOperation<T>[], options?: BulkWriteOptions): Promise<BulkWriteResult>;
 }
 
 export interface QueryBuilder<T> extends Promise<T> {
@@ -180,7 +439,12 @@ export interface QueryBuilder<T> extends Promise<T> {
   limit(n: number): QueryBuilder<T>;
   skip(n: number): QueryBuilder<T>;
   populate(options: string | PopulateOptions | (string | PopulateOptions)[]): QueryBuilder<T>;
-  lean(): QueryBuilder<T>;
+  lean(): QueryBuilder<LeanResult<T>>;
+  read(preference: ReadPreference): QueryBuilder<T>;
+  /** Sorguyu transaction içinde çalıştır */
+  session(trx: Transaction): QueryBuilder<T>;
+  /** Sonuçları tek tek akıtan cursor (sadece find) */
+  cursor(options?: CursorOptions): AsyncIterableIterator<T extends (infer D)[] ? D : NonNullable<T>>;
   exec(): Promise<T>;
 }
 
@@ -197,33 +461,131 @@ export interface DeleteResult {
   deletedCount: number;
 }
 
-export interface FindOneAndUpdateOptions {
+export interface UpdateOptions extends SessionOptions {
+  /** Eşleşen kayıt yoksa filtredeki eşitlikler + update değerleriyle yeni kayıt ekle */
+  upsert?: boolean;
+}
+
+export interface FindOneAndUpdateOptions extends SessionOptions {
+  /** true: güncellenmiş dokümanı döndür (varsayılan: güncellemeden önceki hali) */
   new?: boolean;
   upsert?: boolean;
   runValidators?: boolean;
+  /** Birden fazla kayıt eşleşirse hangisinin güncelleneceği */
+  sort?: Record<string, 1 | -1>;
+  /** Dönen dokümanın alanları (find'daki select ile aynı) */
+  projection?: QueryOptions['select'];
+}
+
+export interface FindOneAndDeleteOptions extends SessionOptions {
+  /** Birden fazla kayıt eşleşirse hangisinin silineceği */
+  sort?: Record<string, 1 | -1>;
+  /** Dönen dokümanın alanları (find'daki select ile aynı) */
+  projection?: QueryOptions['select'];
+}
+
+// Bulk Write
+export type BulkWriteOperation<T = Document> =
+  | { insertOne: { document: Partial<T> } }
+  | { updateOne: { filter: QueryFilter<T>; update: UpdateFilter<T>; upsert?: boolean } }
+  | { updateMany: { filter: QueryFilter<T>; update: UpdateFilter<T>; upsert?: boolean } }
+  | { replaceOne: { filter: QueryFilter<T>; replacement: Partial<T>; upsert?: boolean } }
+  | { deleteOne: { filter: QueryFilter<T> } }
+  | { deleteMany: { filter: QueryFilter<T> } };
+
+export interface BulkWriteOptions extends SessionOptions {
+  /** false: hatalı işlemi atlayıp devam et (varsayılan: true, ilk hatada tümü geri alınır) */
+  ordered?: boolean;
+}
+
+export interface BulkWriteOperationError {
+  /** İşlemin operations dizisindeki sırası */
+  index: number;
+  operation: string;
+  message: string;
+  error: Error;
+}
+
+export interface BulkWriteResult {
+  acknowledged: boolean;
+  insertedCount: number;
+  matchedCount: number;
+  modifiedCount: number;
+  deletedCount: number;
+  upsertedCount: number;
+  /** İşlem sırası -> eklenen _id */
+  insertedIds: Record<number, string>;
+  upsertedIds: Record<number, string>;
+  errors: BulkWriteOperationError[];
 }
 
 // Schema Interface
-export interface ISchema {
+export interface ISchema<TDef extends SchemaDefinition = SchemaDefinition, TOptions extends SchemaOptions = SchemaOptions> {
+  /** Yalnızca tip çıkarımı için, çalışma zamanında bulunmaz */
+  readonly __infer?: { definition: TDef; options: TOptions };
   definition: SchemaDefinition;
   options: SchemaOptions;
   methods: Record<string, Function>;
   statics: Record<string, Function>;
   virtuals: Map<string, VirtualDefinition>;
   hooks: {
-    pre: Map<string, HookFunction[]>;
-    post: Map<string, HookFunction[]>;
+    pre: Map<string, Array<HookFunction | QueryHookFunction>>;
+    post: Map<string, Array<HookFunction | QueryHookFunction>>;
   };
   
+  pre(event: QueryHookEvent, fn: QueryPreHookFunction): void;
   pre(event: HookEvent, fn: HookFunction): void;
+  post<E extends QueryHookEvent>(event: E, fn: QueryPostHookFunction<QueryHookResults[E]>): void;
   post(event: HookEvent, fn: HookFunction): void;
   virtual(name: string): VirtualBuilder;
   index(fields: Record<string, 1 | -1>, options?: IndexOptions): void;
+  applyDefaults(doc: Record<string, unknown>): Record<string, unknown>;
+  validate(doc: Record<string, unknown>): Promise<void>;
 }
 
 export type HookEvent = 'save' | 'remove' | 'validate' | 'find' | 'findOne' | 'updateOne' | 'deleteOne';
 export type HookFunction = (this: Document, next?: () => void) => void | Promise<void>;
 
+/** Doküman yerine sorgu üzerinde çalışan hook olayları */
+export type QueryHookEvent = 'find' | 'findOne' | 'updateOne' | 'deleteOne';
+
+/**
+ * Query hook'larında `this` olarak verilen bağlam
+ * Pre hook'lar filter/options/update alanlarını değiştirebilir
+ */
+export interface QueryContext {
+  op: QueryHookEvent;
+  model: string;
+  filter: QueryFilter;
+  options: QueryOptions;
+  update?: UpdateFilter;
+}
+
+/**
+ * Post query hook'larına verilen sonuç
+ */
+export interface QueryHookResults {
+  find: unknown[];
+  findOne: unknown;
+  updateOne: UpdateResult;
+  deleteOne: DeleteResult;
+}
+
+/**
+ * Pre query hook'u: (next)
+ */
+export type QueryPreHookFunction = (this: QueryContext, next: () => void) => void | Promise<void>;
+
+/**
+ * Post query hook'u: (result, next)
+ */
+export type QueryPostHookFunction<R = unknown> = (this: QueryContext, result: R, next: () => void) => void | Promise<void>;
+
+/**
+ * Saklanan query hook'u (post hook'ların sonuç tipi olaya göre değişir)
+ */
+export type QueryHookFunction = QueryPreHookFunction | QueryPostHookFunction<never>;
+
 export interface VirtualDefinition {
   get?: () => unknown;
   set?: (value: unknown) => void;
@@ -246,7 +608,7 @@ export interface DatabaseAdapter {
   name: DatabaseProvider;
   capabilities: DatabaseCapabilities;
   
-  connect(uri: string, options?: Record<string, unknown>): Promise<void>;
+  connect(uri: string, options?: Record<string, unknown>, replication?: ReplicationOptions): Promise<void>;
   disconnect(): Promise<void>;
   isConnected(): boolean;
   
@@ -254,20 +616,33 @@ export interface DatabaseAdapter {
   createCollection(name: string, schema: ISchema): Promise<void>;
   dropCollection(name: string): Promise<void>;
   
-  // CRUD
+  // CRUD (T verilirse filtre ve update dokümanın alanlarıyla sınırlanır)
   insertOne(collection: string, doc: Record<string, unknown>): Promise<Record<string, unknown>>;
   insertMany(collection: string, docs: Record<string, unknown>[]): Promise<Record<string, unknown>[]>;
   
-  find(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown>[]>;
-  findOne(collection: string, filter: QueryFilter, options?: QueryOptions): Promise<Record<string, unknown> | null>;
+  find<T = Document>(collection: string, filter: QueryFilter<T>, options?: QueryOptions): Promise<Record<string, unknown>[]>;
+  findOne<T = Document>(collection: string, filter: QueryFilter<T>, options?: QueryOptions): Promise<Record<string, unknown> | null>;
+  /** Sonuçları batchSize'lık parçalarla akıtır (backpressure: sonraki parça tüketilince çekilir) */
+  findCursor<T = Document>(collection: string, filter: QueryFilter<T>, options?: QueryOptions): AsyncIterable<Record<string, unknown>>;
+  
+  /** upsert: SQL'de INSERT ... ON CONFLICT / ON DUPLICATE KEY UPDATE, MongoDB'de native upsert */
+  updateOne<T = Document>(collection: string, filter: QueryFilter<T>, update: UpdateFilter<T>, options?: UpdateOptions): Promise<UpdateResult>;
+  updateMany<T = Document>(collection: string, filter: QueryFilter<T>, update: UpdateFilter<T>, options?: UpdateOptions): Promise<UpdateResult>;
+  
+  deleteOne<T = Document>(collection: string, filter: QueryFilter<T>): Promise<DeleteResult>;
+  deleteMany<T = Document>(collection: string, filter: QueryFilter<T>): Promise<DeleteResult>;
+  
+  /** Tek kaydı atomik olarak güncelle ve önceki (new: true ise sonraki) halini döndür */
+  findOneAndUpdate<T = Document>(collection: string, filter: QueryFilter<T>, update: UpdateFilter<T>, options?: FindOneAndUpdateOptions): Promise<Record<string, unknown> | null>;
+  /** Tek kaydı atomik olarak sil ve silinen halini döndür */
+  findOneAndDelete<T = Document>(collection: string, filter: QueryFilter<T>, options?: FindOneAndDeleteOptions): Promise<Record<string, unknown> | null>;
   
-  updateOne(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult>;
-  updateMany(collection: string, filter: QueryFilter, update: UpdateFilter): Promise<UpdateResult>;
+  countDocuments<T = Document>(collection: string, filter: QueryFilter<T>): Promise<number>;
   
-  deleteOne(collection: string, filter: QueryFilter): Promise<DeleteResult>;
-  deleteMany(collection: string, filter: QueryFilter): Promise<DeleteResult>;
+  aggregate(collection: string, pipeline: PipelineStage[]): Promise<Record<string, unknown>[]>;
   
-  countDocuments(collection: string, filter: QueryFilter): Promise<number>;
+  /** İşlemleri gruplayarak tek transaction içinde çalıştır (MongoDB'de native bulkWrite) */
+  bulkWrite(collection: string, operations: BulkWriteOperation[], options?: BulkWriteOptions): Promise<BulkWriteResult>;
 }
 
 // Connection Manager
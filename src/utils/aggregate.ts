@@ -0,0 +1,286 @@
+// ============================================
+// SDBC - Aggregation Compiler
+// Mongo-style pipeline to GROUP BY SQL conversion
+// ============================================
+
+import type { AggregateAccumulator, GroupStage, PipelineStage } from '../types';
+import { parseQueryFilter, toSQLWhere, toSQLFieldPath, type SQLProvider } from './query-parser';
+
+export interface AggregateDialect {
+  /** Nokta notasyonlu alanların JSON erişim sözdizimi */
+  provider: SQLProvider;
+  /** Tablo/sütun adını tırnakla */
+  quote: (name: string) => string;
+  /** Placeholder formatı: '$' ($1, $2) veya '?' */
+  paramPrefix: '$' | '?';
+  /** OFFSET'in LIMIT olmadan kullanılamadığı veritabanları için sınırsız LIMIT değeri */
+  unboundedLimit?: string;
+}
+
+export interface CompiledAggregation {
+  sql: string;
+  params: unknown[];
+  /** $sum/$avg/$count sütunları (string dönen driver'lar için sayıya çevrilir) */
+  numericFields: string[];
+  /** SQL'de ifade edilemeyen, sonuçtan çıkarılacak alanlar */
+  excludedFields: string[];
+}
+
+interface SelectLevel {
+  from: string;
+  columns: string[] | null;
+  where: string[];
+  groupBy: string[];
+  orderBy: string[];
+  limit?: number;
+  offset?: number;
+  /** SELECT listesi $group veya $project ile değişti mi */
+  reshaped: boolean;
+}
+
+// Compound _id alanları bu önekle seçilir, sonuçta { _id: { ... } } olarak birleştirilir
+const COMPOUND_ID_PREFIX = '_id__';
+
+/**
+ * '$field' referansını sütun adına çevir ('$address.city' JSON alanına erişir)
+ */
+function fieldRef(expr: unknown, dialect: AggregateDialect, numeric = false): string {
+  if (typeof expr === 'string' && expr.startsWith('$')) {
+    const field = expr.slice(1);
+    return field.includes('.')
+      ? toSQLFieldPath(field, dialect.provider, { sample: numeric ? 0 : undefined })
+      : dialect.quote(field);
+  }
+  throw new Error(`Unsupported aggregation expression: ${JSON.stringify(expr)}`);
+}
+
+/**
+ * Accumulator'ı SQL aggregate fonksiyonuna çevir
+ */
+function accumulatorToSQL(accumulator: AggregateAccumulator, dialect: AggregateDialect): string {
+  const [op, arg] = Object.entries(accumulator)[0] || [];
+
+  switch (op) {
+    case '$sum':
+      if (typeof arg === 'number') {
+        return arg === 1 ? 'COUNT(*)' : `COUNT(*) * ${arg}`;
+      }
+      return `SUM(${fieldRef(arg, dialect, true)})`;
+    case '$avg':
+      return `AVG(${fieldRef(arg, dialect, true)})`;
+    case '$min':
+      return `MIN(${fieldRef(arg, dialect)})`;
+    case '$max':
+      return `MAX(${fieldRef(arg, dialect)})`;
+    case '$count':
+      return 'COUNT(*)';
+    default:
+      throw new Error(`Unsupported accumulator: ${op}`);
+  }
+}
+
+/**
+ * Aggregation pipeline'ını SQL'e derle
+ * Her aşama mümkünse aynı SELECT seviyesine eklenir, değilse önceki sorgu alt sorguya sarılır
+ */
+export function compileAggregation(
+  tableName: string,
+  pipeline: PipelineStage[],
+  dialect: AggregateDialect
+): CompiledAggregation {
+  const q = dialect.quote;
+  const params: unknown[] = [];
+  const numericFields = new Set<string>();
+  const excludedFields = new Set<string>();
+  let subqueryCount = 0;
+
+  const newLevel = (from: string): SelectLevel => ({
+    from,
+    columns: null,
+    where: [],
+    groupBy: [],
+    orderBy: [],
+    reshaped: false
+  });
+
+  const render = (level: SelectLevel): string => {
+    let sql = `SELECT ${level.columns ? level.columns.join(', ') : '*'} FROM ${level.from}`;
+
+    if (level.where.length) sql += ` WHERE ${level.where.join(' AND ')}`;
+    if (level.groupBy.length) sql += ` GROUP BY ${level.groupBy.join(', ')}`;
+    if (level.orderBy.length) sql += ` ORDER BY ${level.orderBy.join(', ')}`;
+
+    if (level.limit !== undefined) {
+      sql += ` LIMIT ${level.limit}`;
+    } else if (level.offset && dialect.unboundedLimit) {
+      sql += ` LIMIT ${dialect.unboundedLimit}`;
+    }
+    if (level.offset) sql += ` OFFSET ${level.offset}`;
+
+    return sql;
+  };
+
+  let level = newLevel(q(tableName));
+
+  const wrap = () => {
+    level = newLevel(`(${render(level)}) ${q(`s${++subqueryCount}`)}`);
+  };
+
+  const isPaged = () => level.limit !== undefined || !!level.offset;
+
+  for (const stage of pipeline) {
+    const [op, spec] = Object.entries(stage)[0] || [];
+
+    switch (op) {
+      case '$match': {
+        if (level.reshaped || isPaged()) wrap();
+
+        const conditions = parseQueryFilter(spec as Record<string, unknown>);
+        const { where, params: whereParams } = toSQLWhere(
+          conditions,
+          dialect.paramPrefix,
+          params.length + 1,
+          dialect.provider
+        );
+        params.push(...whereParams);
+        level.where.push(`(${where})`);
+        break;
+      }
+
+      case '$group': {
+        if (level.reshaped || isPaged()) wrap();
+
+        const group = spec as GroupStage;
+        const columns: string[] = [];
+
+        if (group._id === null) {
+          columns.push(`NULL AS ${q('_id')}`);
+        } else if (typeof group._id === 'string') {
+          const ref = fieldRef(group._id, dialect);
+          columns.push(`${ref} AS ${q('_id')}`);
+          level.groupBy.push(ref);
+        } else {
+          for (const [alias, expr] of Object.entries(group._id)) {
+            const ref = fieldRef(expr, dialect);
+            columns.push(`${ref} AS ${q(COMPOUND_ID_PREFIX + alias)}`);
+            level.groupBy.push(ref);
+          }
+        }
+
+        for (const [name, accumulator] of Object.entries(group)) {
+          if (name === '_id') continue;
+          columns.push(`${accumulatorToSQL(accumulator as AggregateAccumulator, dialect)} AS ${q(name)}`);
+          // $min/$max kaynak sütunun tipini korur (string, tarih)
+          if (!('$min' in (accumulator as object)) && !('$max' in (accumulator as object))) {
+            numericFields.add(name);
+          }
+        }
+
+        // Gruplamadan önceki sıralamanın sonuca etkisi yok
+        level.orderBy = [];
+        level.columns = columns;
+        level.reshaped = true;
+        break;
+      }
+
+      case '$sort': {
+        if (isPaged()) wrap();
+
+        level.orderBy = Object.entries(spec as Record<string, 1 | -1>)
+          .map(([field, order]) => `${q(field)} ${order === 1 ? 'ASC' : 'DESC'}`);
+        break;
+      }
+
+      case '$skip': {
+        if (level.limit !== undefined) wrap();
+        level.offset = (level.offset || 0) + (spec as number);
+        break;
+      }
+
+      case '$limit': {
+        const limit = spec as number;
+        level.limit = level.limit === undefined ? limit : Math.min(level.limit, limit);
+        break;
+      }
+
+      case '$project': {
+        if (level.reshaped) wrap();
+
+        const columns: string[] = [];
+        let includeId = true;
+
+        for (const [field, value] of Object.entries(spec as Record<string, unknown>)) {
+          if (value === 0 || value === false) {
+            if (field === '_id') includeId = false;
+            else excludedFields.add(field);
+          } else if (typeof value === 'string') {
+            columns.push(`${fieldRef(value, dialect)} AS ${q(field)}`);
+          } else if (field !== '_id') {
+            columns.push(q(field));
+          }
+        }
+
+        if (columns.length > 0) {
+          if (includeId) columns.unshift(q('_id'));
+          level.columns = columns;
+          level.reshaped = true;
+          excludedFields.clear();
+        } else if (!includeId) {
+          excludedFields.add('_id');
+        }
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported aggregation stage: ${op}`);
+    }
+  }
+
+  let sql = render(level);
+  if (dialect.paramPrefix === '?') {
+    // MySQL/SQLite index'siz ? placeholder kullanır
+    sql = sql.replace(/\?\d+/g, '?');
+  }
+
+  return {
+    sql,
+    params,
+    numericFields: Array.from(numericFields),
+    excludedFields: Array.from(excludedFields)
+  };
+}
+
+/**
+ * SQL aggregation sonuçlarını MongoDB çıktı formatına getir
+ */
+export function normalizeAggregateRows(
+  rows: Record<string, unknown>[],
+  compiled: CompiledAggregation
+): Record<string, unknown>[] {
+  const numeric = new Set(compiled.numericFields);
+  const excluded = new Set(compiled.excludedFields);
+
+  return rows.map(row => {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(row)) {
+      if (excluded.has(key)) continue;
+
+      if (key.startsWith(COMPOUND_ID_PREFIX)) {
+        const id = (result._id ?? {}) as Record<string, unknown>;
+        id[key.slice(COMPOUND_ID_PREFIX.length)] = value;
+        result._id = id;
+        continue;
+      }
+
+      // pg COUNT/SUM ve mysql2 DECIMAL değerlerini string döndürür
+      if (numeric.has(key) && (typeof value === 'string' || typeof value === 'bigint')) {
+        result[key] = Number(value);
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  });
+}
@@ -1,2 +1,4 @@
 export * from './query-parser';
 export * from './id-generator';
+export * from './aggregate';
+export * from './pagination';
@@ -0,0 +1,83 @@
+// ============================================
+// SDBC - Keyset Pagination
+// Opaque cursors and tie-breaking filters
+// ============================================
+
+import type { QueryFilter } from '../types';
+
+export type SortSpec = Record<string, 1 | -1>;
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Sıralamaya _id'yi ekle; eşit sıralama değerleri _id ile ayrışır
+ */
+export function withTieBreaker(sort: SortSpec = {}): SortSpec {
+  return '_id' in sort ? { ...sort } : { ...sort, _id: 1 };
+}
+
+/**
+ * Sıralama yönünü tersine çevir (before ile geriye sayfalama için)
+ */
+export function reverseSort(sort: SortSpec): SortSpec {
+  return Object.fromEntries(Object.entries(sort).map(([key, dir]) => [key, dir === 1 ? -1 : 1]));
+}
+
+/**
+ * Nokta notasyonlu yoldaki değeri oku
+ */
+function getPath(doc: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value as Record<string, unknown> | null | undefined)?.[key],
+    doc
+  );
+}
+
+/**
+ * Dokümanın sıralama değerlerinden opaque cursor üret
+ * Date değerleri JSON'da kaybolmaması için { $date } olarak saklanır
+ */
+export function encodeCursor(doc: Record<string, unknown>, sort: SortSpec): string {
+  const values = Object.keys(sort).map(key => {
+    const value = getPath(doc, key);
+    return value instanceof Date ? { $date: value.toISOString() } : value ?? null;
+  });
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Cursor'ı sıralama değerlerine çöz
+ */
+export function decodeCursor(cursor: string, sort: SortSpec): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+
+  if (!Array.isArray(values) || values.length !== Object.keys(sort).length) {
+    throw new Error('Invalid pagination cursor');
+  }
+
+  return values.map(value =>
+    value && typeof value === 'object' && '$date' in value ? new Date(value.$date as string) : value
+  );
+}
+
+/**
+ * Cursor'dan sonraki kayıtları seçen filtre
+ * { a: 1, _id: 1 } için: a > va OR (a = va AND _id > vid)
+ */
+export function keysetFilter(sort: SortSpec, values: unknown[]): QueryFilter {
+  const keys = Object.keys(sort);
+
+  const branches = keys.map((key, i) => {
+    const branch: Record<string, unknown> = {};
+    keys.slice(0, i).forEach((prev, j) => { branch[prev] = values[j]; });
+    branch[key] = { [sort[key] === 1 ? '$gt' : '$lt']: values[i] };
+    return branch;
+  });
+
+  return branches.length === 1 ? branches[0] : { $or: branches };
+}
@@ -3,7 +3,9 @@
 // Mongoose query syntax to native query conversion
 // ============================================
 
-import type { QueryFilter, QueryOperators, UpdateFilter, UpdateOperators } from '../types';
+import type { DatabaseProvider, QueryFilter, QueryOperators, UpdateFilter, UpdateOperators } from '../types';
+
+export type SQLProvider = Exclude<DatabaseProvider, 'mongodb'>;
 
 export interface ParsedCondition {
   field: string;
@@ -72,17 +74,123 @@ export function toMongoFilter(conditions: ParsedCondition[]): Record<string, unk
   return filter;
 }
 
+/**
+ * SQL string literal'i oluştur
+ */
+function sqlLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Nokta notasyonlu yolu MySQL/SQLite JSON path'ine çevir: ['geo', '0'] -> $.geo[0]
+ */
+export function toJSONPath(path: string[]): string {
+  return '$' + path.map(segment => {
+    if (/^\d+$/.test(segment)) return `[${segment}]`;
+    if (/^\w+$/.test(segment)) return `.${segment}`;
+    return `."${segment.replace(/"/g, '\\"')}"`;
+  }).join('');
+}
+
+/**
+ * 'address.city' gibi nokta notasyonlu alanı JSON erişim ifadesine çevir
+ * Noktasız alanlar olduğu gibi döner
+ * - sample: karşılaştırılan değer (PostgreSQL'de metin sonucu uygun tipe cast edilir)
+ * - asJSON: metin yerine JSON değeri döndür (sayıların sayısal sıralanması için)
+ * - table: sütunun önüne eklenecek (tırnaklı) tablo adı veya alias
+ */
+export function toSQLFieldPath(
+  field: string,
+  provider: SQLProvider,
+  options: { sample?: unknown; asJSON?: boolean; table?: string } = {}
+): string {
+  if (!field.includes('.')) return field;
+
+  const [column, ...path] = field.split('.');
+  const prefix = options.table ? `${options.table}.` : '';
+
+  if (provider === 'postgres') {
+    const keys = path.map(segment => /^\d+$/.test(segment) ? segment : sqlLiteral(segment));
+    const parent = [`${prefix}"${column}"`, ...keys.slice(0, -1)].join('->');
+    const last = keys[keys.length - 1];
+
+    const json = `${parent}->${last}`;
+    if (options.asJSON) return json;
+
+    const text = `(${parent}->>${last})`;
+    const type = jsonTypeOf(options.sample);
+    if (type === 'string') return text;
+    // Sadece JSON tipi uyan değerler cast edilir, diğerleri NULL olur (cast hatası vermez)
+    return `(CASE WHEN jsonb_typeof(${json}) = '${type}' THEN ${text}::${type === 'number' ? 'numeric' : 'boolean'} END)`;
+  }
+
+  const jsonPath = sqlLiteral(toJSONPath(path));
+
+  if (provider === 'mysql') {
+    const extract = `JSON_EXTRACT(${prefix}\`${column}\`, ${jsonPath})`;
+    return options.asJSON ? extract : `JSON_UNQUOTE(${extract})`;
+  }
+
+  // SQLite json_extract SQL tipinde değer döndürür
+  return `json_extract(${prefix}"${column}", ${jsonPath})`;
+}
+
+/**
+ * Karşılaştırılan değerin JSON tipi (PostgreSQL cast'i için)
+ */
+function jsonTypeOf(value: unknown): 'number' | 'boolean' | 'string' {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'string';
+}
+
+/**
+ * $set içindeki nokta notasyonlu alanları kök sütuna göre grupla
+ */
+export function splitNestedSets(sets: Record<string, unknown>): {
+  sets: Record<string, unknown>;
+  nested: Record<string, Array<{ path: string[]; value: unknown }>>;
+} {
+  const result = {
+    sets: {} as Record<string, unknown>,
+    nested: {} as Record<string, Array<{ path: string[]; value: unknown }>>
+  };
+
+  for (const [key, value] of Object.entries(sets)) {
+    if (!key.includes('.')) {
+      result.sets[key] = value;
+      continue;
+    }
+
+    const [column, ...path] = key.split('.');
+    (result.nested[column] ??= []).push({ path, value });
+  }
+
+  return result;
+}
+
 /**
  * SQL WHERE clause'a çevir (parameterized)
  */
-export function toSQLWhere(conditions: ParsedCondition[], paramPrefix = '$'): SQLQuery {
+export function toSQLWhere(
+  conditions: ParsedCondition[],
+  paramPrefix = '$',
+  startIndex = 1,
+  provider: SQLProvider = 'postgres'
+): SQLQuery {
   const params: unknown[] = [];
-  let paramIndex = 1;
+  let paramIndex = startIndex;
 
   function getParamPlaceholder(): string {
     return `${paramPrefix}${paramIndex++}`;
   }
 
+  // Değeri parametre listesine ekle ve placeholder'ını döndür
+  function bind(value: unknown): string {
+    params.push(value);
+    return getParamPlaceholder();
+  }
+
   function processConditions(conds: ParsedCondition[], logicalOp = 'AND'): string {
     const parts: string[] = [];
 
@@ -107,77 +215,75 @@ export function toSQLWhere(conditions: ParsedCondition[], paramPrefix = '$'): SQ
         continue;
       }
 
-      const placeholder = getParamPlaceholder();
-      
+      // Nokta notasyonlu alanlar JSON sütunu içinden okunur
+      // $exists/$regex metin üzerinde çalışır, diğer operatörlerde PostgreSQL cast'i değerin tipinden seçilir
+      const isPath = field.includes('.');
+      const path = (sample?: unknown) => toSQLFieldPath(field, provider, { sample });
+      const column = operator === '$exists' || operator === '$regex' || Array.isArray(value) ? path() : path(value);
+      // JSON'da tarihler toISOString ile saklanır; ISO metinleri kronolojik sıralanır
+      const operand = (v: unknown) => (isPath && v instanceof Date ? v.toISOString() : v);
+
+      // $in/$nin: PostgreSQL'de her tip kendi cast'iyle karşılaştırılır
+      const inLists = (list: unknown[], negate: boolean): string => {
+        const groups = new Map<string, unknown[]>();
+        for (const v of list) {
+          const key = isPath && provider === 'postgres' ? jsonTypeOf(v) : 'string';
+          groups.set(key, [...(groups.get(key) ?? []), v]);
+        }
+        const clauses = [...groups.values()].map(group =>
+          `${path(group[0])} ${negate ? 'NOT IN' : 'IN'} (${group.map(v => bind(operand(v))).join(', ')})`
+        );
+        return clauses.length > 1 ? `(${clauses.join(negate ? ' AND ' : ' OR ')})` : clauses[0];
+      };
+
       switch (operator) {
         case '$eq':
           if (value === null) {
-            parts.push(`${field} IS NULL`);
+            parts.push(`${column} IS NULL`);
           } else {
-            parts.push(`${field} = ${placeholder}`);
-            params.push(value);
+            parts.push(`${column} = ${bind(operand(value))}`);
           }
           break;
         case '$ne':
           if (value === null) {
-            parts.push(`${field} IS NOT NULL`);
+            parts.push(`${column} IS NOT NULL`);
           } else {
-            parts.push(`${field} != ${placeholder}`);
-            params.push(value);
+            parts.push(`${column} != ${bind(operand(value))}`);
           }
           break;
         case '$gt':
-          parts.push(`${field} > ${placeholder}`);
-          params.push(value);
+          parts.push(`${column} > ${bind(operand(value))}`);
           break;
         case '$gte':
-          parts.push(`${field} >= ${placeholder}`);
-          params.push(value);
+          parts.push(`${column} >= ${bind(operand(value))}`);
           break;
         case '$lt':
-          parts.push(`${field} < ${placeholder}`);
-          params.push(value);
+          parts.push(`${column} < ${bind(operand(value))}`);
           break;
         case '$lte':
-          parts.push(`${field} <= ${placeholder}`);
-          params.push(value);
+          parts.push(`${column} <= ${bind(operand(value))}`);
           break;
         case '$in':
           if (Array.isArray(value) && value.length > 0) {
-            const placeholders = value.map(() => {
-              const p = getParamPlaceholder();
-              return p;
-            });
-            // Yeni placeholder'lar için params'a değerleri ekle
-            params.pop(); // Önceki placeholder'ı kaldır
-            paramIndex--; // Index'i geri al
-            value.forEach(v => {
-              params.push(v);
-              paramIndex++;
-            });
-            parts.push(`${field} IN (${placeholders.join(', ')})`);
+            parts.push(inLists(value, false));
+          } else if (Array.isArray(value)) {
+            // Boş liste hiçbir kayıtla eşleşmez
+            parts.push('1=0');
           }
           break;
         case '$nin':
           if (Array.isArray(value) && value.length > 0) {
-            const placeholders = value.map(() => getParamPlaceholder());
-            params.pop();
-            paramIndex--;
-            value.forEach(v => {
-              params.push(v);
-              paramIndex++;
-            });
-            parts.push(`${field} NOT IN (${placeholders.join(', ')})`);
+            parts.push(inLists(value, true));
           }
           break;
-        case '$regex':
-          parts.push(`${field} LIKE ${placeholder}`);
+        case '$regex': {
           // Regex'i LIKE pattern'e çevir
           const pattern = value instanceof RegExp ? value.source : String(value);
-          params.push(`%${pattern}%`);
+          parts.push(`${column} LIKE ${bind(`%${pattern}%`)}`);
           break;
+        }
         case '$exists':
-          parts.push(value ? `${field} IS NOT NULL` : `${field} IS NULL`);
+          parts.push(value ? `${column} IS NOT NULL` : `${column} IS NULL`);
           break;
       }
     }
@@ -193,7 +299,7 @@ export function toSQLWhere(conditions: ParsedCondition[], paramPrefix = '$'): SQ
  * MySQL için placeholder formatı
  */
 export function toMySQLWhere(conditions: ParsedCondition[]): SQLQuery {
-  const result = toSQLWhere(conditions, '?');
+  const result = toSQLWhere(conditions, '?', 1, 'mysql');
   // MySQL ? placeholder kullanır, index değil
   return {
     where: result.where.replace(/\?\d+/g, '?'),
@@ -210,13 +316,17 @@ export function parseUpdateFilter(update: UpdateFilter): {
   unsets: string[];
   pushes: Record<string, unknown>;
   pulls: Record<string, unknown>;
+  addToSets: Record<string, unknown>;
+  setOnInsert: Record<string, unknown>;
 } {
   const result = {
     sets: {} as Record<string, unknown>,
     increments: {} as Record<string, number>,
     unsets: [] as string[],
     pushes: {} as Record<string, unknown>,
-    pulls: {} as Record<string, unknown>
+    pulls: {} as Record<string, unknown>,
+    addToSets: {} as Record<string, unknown>,
+    setOnInsert: {} as Record<string, unknown>
   };
 
   // $set, $inc gibi operatörler var mı kontrol et
@@ -251,37 +361,133 @@ export function parseUpdateFilter(update: UpdateFilter): {
   }
 
   if (ops.$addToSet) {
-    // addToSet'i push gibi işle (benzersizlik kontrolü adapter'da yapılacak)
-    Object.assign(result.pushes, ops.$addToSet);
+    result.addToSets = ops.$addToSet;
+  }
+
+  if (ops.$setOnInsert) {
+    result.setOnInsert = ops.$setOnInsert;
   }
 
   return result;
 }
 
 /**
- * SQL UPDATE statement oluştur
+ * $push/$addToSet değerini eklenecek eleman listesine çevir ($each desteklenir)
  */
-export function toSQLUpdate(
-  tableName: string,
+export function toArrayValues(value: unknown): unknown[] {
+  if (value && typeof value === 'object' && !Array.isArray(value) && '$each' in value) {
+    return [...(value as { $each: unknown[] }).$each];
+  }
+  return [value];
+}
+
+/**
+ * $pull değerini çıkarılacak eleman listesine çevir ($in desteklenir)
+ */
+export function toPullValues(value: unknown): unknown[] {
+  if (value && typeof value === 'object' && !Array.isArray(value) && '$in' in value) {
+    return [...(value as { $in: unknown[] }).$in];
+  }
+  return [value];
+}
+
+/**
+ * Eleman listesindeki tekrarları JSON karşılaştırmasıyla kaldır
+ */
+export function uniqueArrayValues(values: unknown[]): unknown[] {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = JSON.stringify(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Filtredeki üst seviye eşitlik koşulları ({ alan: değer } veya $eq)
+ */
+export function equalityFields(filter: QueryFilter): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  for (const { field, operator, value } of parseQueryFilter(filter)) {
+    if (operator === '$eq' && !field.includes('.')) fields[field] = value;
+  }
+
+  return fields;
+}
+
+/**
+ * Upsert'te eklenecek doküman: filtredeki eşitlikler + update'teki değerler
+ * Update'teki nokta notasyonlu alanlar iç içe nesnelere açılır ('address.city' → { address: { city } })
+ */
+export function toUpsertDocument(filter: QueryFilter, update: UpdateFilter): Record<string, unknown> {
+  const doc = equalityFields(filter);
+  const parsed = parseUpdateFilter(update);
+
+  const values: Record<string, unknown> = { ...parsed.setOnInsert, ...parsed.sets, ...parsed.increments };
+  for (const [key, value] of Object.entries(parsed.pushes)) values[key] = toArrayValues(value);
+  for (const [key, value] of Object.entries(parsed.addToSets)) values[key] = uniqueArrayValues(toArrayValues(value));
+
+  for (const [key, value] of Object.entries(values)) {
+    const path = key.split('.');
+    let target = doc;
+    for (const part of path.slice(0, -1)) {
+      const current = target[part];
+      // Filtreden gelen nesne değiştirilmesin diye kopyalanır
+      target = target[part] = isPlainObject(current) ? { ...current } : {};
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  return doc;
+}
+
+/**
+ * Düz obje mi (Date, dizi ve null hariç)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * PostgreSQL SET ifadeleri
+ * - qualifier: mevcut değere yapılan referansların tablo adı (ON CONFLICT DO UPDATE'te
+ *   sütun adları EXCLUDED ile çakışmasın diye)
+ */
+export function toSQLSet(
   update: UpdateFilter,
-  whereClause: string,
-  whereParams: unknown[],
-  paramPrefix = '$'
-): { sql: string; params: unknown[] } {
+  startIndex = 1,
+  paramPrefix = '$',
+  qualifier?: string
+): { clauses: string[]; params: unknown[] } {
   const parsed = parseUpdateFilter(update);
   const setClauses: string[] = [];
   const params: unknown[] = [];
-  let paramIndex = whereParams.length + 1;
+  let paramIndex = startIndex;
+  const { sets, nested } = splitNestedSets(parsed.sets);
+  const ref = (column: string) => qualifier ? `${qualifier}.${column}` : column;
 
   // $set
-  for (const [key, value] of Object.entries(parsed.sets)) {
+  for (const [key, value] of Object.entries(sets)) {
     setClauses.push(`${key} = ${paramPrefix}${paramIndex++}`);
     params.push(value);
   }
 
+  // $set (nokta notasyonu) - JSONB içindeki alanları güncelle
+  for (const [column, entries] of Object.entries(nested)) {
+    let expr = `COALESCE(${ref(`"${column}"`)}, '{}'::jsonb)`;
+    for (const { path, value } of entries) {
+      const pgPath = sqlLiteral(`{${path.map(p => `"${p.replace(/["\\]/g, '\\$&')}"`).join(',')}}`);
+      expr = `jsonb_set(${expr}, ${pgPath}, ${paramPrefix}${paramIndex++}::jsonb)`;
+      params.push(JSON.stringify(value));
+    }
+    setClauses.push(`"${column}" = ${expr}`);
+  }
+
   // $inc
   for (const [key, amount] of Object.entries(parsed.increments)) {
-    setClauses.push(`${key} = ${key} + ${paramPrefix}${paramIndex++}`);
+    setClauses.push(`${key} = ${ref(key)} + ${paramPrefix}${paramIndex++}`);
     params.push(amount);
   }
 
@@ -290,10 +496,50 @@ export function toSQLUpdate(
     setClauses.push(`${key} = NULL`);
   }
 
-  if (setClauses.length === 0) {
+  // $push - JSONB dizinin sonuna ekle
+  for (const [key, value] of Object.entries(parsed.pushes)) {
+    setClauses.push(`${key} = COALESCE(${ref(key)}, '[]'::jsonb) || ${paramPrefix}${paramIndex++}::jsonb`);
+    params.push(JSON.stringify(toArrayValues(value)));
+  }
+
+  // $addToSet - sadece dizide olmayan elemanları ekle
+  for (const [key, value] of Object.entries(parsed.addToSets)) {
+    const current = `COALESCE(${ref(key)}, '[]'::jsonb)`;
+    setClauses.push(
+      `${key} = ${current} || COALESCE((SELECT jsonb_agg(v ORDER BY i) FROM jsonb_array_elements(${paramPrefix}${paramIndex++}::jsonb) ` +
+      `WITH ORDINALITY AS n(v, i) WHERE v NOT IN (SELECT jsonb_array_elements(${current}))), '[]'::jsonb)`
+    );
+    params.push(JSON.stringify(uniqueArrayValues(toArrayValues(value))));
+  }
+
+  // $pull - eşleşen elemanları çıkar
+  for (const [key, value] of Object.entries(parsed.pulls)) {
+    setClauses.push(
+      `${key} = (SELECT COALESCE(jsonb_agg(e ORDER BY i), '[]'::jsonb) FROM jsonb_array_elements(COALESCE(${ref(key)}, '[]'::jsonb)) ` +
+      `WITH ORDINALITY AS n(e, i) WHERE e NOT IN (SELECT jsonb_array_elements(${paramPrefix}${paramIndex++}::jsonb)))`
+    );
+    params.push(JSON.stringify(toPullValues(value)));
+  }
+
+  return { clauses: setClauses, params };
+}
+
+/**
+ * SQL UPDATE statement oluştur
+ */
+export function toSQLUpdate(
+  tableName: string,
+  update: UpdateFilter,
+  whereClause: string,
+  whereParams: unknown[],
+  paramPrefix = '$'
+): { sql: string; params: unknown[] } {
+  const { clauses, params } = toSQLSet(update, whereParams.length + 1, paramPrefix);
+
+  if (clauses.length === 0) {
     throw new Error('No fields to update');
   }
 
-  const sql = `UPDATE ${tableName} SET ${setClauses.join(', ')} WHERE ${whereClause}`;
+  const sql = `UPDATE ${tableName} SET ${clauses.join(', ')} WHERE ${whereClause}`;
   return { sql, params: [...whereParams, ...params] };
 }
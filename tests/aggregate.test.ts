@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import { compileAggregation, normalizeAggregateRows } from '../src/utils/aggregate';
+
+const pg = { provider: 'postgres' as const, quote: (name: string) => `"${name}"`, paramPrefix: '$' as const };
+const mysql = { provider: 'mysql' as const, quote: (name: string) => `\`${name}\``, paramPrefix: '?' as const, unboundedLimit: '18446744073709551615' };
+
+describe('Aggregation', () => {
+  describe('compileAggregation()', () => {
+    it('should compile $match + $group into GROUP BY', () => {
+      const { sql, params } = compileAggregation('orders', [
+        { $match: { status: 'paid' } },
+        { $group: { _id: '$customer', total: { $sum: '$amount' }, count: { $sum: 1 } } }
+      ], pg);
+
+      expect(sql).toBe(
+        'SELECT "customer" AS "_id", SUM("amount") AS "total", COUNT(*) AS "count" FROM "orders" WHERE (status = $1) GROUP BY "customer"'
+      );
+      expect(params).toEqual(['paid']);
+    });
+
+    it('should wrap stages that follow $group in a subquery', () => {
+      const { sql, params } = compileAggregation('orders', [
+        { $match: { amount: { $gt: 10 } } },
+        { $group: { _id: '$customer', total: { $sum: '$amount' } } },
+        { $match: { total: { $gte: 100 } } },
+        { $sort: { total: -1 } },
+        { $limit: 5 }
+      ], pg);
+
+      expect(sql).toBe(
+        'SELECT * FROM (SELECT "customer" AS "_id", SUM("amount") AS "total" FROM "orders" WHERE (amount > $1) GROUP BY "customer") "s1"' +
+        ' WHERE (total >= $2) ORDER BY "total" DESC LIMIT 5'
+      );
+      expect(params).toEqual([10, 100]);
+    });
+
+    it('should use ? placeholders and an unbounded LIMIT for OFFSET', () => {
+      const { sql } = compileAggregation('orders', [
+        { $match: { status: { $in: ['paid', 'shipped'] } } },
+        { $skip: 10 }
+      ], mysql);
+
+      expect(sql).toBe(
+        'SELECT * FROM `orders` WHERE (status IN (?, ?)) LIMIT 18446744073709551615 OFFSET 10'
+      );
+    });
+
+    it('should compile compound and null group keys', () => {
+      expect(compileAggregation('orders', [
+        { $group: { _id: { customer: '$customer', status: '$status' }, n: { $count: {} } } }
+      ], pg).sql).toBe(
+        'SELECT "customer" AS "_id__customer", "status" AS "_id__status", COUNT(*) AS "n" FROM "orders" GROUP BY "customer", "status"'
+      );
+
+      expect(compileAggregation('orders', [
+        { $group: { _id: null, avg: { $avg: '$amount' } } }
+      ], pg).sql).toBe('SELECT NULL AS "_id", AVG("amount") AS "avg" FROM "orders"');
+    });
+
+    it('should compile $project inclusions and renames', () => {
+      expect(compileAggregation('users', [
+        { $project: { name: 1, mail: '$email' } }
+      ], pg).sql).toBe('SELECT "_id", "name", "email" AS "mail" FROM "users"');
+    });
+
+    it('should reject unsupported stages and accumulators', () => {
+      expect(() => compileAggregation('users', [{ $unwind: '$tags' } as any], pg)).toThrow(/Unsupported aggregation stage/);
+      expect(() => compileAggregation('users', [
+        { $group: { _id: '$role', first: { $first: '$name' } as any } }
+      ], pg)).toThrow(/Unsupported accumulator/);
+    });
+  });
+
+  describe('normalizeAggregateRows()', () => {
+    it('should nest compound ids and convert numeric strings', () => {
+      const compiled = compileAggregation('orders', [
+        { $group: { _id: { customer: '$customer' }, total: { $sum: '$amount' } } }
+      ], pg);
+
+      expect(normalizeAggregateRows([{ _id__customer: 'c1', total: '42' }], compiled)).toEqual([
+        { _id: { customer: 'c1' }, total: 42 }
+      ]);
+    });
+
+    it('should leave $min/$max strings untouched', () => {
+      const compiled = compileAggregation('users', [
+        { $group: { _id: null, first: { $min: '$name' }, n: { $count: {} } } }
+      ], pg);
+
+      expect(normalizeAggregateRows([{ _id: null, first: 'ali', n: '3' }], compiled)).toEqual([
+        { _id: null, first: 'ali', n: 3 }
+      ]);
+    });
+  });
+
+  describe('with SQLite', () => {
+    beforeEach(async () => {
+      clearModels();
+      await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    });
+
+    afterEach(async () => {
+      await disconnect();
+    });
+
+    const seed = async () => {
+      const Order = model('Order', new Schema({
+        customer: String,
+        status: String,
+        amount: Number
+      }));
+
+      await Order.create([
+        { customer: 'ali', status: 'paid', amount: 30 },
+        { customer: 'ali', status: 'paid', amount: 70 },
+        { customer: 'ali', status: 'pending', amount: 5 },
+        { customer: 'veli', status: 'paid', amount: 20 },
+        { customer: 'ayse', status: 'paid', amount: 200 }
+      ]);
+
+      return Order;
+    };
+
+    it('should group, sort and limit', async () => {
+      const Order = await seed();
+
+      const result = await Order.aggregate<{ _id: string; total: number; count: number }>([
+        { $match: { status: 'paid' } },
+        { $group: { _id: '$customer', total: { $sum: '$amount' }, count: { $sum: 1 } } },
+        { $sort: { total: -1 } },
+        { $limit: 2 }
+      ]);
+
+      expect(result).toEqual([
+        { _id: 'ayse', total: 200, count: 1 },
+        { _id: 'ali', total: 100, count: 2 }
+      ]);
+    });
+
+    it('should support $avg/$min/$max and filtering on group results', async () => {
+      const Order = await seed();
+
+      const result = await Order.aggregate([
+        { $group: { _id: '$customer', avg: { $avg: '$amount' }, min: { $min: '$amount' }, max: { $max: '$amount' } } },
+        { $match: { max: { $gte: 70 } } },
+        { $sort: { _id: 1 } }
+      ]);
+
+      expect(result).toEqual([
+        { _id: 'ali', avg: 35, min: 5, max: 70 },
+        { _id: 'ayse', avg: 200, min: 200, max: 200 }
+      ]);
+    });
+
+    it('should keep $min/$max over strings and dates as they are', async () => {
+      const Visit = model('Visit', new Schema({ page: String, user: String, at: Date }));
+      await Visit.create([
+        { page: 'a', user: 'veli', at: new Date('2024-03-01T00:00:00.000Z') },
+        { page: 'a', user: 'ali', at: new Date('2024-01-15T00:00:00.000Z') },
+        { page: 'a', user: 'zeynep', at: new Date('2024-02-10T00:00:00.000Z') }
+      ]);
+
+      const result = await Visit.aggregate([
+        { $group: { _id: '$page', first: { $min: '$user' }, last: { $max: '$user' }, from: { $min: '$at' }, to: { $max: '$at' }, total: { $sum: 1 } } }
+      ]);
+
+      expect(result).toEqual([{
+        _id: 'a',
+        first: 'ali',
+        last: 'zeynep',
+        from: new Date('2024-01-15T00:00:00.000Z'),
+        to: new Date('2024-03-01T00:00:00.000Z'),
+        total: 3
+      }]);
+    });
+
+    it('should apply $skip/$project and exclusions', async () => {
+      const Order = await seed();
+
+      const result = await Order.aggregate([
+        { $sort: { amount: 1 } },
+        { $skip: 3 },
+        { $project: { _id: 0, who: '$customer', amount: 1 } }
+      ]);
+
+      expect(result).toEqual([
+        { who: 'ali', amount: 70 },
+        { who: 'ayse', amount: 200 }
+      ]);
+    });
+
+    it('should return compound group keys as objects', async () => {
+      const Order = await seed();
+
+      const result = await Order.aggregate([
+        { $match: { customer: 'ali' } },
+        { $group: { _id: { customer: '$customer', status: '$status' }, n: { $count: {} } } },
+        { $sort: { n: -1 } }
+      ]);
+
+      expect(result).toEqual([
+        { _id: { customer: 'ali', status: 'paid' }, n: 2 },
+        { _id: { customer: 'ali', status: 'pending' }, n: 1 }
+      ]);
+    });
+  });
+});
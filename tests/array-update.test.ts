@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import { parseUpdateFilter, toSQLUpdate } from '../src/utils/query-parser';
+import { MySQLAdapter } from '../src/adapters/mysql';
+
+describe('Array update operators', () => {
+  describe('parseUpdateFilter()', () => {
+    it('should keep $addToSet separate from $push', () => {
+      const parsed = parseUpdateFilter({ $push: { tags: 'a' }, $addToSet: { roles: 'admin' } });
+
+      expect(parsed.pushes).toEqual({ tags: 'a' });
+      expect(parsed.addToSets).toEqual({ roles: 'admin' });
+    });
+  });
+
+  describe('toSQLUpdate() (PostgreSQL)', () => {
+    it('should append with jsonb concatenation', () => {
+      const { sql, params } = toSQLUpdate('"posts"', { $push: { tags: { $each: ['a', 'b'] } } }, '"_id" = $1', ['p1']);
+
+      expect(sql).toBe(`UPDATE "posts" SET tags = COALESCE(tags, '[]'::jsonb) || $2::jsonb WHERE "_id" = $1`);
+      expect(params).toEqual(['p1', '["a","b"]']);
+    });
+
+    it('should only append missing values for $addToSet', () => {
+      const { sql, params } = toSQLUpdate('"posts"', { $addToSet: { tags: { $each: ['a', 'a', 'b'] } } }, '"_id" = $1', ['p1']);
+
+      expect(sql).toContain('WHERE v NOT IN (SELECT jsonb_array_elements(COALESCE(tags, \'[]\'::jsonb)))');
+      expect(params).toEqual(['p1', '["a","b"]']);
+    });
+
+    it('should filter elements for $pull', () => {
+      const { sql, params } = toSQLUpdate('"posts"', { $pull: { tags: { $in: ['a', 'b'] } } }, '"_id" = $1', ['p1']);
+
+      expect(sql).toContain('jsonb_array_elements(COALESCE(tags, \'[]\'::jsonb))');
+      expect(sql).toContain('WHERE e NOT IN (SELECT jsonb_array_elements($2::jsonb))');
+      expect(params).toEqual(['p1', '["a","b"]']);
+    });
+  });
+
+  describe('MySQL', () => {
+    it('should use JSON_ARRAY_APPEND for $push and $addToSet', async () => {
+      const adapter = new MySQLAdapter();
+      const queries: Array<{ sql: string; params: unknown[] }> = [];
+      (adapter as any).query = async (sql: string, params: unknown[]) => {
+        queries.push({ sql, params });
+        return [{ affectedRows: 1, changedRows: 1 }];
+      };
+
+      await adapter.updateMany('posts', {}, { $push: { tags: 'a' }, $addToSet: { roles: 'admin' } });
+
+      expect(queries[0].sql).toContain("`tags` = JSON_ARRAY_APPEND(COALESCE(`tags`, JSON_ARRAY()), '$', CAST(? AS JSON))");
+      expect(queries[0].sql).toContain(
+        "IF(EXISTS (SELECT 1 FROM JSON_TABLE(COALESCE(`roles`, JSON_ARRAY()), '$[*]' COLUMNS (v JSON PATH '$')) AS jt " +
+        "WHERE jt.v = CAST(? AS JSON)), '$.__exists', '$')"
+      );
+      expect(queries[0].params).toEqual(['"a"', '"admin"', '"admin"']);
+    });
+
+    it('should compare object elements by equality and keep nulls unless pulled', async () => {
+      const adapter = new MySQLAdapter();
+      const queries: Array<{ sql: string; params: unknown[] }> = [];
+      (adapter as any).query = async (sql: string, params: unknown[]) => {
+        queries.push({ sql, params });
+        return [{ affectedRows: 1, changedRows: 1 }];
+      };
+
+      await adapter.updateMany('posts', {}, { $pull: { tags: { $in: [{ a: 1 }, [1]] } } });
+      await adapter.updateMany('posts', {}, { $pull: { tags: null }, $addToSet: { roles: null } });
+
+      expect(queries[0].sql).not.toContain('JSON_CONTAINS');
+      expect(queries[0].sql).toContain('WHERE NOT COALESCE(jt.v = CAST(? AS JSON) OR jt.v = CAST(? AS JSON), FALSE))');
+      expect(queries[0].params).toEqual(['{"a":1}', '[1]']);
+
+      expect(queries[1].sql).toContain("WHERE NOT COALESCE((jt.v IS NULL OR JSON_TYPE(jt.v) = 'NULL'), FALSE))");
+      expect(queries[1].sql).toContain("WHERE (jt.v IS NULL OR JSON_TYPE(jt.v) = 'NULL')), '$.__exists', '$'), CAST(? AS JSON)");
+      expect(queries[1].params).toEqual(['null']);
+    });
+  });
+
+  describe('with SQLite', () => {
+    beforeEach(async () => {
+      clearModels();
+      await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    });
+
+    afterEach(async () => {
+      await disconnect();
+    });
+
+    const createPost = async () => {
+      const Post = model('Post', new Schema({
+        title: String,
+        tags: { type: Array }
+      }));
+      await Post.create({ title: 'Hello', tags: ['a'] });
+      return Post;
+    };
+
+    it('should $push values', async () => {
+      const Post = await createPost();
+
+      await Post.updateOne({ title: 'Hello' }, { $push: { tags: 'b' } });
+      await Post.updateOne({ title: 'Hello' }, { $push: { tags: { $each: ['c', { n: 1 }] } } });
+
+      const post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', 'b', 'c', { n: 1 }]);
+    });
+
+    it('should not add duplicates with $addToSet', async () => {
+      const Post = await createPost();
+
+      await Post.updateOne({ title: 'Hello' }, { $addToSet: { tags: 'a' } });
+      await Post.updateMany({}, { $addToSet: { tags: { $each: ['b', 'a', 'b'] } } });
+
+      const post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', 'b']);
+    });
+
+    it('should $pull values', async () => {
+      const Post = await createPost();
+      await Post.updateOne({ title: 'Hello' }, { $push: { tags: { $each: ['b', 'c', 'b'] } } });
+
+      await Post.updateOne({ title: 'Hello' }, { $pull: { tags: 'b' } });
+      let post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', 'c']);
+
+      await Post.updateOne({ title: 'Hello' }, { $pull: { tags: { $in: ['a', 'c'] } } });
+      post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual([]);
+    });
+
+    it('should keep null elements unless null is pulled', async () => {
+      const Post = await createPost();
+      await Post.updateOne({ title: 'Hello' }, { $push: { tags: { $each: [null, 'b'] } } });
+
+      await Post.updateOne({ title: 'Hello' }, { $pull: { tags: 'b' } });
+      let post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', null]);
+
+      await Post.updateOne({ title: 'Hello' }, { $addToSet: { tags: null } });
+      post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', null]);
+
+      await Post.updateOne({ title: 'Hello' }, { $pull: { tags: null } });
+      post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a']);
+    });
+
+    it('should match object elements exactly', async () => {
+      const Post = await createPost();
+      await Post.updateOne({ title: 'Hello' }, { $push: { tags: { $each: [{ a: 1, b: 2 }, '{"a":1}'] } } });
+
+      await Post.updateOne({ title: 'Hello' }, { $addToSet: { tags: { a: 1 } } });
+      let post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', { a: 1, b: 2 }, '{"a":1}', { a: 1 }]);
+
+      await Post.updateOne({ title: 'Hello' }, { $pull: { tags: { $in: [{ a: 1 }] } } });
+      post = await Post.findOne({ title: 'Hello' });
+      expect(post?.tags).toEqual(['a', { a: 1, b: 2 }, '{"a":1}']);
+    });
+
+    it('should start from an empty array when the field is null', async () => {
+      const Post = model('Post', new Schema({ title: String, tags: { type: Array } }));
+      await Post.create({ title: 'Empty' });
+
+      await Post.updateOne({ title: 'Empty' }, { $addToSet: { tags: 'x' } });
+
+      const post = await Post.findOne({ title: 'Empty' });
+      expect(post?.tags).toEqual(['x']);
+    });
+  });
+});
@@ -127,6 +127,18 @@ describe('SDBC Basic Usage', () => {
       expect(sql).toContain('name');
       expect(sql).toContain('NOT NULL');
     });
+
+    it('should not emit NOT NULL for required: [false, message]', () => {
+      const schema = new Schema({
+        name: { type: String, required: [false, 'name needed'] },
+        code: { type: String, required: [true, 'code needed'] }
+      });
+
+      expect(schema.toSQLStatement('users')).toBe(
+        'CREATE TABLE IF NOT EXISTS users (_id VARCHAR(36) PRIMARY KEY, name VARCHAR(255), code VARCHAR(255) NOT NULL)'
+      );
+      expect(schema.toSQLSchema().name.required).toBe(false);
+    });
   });
 
   describe('Schema.Types', () => {
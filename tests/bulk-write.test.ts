@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager, BulkWriteError } from '../src';
+import { PostgreSQLAdapter } from '../src/adapters/postgres';
+import { MongoDBAdapter } from '../src/adapters/mongodb';
+import { groupBulkOperations } from '../src/adapters/bulk';
+
+describe('groupBulkOperations', () => {
+  it('should batch consecutive inserts and _id updates with the same change', () => {
+    const groups = groupBulkOperations([
+      { insertOne: { document: { n: 1 } } },
+      { insertOne: { document: { n: 2 } } },
+      { updateOne: { filter: { _id: 'a' }, update: { $set: { done: true } } } },
+      { updateOne: { filter: { _id: 'b' }, update: { $set: { done: true } } } },
+      { updateOne: { filter: { _id: 'c' }, update: { $set: { done: false } } } },
+      { deleteOne: { filter: { _id: 'a' } } },
+      { deleteOne: { filter: { _id: 'b' } } },
+      { insertOne: { document: { n: 3 } } }
+    ]);
+
+    expect(groups).toEqual([[0, 1], [2, 3], [4], [5, 6], [7]]);
+  });
+
+  it('should not batch updates that repeat an _id', () => {
+    const inc = { updateOne: { filter: { _id: 'a' }, update: { $inc: { n: 1 } } } };
+    const other = { updateOne: { filter: { _id: 'b' }, update: { $inc: { n: 1 } } } };
+
+    expect(groupBulkOperations([inc, other, inc, other])).toEqual([[0, 1], [2, 3]]);
+  });
+});
+
+describe('Model.bulkWrite()', () => {
+  const ItemSchema = new Schema({
+    sku: { type: String, required: true, unique: true },
+    qty: { type: Number, default: 0 }
+  });
+
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should apply mixed operations and combine the results', async () => {
+    const Item = model('Item', ItemSchema);
+    const [a, b] = await Item.insertMany([{ sku: 'a', qty: 1 }, { sku: 'b', qty: 2 }]);
+
+    const result = await Item.bulkWrite([
+      { insertOne: { document: { sku: 'c' } } },
+      { insertOne: { document: { sku: 'd', qty: 4 } } },
+      { updateOne: { filter: { _id: a._id }, update: { $inc: { qty: 10 } } } },
+      { replaceOne: { filter: { _id: b._id }, replacement: { sku: 'b2' } } },
+      { deleteMany: { filter: { sku: 'd' } } }
+    ]);
+
+    expect(result).toMatchObject({
+      insertedCount: 2,
+      matchedCount: 2,
+      modifiedCount: 2,
+      deletedCount: 1,
+      errors: []
+    });
+    expect(Object.keys(result.insertedIds)).toEqual(['0', '1']);
+
+    const items = await Item.find().sort({ sku: 1 }).lean();
+    expect(items.map(i => [i.sku, i.qty])).toEqual([['a', 11], ['b2', 0], ['c', 0]]);
+  });
+
+  it('should insert batches with one multi-row statement', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.sync();
+    const run = vi.spyOn(connectionManager.getAdapter() as any, 'run');
+
+    await Item.bulkWrite(Array.from({ length: 5 }, (_, i) => ({ insertOne: { document: { sku: `s${i}` } } })));
+    await Item.insertMany([{ sku: 'x' }, { sku: 'y' }]);
+
+    const inserts = run.mock.calls.map(call => call[0] as string).filter(sql => sql.startsWith('INSERT'));
+    expect(inserts).toHaveLength(2);
+    expect(inserts[0]).toContain('VALUES (?, ?, ?), (?, ?, ?), (?, ?, ?), (?, ?, ?), (?, ?, ?)');
+    expect(await Item.countDocuments()).toBe(7);
+  });
+
+  it('should roll everything back when an ordered operation fails', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'taken' });
+
+    const error = await Item.bulkWrite([
+      { insertOne: { document: { sku: 'new' } } },
+      { updateMany: { filter: {}, update: { $set: { qty: 5 } } } },
+      { insertOne: { document: { sku: 'taken' } } },
+      { insertOne: { document: { sku: 'never' } } }
+    ]).catch(e => e);
+
+    expect(error).toBeInstanceOf(BulkWriteError);
+    expect(error.errors).toHaveLength(1);
+    expect(error.errors[0]).toMatchObject({ index: 2, operation: 'insertOne' });
+    expect((await Item.find().lean()).map(i => [i.sku, i.qty])).toEqual([['taken', 0]]);
+  });
+
+  it('should continue past failures with ordered: false', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'taken' });
+
+    const result = await Item.bulkWrite([
+      { insertOne: { document: { sku: 'a' } } },
+      { insertOne: { document: { sku: 'taken' } } },
+      { insertOne: { document: {} } },
+      { insertOne: { document: { sku: 'b' } } },
+      { deleteOne: { filter: { sku: 'taken' } } }
+    ], { ordered: false });
+
+    expect(result.insertedCount).toBe(2);
+    expect(result.deletedCount).toBe(1);
+    expect(result.errors.map(e => e.index)).toEqual([1, 2]);
+    expect(result.errors[1].error.name).toBe('ValidationError');
+    expect(Object.keys(result.insertedIds)).toEqual(['0', '3']);
+    expect((await Item.find().sort({ sku: 1 }).lean()).map(i => i.sku)).toEqual(['a', 'b']);
+  });
+
+  it('should upsert when nothing matches', async () => {
+    const Item = model('Item', ItemSchema);
+
+    const result = await Item.bulkWrite([
+      { updateOne: { filter: { sku: 'z' }, update: { $set: { qty: 3 } }, upsert: true } },
+      { updateOne: { filter: { sku: 'z' }, update: { $inc: { qty: 1 } }, upsert: true } }
+    ]);
+
+    expect(result).toMatchObject({ upsertedCount: 1, matchedCount: 1 });
+    expect(Object.keys(result.upsertedIds)).toEqual(['0']);
+    expect(await Item.findOne({ sku: 'z' }).lean()).toMatchObject({ qty: 4 });
+  });
+
+  it('should not share a transaction between concurrent bulkWrites', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'taken' });
+
+    const adapter = connectionManager.getAdapter();
+
+    // İkisi de adımlar arasında bekler; biri geri alınınca diğerinin yazdıkları kalmalı
+    const [failed, succeeded] = await Promise.allSettled([
+      adapter.bulkWrite('items', [
+        { insertOne: { document: { sku: 'a' } } },
+        { updateMany: { filter: {}, update: { $inc: { qty: 1 } } } },
+        { insertOne: { document: { sku: 'taken' } } }
+      ]),
+      adapter.bulkWrite('items', [
+        { insertOne: { document: { sku: 'b' } } },
+        { updateMany: { filter: { sku: 'b' }, update: { $set: { qty: 7 } } } }
+      ])
+    ]);
+
+    expect(failed.status).toBe('rejected');
+    expect(succeeded.status).toBe('fulfilled');
+    expect((await Item.find().sort({ sku: 1 }).lean()).map(i => [i.sku, i.qty])).toEqual([['b', 7], ['taken', 0]]);
+  });
+
+  it('should apply repeated non-idempotent updates to the same _id each time', async () => {
+    const Item = model('Item', ItemSchema);
+    const item = await Item.create({ sku: 'a' });
+    const inc = { updateOne: { filter: { _id: item._id }, update: { $inc: { qty: 1 } } } };
+
+    const result = await Item.bulkWrite([inc, inc]);
+
+    expect(result).toMatchObject({ matchedCount: 2, modifiedCount: 2 });
+    expect(await Item.findOne({ sku: 'a' }).lean()).toMatchObject({ qty: 2 });
+  });
+});
+
+describe('Adapter bulkWrite', () => {
+  it('should run PostgreSQL operations on one client inside a transaction', async () => {
+    const client = {
+      query: vi.fn(async (sql: string, _params?: unknown[]) => ({
+        rows: sql.startsWith('INSERT') ? [{ _id: '1' }, { _id: '2' }] : [{ count: '1' }]
+      })),
+      release: vi.fn()
+    };
+    const pool = { connect: vi.fn(async () => client), query: vi.fn() };
+    const adapter = new PostgreSQLAdapter();
+    (adapter as any).pool = pool;
+    (adapter as any).connected = true;
+
+    await adapter.bulkWrite('items', [
+      { insertOne: { document: { _id: '1', sku: 'a' } } },
+      { insertOne: { document: { _id: '2', sku: 'b' } } },
+      { deleteMany: { filter: { sku: 'c' } } }
+    ]);
+
+    const statements = client.query.mock.calls.map(call => call[0]);
+    expect(statements[0]).toBe('BEGIN');
+    expect(statements[2]).toBe('INSERT INTO "items" ("_id", "sku") VALUES ($1, $2), ($3, $4) RETURNING *');
+    expect(statements[statements.length - 1]).toBe('COMMIT');
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should map MongoDB write errors to operation indexes', async () => {
+    const bulkWrite = vi.fn(async (_ops: unknown[], _options: unknown) => {
+      throw Object.assign(new Error('E11000'), {
+        result: { insertedCount: 1, matchedCount: 0, modifiedCount: 0, deletedCount: 0, upsertedCount: 0, upsertedIds: {} },
+        writeErrors: [{ index: 1, errmsg: 'E11000 duplicate key' }]
+      });
+    });
+    const adapter = new MongoDBAdapter();
+    (adapter as any).getCollection = () => ({ bulkWrite });
+
+    const result = await adapter.bulkWrite('items', [
+      { insertOne: { document: { sku: 'a' } } },
+      { insertOne: { document: { sku: 'a' } } }
+    ], { ordered: false });
+
+    expect(bulkWrite.mock.calls[0][1]).toEqual({ ordered: false });
+    expect(result.insertedCount).toBe(1);
+    expect(Object.keys(result.insertedIds)).toEqual(['0']);
+    expect(result.errors).toMatchObject([{ index: 1, operation: 'insertOne', message: 'E11000 duplicate key' }]);
+  });
+});
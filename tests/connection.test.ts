@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  Schema,
+  model,
+  connect,
+  disconnect,
+  clearModels,
+  getModel,
+  createConnection,
+  getConnection,
+  connectionManager,
+  Connection
+} from '../src';
+
+describe('Named connections', () => {
+  const EventSchema = new Schema({
+    type: { type: String, required: true },
+    user: { type: String, ref: 'User' }
+  });
+  const UserSchema = new Schema({ name: String });
+
+  let analytics: Connection;
+
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    analytics = await createConnection('analytics', { provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    analytics.models.clear();
+    await analytics.disconnect();
+    await disconnect();
+  });
+
+  it('should keep a separate model registry per connection', () => {
+    const DefaultEvent = model('Event', EventSchema);
+    const AnalyticsEvent = analytics.model('Event', EventSchema);
+
+    expect(AnalyticsEvent).not.toBe(DefaultEvent);
+    expect(analytics.model('Event', EventSchema)).toBe(AnalyticsEvent);
+    expect(getModel('Event')).toBe(DefaultEvent);
+    expect(analytics.models.get('Event')).toBe(AnalyticsEvent);
+  });
+
+  it('should read and write through its own adapter', async () => {
+    const DefaultEvent = model('Event', EventSchema);
+    const AnalyticsEvent = analytics.model('Event', EventSchema);
+
+    await AnalyticsEvent.create({ type: 'click' });
+    await AnalyticsEvent.create({ type: 'view' });
+    await DefaultEvent.create({ type: 'signup' });
+
+    expect(analytics.adapter).not.toBe(connectionManager.adapter);
+    expect(await AnalyticsEvent.countDocuments()).toBe(2);
+    expect((await DefaultEvent.find()).map(e => e.type)).toEqual(['signup']);
+  });
+
+  it('should bind documents and populate to the connection', async () => {
+    const User = analytics.model('User', UserSchema);
+    const Event = analytics.model('Event', EventSchema);
+
+    const user = await User.create({ name: 'Ayşe' });
+    const event = await Event.create({ type: 'click', user: user._id });
+
+    event.type = 'dblclick';
+    await event.save();
+
+    const found = await Event.findById(event._id).populate('user');
+    expect(found?.type).toBe('dblclick');
+    expect(found?.user).toMatchObject({ name: 'Ayşe' });
+    expect(getModel('User')).toBeUndefined();
+  });
+
+  it('should be retrievable by name and reject duplicates', async () => {
+    expect(getConnection('analytics')).toBe(analytics);
+    expect(getConnection()).toBe(connectionManager);
+
+    await expect(
+      createConnection('analytics', { provider: 'sqlite', uri: 'sqlite::memory:' })
+    ).rejects.toThrow("Connection 'analytics' already exists");
+  });
+
+  it('should reconnect a closed connection with the same name', async () => {
+    await analytics.disconnect();
+
+    const reopened = await createConnection('analytics', { provider: 'sqlite', uri: 'sqlite::memory:' });
+    expect(reopened).toBe(analytics);
+    expect(reopened.isConnected).toBe(true);
+  });
+});
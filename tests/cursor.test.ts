@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import { PostgreSQLAdapter } from '../src/adapters/postgres';
+import { MySQLAdapter } from '../src/adapters/mysql';
+import { MongoDBAdapter } from '../src/adapters/mongodb';
+import { ReplicaSet } from '../src/adapters/replicas';
+
+vi.mock('pg-cursor', () => ({
+  default: class {
+    constructor(public text: string, public values: unknown[]) {}
+  }
+}));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('find().cursor()', () => {
+  const AuthorSchema = new Schema({ name: String });
+  const PostSchema = new Schema({
+    n: Number,
+    author: { type: String, ref: 'Author' }
+  });
+
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should stream every matching document in order', async () => {
+    const Post = model('Post', PostSchema);
+    await Post.insertMany(Array.from({ length: 250 }, (_, n) => ({ n })));
+
+    const posts = await collect(Post.find({ n: { $gte: 100 } }).sort({ n: 1 }).cursor({ batchSize: 50 }));
+
+    expect(posts).toHaveLength(150);
+    expect(posts[0].n).toBe(100);
+    expect(posts[149].n).toBe(249);
+    expect(typeof posts[0].save).toBe('function');
+  });
+
+  it('should yield plain rows with lean()', async () => {
+    const Post = model('Post', PostSchema);
+    await Post.create({ n: 1 });
+
+    const [post] = await collect(Post.find().lean().cursor());
+    expect(post.n).toBe(1);
+    expect('save' in post).toBe(false);
+  });
+
+  it('should release the cursor when iteration stops early', async () => {
+    const Post = model('Post', PostSchema);
+    await Post.insertMany(Array.from({ length: 10 }, (_, n) => ({ n })));
+
+    for await (const post of Post.find().cursor()) {
+      if (post.n === 2) break;
+    }
+
+    // SQLite iterate() açık kalsaydı yazma "busy" hatası verirdi
+    await Post.create({ n: 99 });
+    expect(await Post.countDocuments()).toBe(11);
+  });
+
+  it('should populate refs batch by batch', async () => {
+    const Author = model('Author', AuthorSchema);
+    const Post = model('Post', PostSchema);
+    const ada = await Author.create({ name: 'Ada' });
+    await Post.insertMany(Array.from({ length: 5 }, (_, n) => ({ n, author: ada._id })));
+
+    const posts = await collect(Post.find().populate({ path: 'author', model: 'Author' }).cursor({ batchSize: 2 }));
+
+    expect(posts).toHaveLength(5);
+    expect(posts.map(p => p.author)).toEqual(Array(5).fill(expect.objectContaining({ name: 'Ada' })));
+  });
+
+  it('should run pre find hooks', async () => {
+    const schema = new Schema({ n: Number });
+    schema.pre('find', function () {
+      this.filter = { ...this.filter, n: { $lt: 2 } };
+    });
+    const Item = model('Item', schema);
+    await Item.insertMany([{ n: 1 }, { n: 2 }, { n: 3 }]);
+
+    const items = await collect(Item.find().cursor());
+    expect(items.map(i => i.n)).toEqual([1]);
+  });
+
+  it('should only be available on find()', () => {
+    const Post = model('Post', PostSchema);
+    expect(() => Post.findOne().cursor()).toThrow('cursor() is only supported for find()');
+  });
+});
+
+describe('Adapter cursors', () => {
+  it('should read PostgreSQL rows through pg-cursor in batches', async () => {
+    const batches = [[{ _id: '1' }, { _id: '2' }], [{ _id: '3' }], []];
+    const cursor = { read: vi.fn(async () => batches.shift()), close: vi.fn(async () => {}) };
+    const client = { query: vi.fn((_query: unknown) => cursor), release: vi.fn() };
+    const adapter = new PostgreSQLAdapter();
+    (adapter as any).pool = { connect: async () => client };
+    (adapter as any).connected = true;
+
+    const iterator = adapter.findCursor('users', { age: { $gt: 18 } }, { batchSize: 2 })[Symbol.asyncIterator]();
+
+    // İlk parça tüketilmeden ikinci parça okunmaz
+    expect((await iterator.next()).value).toEqual({ _id: '1' });
+    expect(cursor.read).toHaveBeenCalledTimes(1);
+    expect(cursor.read).toHaveBeenCalledWith(2);
+
+    const query = client.query.mock.calls[0][0] as { text: string; values: unknown[] };
+    expect(query.text).toContain('SELECT * FROM "users" WHERE age > $1');
+    expect(query.values).toEqual([18]);
+
+    const rest = [];
+    for (let r = await iterator.next(); !r.done; r = await iterator.next()) rest.push(r.value);
+    expect(rest).toEqual([{ _id: '2' }, { _id: '3' }]);
+    expect(cursor.close).toHaveBeenCalled();
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('should fail over to the next replica when opening a PostgreSQL cursor', async () => {
+    const cursor = { read: vi.fn(async () => []), close: vi.fn(async () => {}) };
+    const client = { query: vi.fn(() => cursor), release: vi.fn() };
+    const broken = { connect: vi.fn(async () => { throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }); }) };
+    const healthy = { connect: vi.fn(async () => client) };
+    const primary = { connect: vi.fn(async () => client) };
+    const adapter = new PostgreSQLAdapter();
+    (adapter as any).pool = primary;
+    (adapter as any).replicas = new ReplicaSet([broken, healthy]);
+    (adapter as any).connected = true;
+
+    await collect(adapter.findCursor('users', {}));
+    await collect(adapter.findCursor('users', {}));
+
+    // Hatalı replica bir süre atlanır
+    expect(broken.connect).toHaveBeenCalledTimes(1);
+    expect(healthy.connect).toHaveBeenCalledTimes(2);
+    expect(primary.connect).not.toHaveBeenCalled();
+    expect(client.release).toHaveBeenCalledTimes(2);
+  });
+
+  // mysql2 Query komutu: stream() satırları verir, sorgu bitince 'end' yayılır
+  const mysqlConnection = (rows: Record<string, unknown>[], complete = true) => {
+    const query = Object.assign(new EventEmitter(), {
+      stream: vi.fn(() => Readable.from((function* () {
+        yield* rows;
+        if (complete) query.emit('end');
+      })()))
+    });
+    const conn = { connection: { query: vi.fn(() => query) }, release: vi.fn(), destroy: vi.fn() };
+    return { query, conn };
+  };
+
+  it('should stream MySQL rows with query().stream()', async () => {
+    const { query, conn } = mysqlConnection([{ _id: '1', tags: '["a"]' }, { _id: '2', tags: null }]);
+    const adapter = new MySQLAdapter();
+    (adapter as any).pool = { getConnection: async () => conn };
+    (adapter as any).connected = true;
+
+    const rows = await collect(adapter.findCursor('users', {}, { batchSize: 500 }));
+
+    expect(rows).toEqual([{ _id: '1', tags: ['a'] }, { _id: '2', tags: null }]);
+    expect(query.stream).toHaveBeenCalledWith({ highWaterMark: 500 });
+    expect(conn.release).toHaveBeenCalled();
+    expect(conn.destroy).not.toHaveBeenCalled();
+  });
+
+  it('should destroy the MySQL connection when the cursor is left early', async () => {
+    const { conn } = mysqlConnection([{ _id: '1' }, { _id: '2' }, { _id: '3' }], false);
+    const adapter = new MySQLAdapter();
+    (adapter as any).pool = { getConnection: async () => conn };
+    (adapter as any).connected = true;
+
+    for await (const row of adapter.findCursor('users', {})) {
+      expect(row).toEqual({ _id: '1' });
+      break;
+    }
+
+    expect(conn.destroy).toHaveBeenCalled();
+    expect(conn.release).not.toHaveBeenCalled();
+  });
+
+  it('should drain the pinned transaction connection when the cursor is left early', async () => {
+    const { query, conn } = mysqlConnection([{ _id: '1' }, { _id: '2' }], false);
+    const adapter = new MySQLAdapter();
+    (adapter as any).connected = true;
+
+    let drained = false;
+    const leave = (adapter as any).session.run(conn, async () => {
+      for await (const _row of adapter.findCursor('users', {})) break;
+      drained = true;
+    });
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(drained).toBe(false);
+
+    query.emit('end');
+    await leave;
+    expect(drained).toBe(true);
+    expect(conn.destroy).not.toHaveBeenCalled();
+    expect(conn.release).not.toHaveBeenCalled();
+  });
+
+  it('should use the native MongoDB cursor with batchSize', async () => {
+    const docs = [{ _id: 'a', name: 'x' }];
+    const cursor: Record<string, unknown> = {
+      sort: vi.fn(() => cursor),
+      batchSize: vi.fn(() => cursor),
+      close: vi.fn(async () => {}),
+      async *[Symbol.asyncIterator]() { yield* docs; }
+    };
+    const adapter = new MongoDBAdapter();
+    (adapter as any).getCollection = () => ({ find: () => cursor });
+
+    const rows = await collect(adapter.findCursor('users', {}, { sort: { name: 1 }, batchSize: 1000 }));
+
+    expect(rows).toEqual([{ _id: 'a', name: 'x' }]);
+    expect(cursor.batchSize).toHaveBeenCalledWith(1000);
+    expect(cursor.close).toHaveBeenCalled();
+  });
+});
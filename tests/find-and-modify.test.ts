@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import { PostgreSQLAdapter } from '../src/adapters/postgres';
+import { MySQLAdapter } from '../src/adapters/mysql';
+import { MongoDBAdapter } from '../src/adapters/mongodb';
+
+describe('findOneAndUpdate / findOneAndDelete with SQLite', () => {
+  const JobSchema = new Schema({
+    n: Number,
+    status: { type: String, default: 'pending' },
+    worker: String
+  });
+
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  async function seed() {
+    const Job = model('Job', JobSchema);
+    await Job.insertMany([{ n: 2 }, { n: 1 }, { n: 3 }]);
+    return Job;
+  }
+
+  it('should return the previous document by default and the updated one with new', async () => {
+    const Job = await seed();
+
+    const before = await Job.findOneAndUpdate({ n: 1 }, { $set: { status: 'running' } });
+    const after = await Job.findOneAndUpdate({ n: 1 }, { $set: { status: 'done' } }, { new: true });
+
+    expect(before).toMatchObject({ n: 1, status: 'pending' });
+    expect(after).toMatchObject({ n: 1, status: 'done' });
+    expect(after!._id).toBe(before!._id);
+  });
+
+  it('should modify only the first row in sort order', async () => {
+    const Job = await seed();
+
+    const claimed = await Job.findOneAndUpdate(
+      { status: 'pending' },
+      { $set: { status: 'running', worker: 'w1' } },
+      { sort: { n: -1 }, new: true }
+    );
+
+    expect(claimed).toMatchObject({ n: 3, worker: 'w1' });
+    expect(await Job.countDocuments({ status: 'running' })).toBe(1);
+  });
+
+  it('should hand out each row once to concurrent callers', async () => {
+    const Job = await seed();
+
+    const claimed = await Promise.all([1, 2, 3, 4].map(i => Job.findOneAndUpdate(
+      { status: 'pending' },
+      { $set: { status: 'running', worker: `w${i}` } },
+      { sort: { n: 1 }, new: true }
+    )));
+
+    expect(claimed.map(job => job?.n)).toEqual([1, 2, 3, undefined]);
+  });
+
+  it('should apply the projection to the returned document', async () => {
+    const Job = await seed();
+
+    const job = await Job.findOneAndUpdate({ n: 2 }, { $set: { worker: 'w1' } }, { projection: ['n', 'worker'], new: true });
+    const doc = job!.toObject() as Record<string, unknown>;
+
+    expect(doc).toMatchObject({ n: 2, worker: 'w1' });
+    expect(doc).not.toHaveProperty('status');
+  });
+
+  it('should delete the first matching row and return it', async () => {
+    const Job = await seed();
+
+    const deleted = await Job.findOneAndDelete({ status: 'pending' }, { sort: { n: -1 } });
+
+    expect(deleted).toMatchObject({ n: 3 });
+    expect((await Job.find().sort({ n: 1 }).lean()).map(job => job.n)).toEqual([1, 2]);
+    expect(await Job.findOneAndDelete({ n: 3 })).toBeNull();
+  });
+});
+
+describe('Adapter findOneAndUpdate / findOneAndDelete SQL', () => {
+  it('should lock and update in one PostgreSQL statement', async () => {
+    const adapter = new PostgreSQLAdapter();
+    const queries: Array<{ sql: string; params: unknown[] }> = [];
+    (adapter as any).query = async (sql: string, params: unknown[]) => {
+      queries.push({ sql, params });
+      return [{ _id: '1', qty: 1 }];
+    };
+
+    await adapter.findOneAndUpdate('items', { sku: 'a' }, { $inc: { qty: 1 } }, { sort: { qty: -1 } });
+    await adapter.findOneAndDelete('items', { sku: 'a' }, { projection: ['sku'] });
+
+    expect(queries[0].sql).toBe(
+      'WITH updated AS (UPDATE "items" SET qty = "items".qty + $2 ' +
+      'FROM (SELECT * FROM "items" WHERE sku = $1 ORDER BY qty DESC LIMIT 1 FOR UPDATE) AS "old" ' +
+      'WHERE "items"."_id" = "old"."_id" RETURNING "old".*) SELECT * FROM updated'
+    );
+    expect(queries[0].params).toEqual(['a', 1]);
+    expect(queries[1].sql).toBe(
+      'DELETE FROM "items" WHERE "_id" = (SELECT "_id" FROM "items" WHERE sku = $1 LIMIT 1 FOR UPDATE) RETURNING sku'
+    );
+  });
+
+  it('should use SELECT ... FOR UPDATE inside a MySQL transaction', async () => {
+    const statements: string[] = [];
+    const conn = {
+      beginTransaction: vi.fn(async () => { statements.push('BEGIN'); }),
+      commit: vi.fn(async () => { statements.push('COMMIT'); }),
+      rollback: vi.fn(),
+      release: vi.fn(),
+      execute: vi.fn(async (sql: string) => {
+        statements.push(sql);
+        return [sql.startsWith('SELECT') ? [{ _id: '1', qty: 2 }] : { affectedRows: 1 }];
+      })
+    };
+    const adapter = new MySQLAdapter();
+    (adapter as any).pool = { getConnection: async () => conn, execute: vi.fn() };
+    (adapter as any).connected = true;
+
+    const doc = await adapter.findOneAndUpdate('items', { sku: 'a' }, { $inc: { qty: 1 } }, { new: true });
+
+    expect(statements).toEqual([
+      'BEGIN',
+      'SELECT `_id` FROM `items` WHERE sku = ? LIMIT 1 FOR UPDATE',
+      'UPDATE `items` SET `qty` = `qty` + ? WHERE `_id` = ?',
+      'SELECT * FROM `items` WHERE `_id` = ?',
+      'COMMIT'
+    ]);
+    expect(doc).toEqual({ _id: '1', qty: 2 });
+    expect(conn.release).toHaveBeenCalled();
+  });
+
+  it('should call the native MongoDB methods', async () => {
+    const findOneAndUpdate = vi.fn(async () => ({ value: { _id: 'x', qty: 2 }, ok: 1 }));
+    const findOneAndDelete = vi.fn(async () => ({ value: null, ok: 1 }));
+    const adapter = new MongoDBAdapter();
+    (adapter as any).getCollection = () => ({ findOneAndUpdate, findOneAndDelete });
+
+    const doc = await adapter.findOneAndUpdate('items', { sku: 'a' }, { $inc: { qty: 1 } }, {
+      new: true,
+      sort: { qty: -1 },
+      projection: 'qty'
+    });
+    const deleted = await adapter.findOneAndDelete('items', { sku: 'b' });
+
+    expect(findOneAndUpdate).toHaveBeenCalledWith({ sku: 'a' }, { $inc: { qty: 1 } }, {
+      sort: { qty: -1 },
+      projection: { qty: 1 },
+      upsert: false,
+      returnDocument: 'after',
+      includeResultMetadata: true
+    });
+    expect(doc).toEqual({ _id: 'x', qty: 2 });
+    expect(deleted).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import type { QueryContext } from '../src';
+
+describe('Query Hooks', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  function createSchema() {
+    return new Schema({ name: String, tenant: String });
+  }
+
+  it('should let pre find hooks mutate the filter', async () => {
+    const schema = createSchema();
+    schema.pre('find', function() {
+      this.filter.tenant = 'acme';
+    });
+    const Item = model('Item', schema);
+
+    await Item.create({ name: 'a', tenant: 'acme' });
+    await Item.create({ name: 'b', tenant: 'other' });
+
+    const items = await Item.find();
+
+    expect(items.map(i => i.name)).toEqual(['a']);
+  });
+
+  it('should let pre hooks mutate options', async () => {
+    const schema = createSchema();
+    schema.pre('find', function() {
+      this.options.sort = { name: -1 };
+    });
+    const Item = model('Item', schema);
+
+    await Item.create({ name: 'a' });
+    await Item.create({ name: 'b' });
+
+    const items = await Item.find();
+
+    expect(items.map(i => i.name)).toEqual(['b', 'a']);
+  });
+
+  it('should pass results to post find and findOne hooks', async () => {
+    const schema = createSchema();
+    const seen: unknown[] = [];
+    schema.post('find', function(docs: unknown[]) {
+      seen.push(docs.length);
+    });
+    schema.post('findOne', function(doc: any) {
+      seen.push(doc?.name);
+    });
+    const Item = model('Item', schema);
+
+    await Item.create({ name: 'a' });
+    await Item.find();
+    await Item.findOne({ name: 'a' });
+    await Item.findById('missing');
+
+    expect(seen).toEqual([1, 'a', undefined]);
+  });
+
+  it('should expose query context to updateOne hooks', async () => {
+    const schema = createSchema();
+    const contexts: QueryContext[] = [];
+    let postResult: any;
+    schema.pre('updateOne', function() {
+      contexts.push(this);
+      (this.update as any).$set.name = 'forced';
+    });
+    schema.post('updateOne', function(result: unknown) {
+      postResult = result;
+    });
+    const Item = model('Item', schema);
+
+    await Item.create({ name: 'a' });
+    await Item.updateOne({ name: 'a' }, { $set: { name: 'b' } });
+
+    expect(contexts[0].op).toBe('updateOne');
+    expect(contexts[0].model).toBe('Item');
+    expect(postResult.modifiedCount).toBe(1);
+    expect((await Item.findOne())?.name).toBe('forced');
+  });
+
+  it('should run deleteOne hooks', async () => {
+    const schema = createSchema();
+    const calls: string[] = [];
+    schema.pre('deleteOne', function() {
+      calls.push(`pre:${JSON.stringify(this.filter)}`);
+    });
+    schema.post('deleteOne', function(result: any) {
+      calls.push(`post:${result.deletedCount}`);
+    });
+    const Item = model('Item', schema);
+
+    await Item.create({ name: 'a' });
+    await Item.deleteOne({ name: 'a' });
+
+    expect(calls).toEqual(['pre:{"name":"a"}', 'post:1']);
+  });
+
+  it('should support async hooks and abort on errors', async () => {
+    const schema = createSchema();
+    schema.pre('find', async function() {
+      await new Promise(r => setTimeout(r, 1));
+      throw new Error('denied');
+    });
+    const Item = model('Item', schema);
+
+    await expect(Item.find()).rejects.toThrow('denied');
+  });
+
+  it('should wait for next() in callback style hooks', async () => {
+    const schema = createSchema();
+    const order: string[] = [];
+    schema.pre('findOne', function(next: () => void) {
+      setTimeout(() => {
+        order.push('first');
+        next();
+      }, 1);
+    });
+    schema.pre('findOne', function() {
+      order.push('second');
+    });
+    const Item = model('Item', schema);
+
+    await Item.findOne();
+
+    expect(order).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import type { InferSchemaType, Document } from '../src';
+
+describe('InferSchemaType', () => {
+  const AddressSchema = new Schema({
+    city: { type: String, required: true },
+    zip: String
+  }, { _id: false });
+
+  const CommentSchema = new Schema({
+    text: { type: String, required: true }
+  });
+
+  const UserSchema = new Schema({
+    name: { type: String, required: [true, 'İsim zorunludur'] },
+    age: Number,
+    active: { type: Boolean, default: true },
+    role: { type: String, enum: ['user', 'admin'] },
+    status: { type: String, enum: { values: ['draft', 'published'], message: 'Geçersiz' } },
+    birthday: Date,
+    manager: { type: Schema.Types.ObjectId, ref: 'User' },
+    meta: Schema.Types.Mixed,
+    tags: [String],
+    scores: { type: [Number] },
+    address: { type: AddressSchema, required: true },
+    comments: [CommentSchema],
+    profile: {
+      bio: String,
+      website: { type: String, required: true }
+    }
+  }, { timestamps: true });
+
+  type User = InferSchemaType<typeof UserSchema>;
+
+  it('should map field types and required fields', () => {
+    expectTypeOf<User['name']>().toEqualTypeOf<string>();
+    expectTypeOf<User['age']>().toEqualTypeOf<number | undefined>();
+    expectTypeOf<User['active']>().toEqualTypeOf<boolean>();
+    expectTypeOf<User['birthday']>().toEqualTypeOf<Date | undefined>();
+    expectTypeOf<User['manager']>().toEqualTypeOf<string | undefined>();
+    expectTypeOf<User['_id']>().toEqualTypeOf<string>();
+  });
+
+  it('should turn enums into unions', () => {
+    expectTypeOf<User['role']>().toEqualTypeOf<'user' | 'admin' | undefined>();
+    expectTypeOf<User['status']>().toEqualTypeOf<'draft' | 'published' | undefined>();
+  });
+
+  it('should infer arrays, nested objects and subdocuments', () => {
+    expectTypeOf<User['tags']>().toEqualTypeOf<string[] | undefined>();
+    expectTypeOf<User['scores']>().toEqualTypeOf<number[] | undefined>();
+    expectTypeOf<User['address']>().toEqualTypeOf<{ city: string; zip?: string }>();
+    expectTypeOf<User['comments']>().toEqualTypeOf<{ _id: string; text: string }[] | undefined>();
+    expectTypeOf<User['profile']>().toEqualTypeOf<{ website: string; bio?: string } | undefined>();
+  });
+
+  it('should add timestamps', () => {
+    expectTypeOf<User['createdAt']>().toEqualTypeOf<Date>();
+    expectTypeOf<User['updatedAt']>().toEqualTypeOf<Date>();
+    expectTypeOf<InferSchemaType<typeof CommentSchema>>().not.toHaveProperty('createdAt');
+  });
+});
+
+describe('model() type inference', () => {
+  const TaskSchema = new Schema({
+    title: { type: String, required: true },
+    priority: { type: String, enum: ['low', 'high'], default: 'low' },
+    done: Boolean
+  });
+
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should type documents from the schema', async () => {
+    const Task = model('Task', TaskSchema);
+
+    const task = await Task.create({ title: 'Yaz', done: false });
+    expectTypeOf(task.title).toEqualTypeOf<string>();
+    expectTypeOf(task.priority).toEqualTypeOf<'low' | 'high'>();
+    expectTypeOf(task.save).toBeFunction();
+    expect(task.priority).toBe('low');
+
+    const tasks = await Task.find({ title: 'Yaz' });
+    expectTypeOf(tasks[0].done).toEqualTypeOf<boolean | undefined>();
+    expect(tasks.map(t => t.title)).toEqual(['Yaz']);
+
+    await Task.updateOne({ _id: task._id }, { $set: { title: 'Yazıldı' } });
+    const updated = await Task.findById(task._id);
+    expect(updated?.title).toBe('Yazıldı');
+  });
+
+  it('should still accept an explicit document type', async () => {
+    interface ITask extends Document {
+      title: string;
+    }
+
+    const Task = model<ITask>('Task', TaskSchema);
+    await Task.create({ title: 'Oku' });
+
+    const task = await Task.findOne({ title: 'Oku' });
+    expectTypeOf(task).toEqualTypeOf<ITask | null>();
+    expect(task?.title).toBe('Oku');
+  });
+});
@@ -0,0 +1,49 @@
+// ============================================
+// SDBC - lean() Benchmark
+// Run with: npm run bench
+// ============================================
+
+import { bench, describe } from 'vitest';
+import { Schema, model, connect, clearModels, connectionManager } from '../src';
+
+const ROW_COUNT = 10_000;
+
+clearModels();
+await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+
+const schema = new Schema({
+  name: String,
+  email: String,
+  age: Number
+}, { timestamps: true });
+
+schema.methods.isAdult = function() {
+  return this.age >= 18;
+};
+schema.virtual('label').get(function(this: any) {
+  return `${this.name} <${this.email}>`;
+});
+
+const User = model('BenchUser', schema);
+const adapter = connectionManager.getAdapter();
+await adapter.createCollection(User.collectionName, schema);
+await adapter.insertMany(
+  User.collectionName,
+  Array.from({ length: ROW_COUNT }, (_, i) => ({
+    name: `user-${i}`,
+    email: `user-${i}@example.com`,
+    age: i % 80,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }))
+);
+
+describe(`find() on ${ROW_COUNT} rows`, () => {
+  bench('wrapped documents', async () => {
+    await User.find();
+  });
+
+  bench('lean()', async () => {
+    await User.find().lean();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+
+describe('lean()', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  function createUserModel() {
+    const schema = new Schema({ firstName: String, lastName: String });
+    schema.methods.greet = function() {
+      return `Hi ${this.firstName}`;
+    };
+    schema.virtual('fullName').get(function(this: any) {
+      return `${this.firstName} ${this.lastName}`;
+    });
+    return model('User', schema);
+  }
+
+  it('should return wrapped documents by default', async () => {
+    const User = createUserModel();
+    await User.create({ firstName: 'Ali', lastName: 'Yılmaz' });
+
+    const [user] = await User.find();
+
+    expect(typeof user.save).toBe('function');
+    expect(user.fullName).toBe('Ali Yılmaz');
+  });
+
+  it('should return plain rows from find()', async () => {
+    const User = createUserModel();
+    await User.create({ firstName: 'Ali', lastName: 'Yılmaz' });
+
+    const [user] = await User.find().lean();
+
+    expect(user.firstName).toBe('Ali');
+    expect('save' in user).toBe(false);
+    expect('greet' in user).toBe(false);
+    expect('fullName' in user).toBe(false);
+  });
+
+  it('should return plain row or null from findOne()', async () => {
+    const User = createUserModel();
+    await User.create({ firstName: 'Ali', lastName: 'Yılmaz' });
+
+    const user = await User.findOne({ firstName: 'Ali' }).lean();
+    const missing = await User.findOne({ firstName: 'Veli' }).lean();
+
+    expect(user).toEqual(expect.objectContaining({ firstName: 'Ali', lastName: 'Yılmaz' }));
+    expect(Object.getPrototypeOf(user)).toBe(Object.prototype);
+    expect(missing).toBeNull();
+  });
+
+  it('should keep populate working in lean mode', async () => {
+    const User = createUserModel();
+    const Post = model('Post', new Schema({ title: String, author: { type: 'ObjectId', ref: 'User' } }));
+
+    const ali = await User.create({ firstName: 'Ali', lastName: 'Yılmaz' });
+    await Post.create({ title: 'Hello', author: ali._id });
+
+    const post = await Post.findOne().populate('author').lean();
+
+    expect((post?.author as any).firstName).toBe('Ali');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { connect, disconnect, connectionManager } from '../src';
+import { MigrationManager, defineMigration, hasDrift, loadMigrations } from '../src/migration';
+import type { BaseAdapter } from '../src/adapters/base';
+
+describe('Migration checksums and drift', () => {
+  let dir: string;
+  const adapter = () => connectionManager.getAdapter() as BaseAdapter;
+
+  const writeMigration = (file: string, body = '') => {
+    fs.writeFileSync(path.join(dir, file), `exports.up = async () => {};\nexports.down = async () => {};\n${body}`);
+  };
+
+  const createManager = async (options = {}) => {
+    const manager = new MigrationManager(adapter(), options);
+    manager.addMigrations(await loadMigrations(dir));
+    return manager;
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdbc-drift-'));
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store a content checksum for each executed migration', async () => {
+    writeMigration('20240101000000_first.js');
+    await (await createManager()).migrate();
+
+    const { executed, drift } = await (await createManager()).status();
+    expect(executed[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+    expect(hasDrift(drift)).toBe(false);
+  });
+
+  it('should flag modified, missing and out-of-order migrations', async () => {
+    writeMigration('20240101000000_first.js');
+    writeMigration('20240103000000_third.js');
+    await (await createManager()).migrate();
+
+    writeMigration('20240101000000_first.js', '// edited after it ran');
+    fs.unlinkSync(path.join(dir, '20240103000000_third.js'));
+    writeMigration('20240102000000_second.js');
+    writeMigration('20240104000000_fourth.js');
+
+    const { drift } = await (await createManager()).status();
+    expect(drift).toEqual({
+      modified: ['20240101000000_first'],
+      missing: ['20240103000000_third'],
+      outOfOrder: ['20240102000000_second']
+    });
+  });
+
+  it('should refuse to migrate in strict mode when drift exists', async () => {
+    writeMigration('20240102000000_second.js');
+    await (await createManager()).migrate();
+    writeMigration('20240101000000_first.js');
+
+    const strict = await (await createManager({ strict: true })).migrate();
+    expect(strict).toMatchObject({ success: false, executed: [], pending: ['20240101000000_first'] });
+    expect(strict.error).toContain('20240101000000_first (out of order)');
+
+    const relaxed = await (await createManager()).migrate();
+    expect(relaxed.executed).toEqual(['20240101000000_first']);
+  });
+
+  it('should add the checksum column to an existing history table', async () => {
+    const sqlite = adapter() as any;
+    await sqlite.query('CREATE TABLE "_sdbc_migrations" (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL UNIQUE, timestamp INTEGER NOT NULL, executed_at TEXT DEFAULT CURRENT_TIMESTAMP, batch INTEGER NOT NULL)');
+    await sqlite.query('INSERT INTO "_sdbc_migrations" (name, timestamp, batch) VALUES (?, ?, ?)', ['20240101000000_legacy', 20240101000000, 1]);
+    writeMigration('20240101000000_legacy.js');
+
+    const { executed, drift } = await (await createManager({ strict: true })).status();
+    expect(executed[0].checksum).toBeNull();
+    expect(hasDrift(drift)).toBe(false);
+  });
+
+  it('should checksum programmatic migrations from their source', async () => {
+    const manager = new MigrationManager(adapter());
+    manager.addMigration({ ...defineMigration({ name: 'inline', up: async () => {}, down: async () => {} }), timestamp: 1 });
+    await manager.migrate();
+
+    const changed = new MigrationManager(adapter());
+    changed.addMigration({
+      ...defineMigration({ name: 'inline', up: async () => { await Promise.resolve(); }, down: async () => {} }),
+      timestamp: 1
+    });
+    expect((await changed.status()).drift.modified).toEqual(['inline']);
+  });
+});
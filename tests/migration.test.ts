@@ -1,5 +1,10 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { MigrationManager, defineMigration, createMigrationName } from '../src/migration';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MigrationManager, defineMigration, createMigrationName, loadMigrations } from '../src/migration';
+import { connect, disconnect, connectionManager } from '../src';
+import type { BaseAdapter } from '../src/adapters/base';
 import { SchemaBuilder, createSchemaBuilder } from '../src/migration';
 
 // Mock adapter
@@ -352,6 +357,20 @@ describe('SchemaBuilder', () => {
       expect(alterQuery).toBeDefined();
       expect(alterQuery).toContain('old_field');
     });
+
+    it('should change columns and indexes', async () => {
+      await schemaBuilder.alterTable('users', (table) => {
+        table.dropIndex('idx_users_nickname');
+        table.double('nickname').notNull().change();
+        table.index(['score'], 'idx_users_score');
+      });
+
+      expect(mockAdapter.queries).toEqual([
+        'DROP INDEX `idx_users_nickname` ON `users`',
+        'ALTER TABLE `users` MODIFY COLUMN `nickname` DOUBLE NOT NULL',
+        'CREATE INDEX `idx_users_score` ON `users` (`score`)'
+      ]);
+    });
   });
 
   describe('softDeletes', () => {
@@ -367,3 +386,133 @@ describe('SchemaBuilder', () => {
     });
   });
 });
+
+describe('loadMigrations with SQLite', () => {
+  let dir: string;
+
+  const writeMigration = (file: string, table: string) => {
+    fs.writeFileSync(path.join(dir, file), `
+exports.up = async (schema) => {
+  await schema.createTable('${table}', (table) => {
+    table.increments('id');
+    table.string('name').notNull();
+  });
+};
+exports.down = async (schema) => {
+  await schema.dropTable('${table}');
+};
+`);
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdbc-migrations-'));
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const tables = async () => {
+    const adapter = connectionManager.getAdapter() as any;
+    const rows = await adapter.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`);
+    return rows.map((row: { name: string }) => row.name);
+  };
+
+  it('should load migration files in timestamp order and record batches', async () => {
+    writeMigration('20240102000000_create_posts.js', 'posts');
+    writeMigration('20240101000000_create_users.js', 'users');
+    fs.writeFileSync(path.join(dir, 'README.md'), 'ignored');
+
+    const migrations = await loadMigrations(dir);
+    expect(migrations.map(m => [m.name, m.timestamp])).toEqual([
+      ['20240101000000_create_users', 20240101000000],
+      ['20240102000000_create_posts', 20240102000000]
+    ]);
+
+    const manager = new MigrationManager(connectionManager.getAdapter() as BaseAdapter);
+    manager.addMigrations(migrations);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    expect((await manager.migrate()).executed).toHaveLength(2);
+    writeMigration('20240103000000_create_tags.js', 'tags');
+    manager.addMigrations((await loadMigrations(dir)).slice(2));
+
+    const { executed, pending } = await manager.status();
+    expect(executed.map(m => [m.name, m.batch])).toEqual([
+      ['20240101000000_create_users', 1],
+      ['20240102000000_create_posts', 1]
+    ]);
+    expect(pending.map(m => m.name)).toEqual(['20240103000000_create_tags']);
+    expect(await tables()).toEqual(['_sdbc_migrations', 'posts', 'users']);
+
+    await manager.rollback();
+    expect(await tables()).toEqual(['_sdbc_migrations']);
+    vi.restoreAllMocks();
+  });
+
+  it('should reject files without a timestamp or up/down exports', async () => {
+    fs.writeFileSync(path.join(dir, 'create_users.js'), 'exports.up = async () => {};');
+    await expect(loadMigrations(dir)).rejects.toThrow('must start with a timestamp');
+
+    fs.renameSync(path.join(dir, 'create_users.js'), path.join(dir, '20240101000000_create_users.js'));
+    await expect(loadMigrations(dir)).rejects.toThrow('must export up() and down()');
+  });
+});
+
+describe('SchemaBuilder column changes with SQLite', () => {
+  const sqlite = () => connectionManager.getAdapter() as any;
+
+  beforeEach(async () => {
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    await sqlite().query('PRAGMA foreign_keys = ON');
+    await sqlite().query('CREATE TABLE "users" ("_id" TEXT PRIMARY KEY, "nickname" TEXT)');
+    await sqlite().query('CREATE TABLE "posts" ("_id" TEXT PRIMARY KEY, "author" TEXT REFERENCES "users" ("_id"))');
+    await sqlite().query(`INSERT INTO "users" VALUES ('u1', '7'), ('u2', NULL)`);
+    await sqlite().query(`INSERT INTO "posts" VALUES ('p1', 'u1')`);
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  const tables = async () => (await sqlite().query(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`))
+    .map((row: { name: string }) => row.name);
+
+  it('should rebuild a referenced table with foreign keys switched off', async () => {
+    await createSchemaBuilder(sqlite()).alterTable('users', (table) => {
+      table.double('nickname').change();
+    });
+
+    expect(await sqlite().query('SELECT * FROM "users" ORDER BY "_id"')).toEqual([
+      { _id: 'u1', nickname: 7 },
+      { _id: 'u2', nickname: null }
+    ]);
+    expect(await sqlite().query('SELECT * FROM "posts"')).toEqual([{ _id: 'p1', author: 'u1' }]);
+    expect(await sqlite().query('PRAGMA foreign_keys')).toEqual([{ foreign_keys: 1 }]);
+  });
+
+  it('should leave the original table in place when the copy fails', async () => {
+    const change = createSchemaBuilder(sqlite()).alterTable('users', (table) => {
+      table.double('nickname').notNull().change();
+    });
+
+    await expect(change).rejects.toThrow('NOT NULL constraint failed');
+    expect(await tables()).toEqual(['posts', 'users']);
+    expect(await sqlite().query('SELECT "_id" FROM "users" ORDER BY "_id"')).toEqual([{ _id: 'u1' }, { _id: 'u2' }]);
+    expect(await sqlite().query('PRAGMA foreign_keys')).toEqual([{ foreign_keys: 1 }]);
+  });
+
+  it('should use a savepoint inside an open transaction', async () => {
+    await sqlite().query('BEGIN');
+    const change = createSchemaBuilder(sqlite()).alterTable('users', (table) => {
+      table.double('nickname').notNull().change();
+    });
+
+    await expect(change).rejects.toThrow('NOT NULL constraint failed');
+    expect(sqlite().db.inTransaction).toBe(true);
+    await sqlite().query('ROLLBACK');
+    expect(await tables()).toEqual(['posts', 'users']);
+  });
+});
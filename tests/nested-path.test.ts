@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import { parseQueryFilter, toSQLWhere, toMySQLWhere, toSQLUpdate, toSQLFieldPath, toJSONPath } from '../src/utils/query-parser';
+
+describe('Nested dot-path fields', () => {
+  describe('toSQLFieldPath()', () => {
+    it('should leave plain fields untouched', () => {
+      expect(toSQLFieldPath('name', 'postgres')).toBe('name');
+    });
+
+    it('should compile PostgreSQL ->> access with casts', () => {
+      expect(toSQLFieldPath('address.city', 'postgres')).toBe(`("address"->>'city')`);
+      expect(toSQLFieldPath('stats.visits', 'postgres', { sample: 5 })).toBe(
+        `(CASE WHEN jsonb_typeof("stats"->'visits') = 'number' THEN ("stats"->>'visits')::numeric END)`
+      );
+      expect(toSQLFieldPath('address.geo.lat', 'postgres', { asJSON: true })).toBe(`"address"->'geo'->'lat'`);
+      expect(toSQLFieldPath('address.city', 'postgres', { asJSON: true, table: '"t"' })).toBe(`"t"."address"->'city'`);
+    });
+
+    it('should compile MySQL and SQLite JSON paths', () => {
+      expect(toSQLFieldPath('address.city', 'mysql')).toBe("JSON_UNQUOTE(JSON_EXTRACT(`address`, '$.city'))");
+      expect(toSQLFieldPath('tags.0', 'sqlite')).toBe(`json_extract("tags", '$[0]')`);
+      expect(toSQLFieldPath('address.city', 'mysql', { asJSON: true, table: '`t`' })).toBe("JSON_EXTRACT(`t`.`address`, '$.city')");
+      expect(toJSONPath(['a b', "it's"])).toBe(`$."a b"."it's"`);
+    });
+  });
+
+  describe('filters and updates', () => {
+    it('should use JSON access in WHERE clauses', () => {
+      const { where, params } = toSQLWhere(parseQueryFilter({ 'address.city': 'Ankara', age: { $gt: 18 } }));
+      expect(where).toBe(`("address"->>'city') = $1 AND age > $2`);
+      expect(params).toEqual(['Ankara', 18]);
+
+      expect(toMySQLWhere(parseQueryFilter({ 'address.zip': { $in: ['06', '34'] } })).where)
+        .toBe("JSON_UNQUOTE(JSON_EXTRACT(`address`, '$.zip')) IN (?, ?)");
+    });
+
+    it('should not cast $exists and $regex on PostgreSQL paths', () => {
+      expect(toSQLWhere(parseQueryFilter({ 'flags.active': { $exists: true } })).where)
+        .toBe(`("flags"->>'active') IS NOT NULL`);
+      expect(toSQLWhere(parseQueryFilter({ 'address.city': { $regex: 'ank' } })).where)
+        .toBe(`("address"->>'city') LIKE $1`);
+    });
+
+    it('should pick the PostgreSQL cast per value for mixed $in lists', () => {
+      const { where, params } = toSQLWhere(parseQueryFilter({ 'meta.code': { $in: [1, 'x', 2] } }));
+      expect(where).toBe(
+        `((CASE WHEN jsonb_typeof("meta"->'code') = 'number' THEN ("meta"->>'code')::numeric END) IN ($1, $2) OR ("meta"->>'code') IN ($3))`
+      );
+      expect(params).toEqual([1, 2, 'x']);
+
+      expect(toSQLWhere(parseQueryFilter({ 'meta.code': { $nin: [true, 'x'] } })).where).toBe(
+        `((CASE WHEN jsonb_typeof("meta"->'code') = 'boolean' THEN ("meta"->>'code')::boolean END) NOT IN ($1) AND ("meta"->>'code') NOT IN ($2))`
+      );
+    });
+
+    it('should compare Date operands on paths as ISO strings', () => {
+      const since = new Date('2024-01-01T00:00:00.000Z');
+      const { where, params } = toSQLWhere(parseQueryFilter({ 'meta.seenAt': { $gte: since }, createdAt: { $gte: since } }));
+      expect(where).toBe(`("meta"->>'seenAt') >= $1 AND createdAt >= $2`);
+      expect(params).toEqual(['2024-01-01T00:00:00.000Z', since]);
+    });
+
+    it('should compile nested $set to jsonb_set', () => {
+      const { sql, params } = toSQLUpdate('"users"', {
+        $set: { name: 'Ali', 'address.city': 'İzmir', 'address.zip': 35 }
+      }, '"_id" = $1', ['u1']);
+
+      expect(sql).toBe(
+        `UPDATE "users" SET name = $2, "address" = jsonb_set(jsonb_set(COALESCE("address", '{}'::jsonb), '{"city"}', $3::jsonb), '{"zip"}', $4::jsonb) WHERE "_id" = $1`
+      );
+      expect(params).toEqual(['u1', 'Ali', '"İzmir"', '35']);
+    });
+  });
+
+  describe('with SQLite', () => {
+    beforeEach(async () => {
+      clearModels();
+      await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    });
+
+    afterEach(async () => {
+      await disconnect();
+    });
+
+    const seed = async () => {
+      const User = model('User', new Schema({
+        name: String,
+        address: { type: Object },
+        meta: { type: 'Mixed' }
+      }));
+
+      await User.create([
+        { name: 'Ali', address: { city: 'Ankara', zip: 6 }, meta: { score: 10 } },
+        { name: 'Veli', address: { city: 'İstanbul', zip: 34 }, meta: { score: 2 } },
+        { name: 'Ayşe', address: { city: 'Ankara', zip: 6 }, meta: { score: 7 } }
+      ]);
+
+      return User;
+    };
+
+    it('should filter by nested fields', async () => {
+      const User = await seed();
+
+      const ankara = await User.find({ 'address.city': 'Ankara' });
+      expect(ankara.map(u => u.name).sort()).toEqual(['Ali', 'Ayşe']);
+
+      const high = await User.find({ 'meta.score': { $gte: 7 } });
+      expect(high.map(u => u.name).sort()).toEqual(['Ali', 'Ayşe']);
+    });
+
+    it('should sort by nested fields', async () => {
+      const User = await seed();
+
+      const users = await User.find().sort({ 'meta.score': -1 });
+      expect(users.map(u => u.name)).toEqual(['Ali', 'Ayşe', 'Veli']);
+    });
+
+    it('should $set nested fields without replacing the object', async () => {
+      const User = await seed();
+
+      await User.updateOne({ name: 'Veli' }, { $set: { 'address.city': 'İzmir', 'address.street': 'Kordon' } });
+      await User.updateMany({ 'address.city': 'Ankara' }, { $set: { 'meta.score': 0 } });
+
+      const veli = await User.findOne({ name: 'Veli' });
+      expect(veli?.address).toEqual({ city: 'İzmir', zip: 34, street: 'Kordon' });
+
+      const ali = await User.findOne({ name: 'Ali' });
+      expect(ali?.meta).toEqual({ score: 0 });
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+import { keysetFilter, encodeCursor, decodeCursor, withTieBreaker } from '../src/utils/pagination';
+import { parseQueryFilter, toSQLWhere, toMongoFilter } from '../src/utils/query-parser';
+
+describe('keyset helpers', () => {
+  it('should append _id as a tie-breaker', () => {
+    expect(withTieBreaker({ score: -1 })).toEqual({ score: -1, _id: 1 });
+    expect(withTieBreaker()).toEqual({ _id: 1 });
+  });
+
+  it('should round-trip cursor values including dates', () => {
+    const sort = { createdAt: -1 as const, _id: 1 as const };
+    const createdAt = new Date('2024-01-02T03:04:05.000Z');
+    const cursor = encodeCursor({ _id: 'abc', createdAt }, sort);
+
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(cursor, sort)).toEqual([createdAt, 'abc']);
+    expect(() => decodeCursor('not-a-cursor', sort)).toThrow('Invalid pagination cursor');
+    expect(() => decodeCursor(cursor, { _id: 1 })).toThrow('Invalid pagination cursor');
+  });
+
+  it('should compile the tie-breaking filter to SQL and MongoDB', () => {
+    const filter = keysetFilter({ score: -1, _id: 1 }, [10, 'abc']);
+    const conditions = parseQueryFilter(filter);
+
+    expect(toSQLWhere(conditions)).toEqual({
+      where: '(score < $1 OR score = $2 AND _id > $3)',
+      params: [10, 10, 'abc']
+    });
+    expect(toMongoFilter(conditions)).toEqual({
+      $or: [{ score: { $lt: 10 } }, { score: 10, _id: { $gt: 'abc' } }]
+    });
+  });
+});
+
+describe('Model.paginate()', () => {
+  const ItemSchema = new Schema({ n: Number, kind: String, at: Date });
+
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  async function seed() {
+    const Item = model('Item', ItemSchema);
+    // Eşit n değerleri _id ile ayrışmalı
+    await Item.insertMany(Array.from({ length: 7 }, (_, i) => ({
+      n: Math.floor(i / 2),
+      kind: i % 2 ? 'odd' : 'even',
+      at: new Date(Date.UTC(2024, 0, i + 1))
+    })));
+    return Item;
+  }
+
+  it('should walk every page forward without duplicates', async () => {
+    const Item = await seed();
+    const seen: string[] = [];
+    let after: string | undefined;
+    let pages = 0;
+
+    for (;;) {
+      const { edges, pageInfo } = await Item.paginate({}, { sort: { n: -1 }, first: 3, after });
+      seen.push(...edges.map(e => e.node._id));
+      pages++;
+      expect(pageInfo.hasPreviousPage).toBe(Boolean(after));
+      if (!pageInfo.hasNextPage) break;
+      after = pageInfo.endCursor!;
+    }
+
+    const all = await Item.find().sort({ n: -1, _id: 1 });
+    expect(pages).toBe(3);
+    expect(seen).toEqual(all.map(i => i._id));
+  });
+
+  it('should combine the cursor with the caller filter', async () => {
+    const Item = await seed();
+
+    const first = await Item.paginate({ kind: 'even' }, { sort: { at: 1 }, first: 2 });
+    const second = await Item.paginate({ kind: 'even' }, { sort: { at: 1 }, first: 2, after: first.pageInfo.endCursor! });
+
+    expect(first.edges.map(e => e.node.n)).toEqual([0, 1]);
+    expect(second.edges.map(e => e.node.n)).toEqual([2, 3]);
+    expect(second.pageInfo.hasNextPage).toBe(false);
+  });
+
+  it('should page backward with before', async () => {
+    const Item = await seed();
+
+    const last = await Item.paginate({}, { sort: { at: 1 }, first: 10 });
+    const cursor = last.edges[5].cursor;
+    const previous = await Item.paginate({}, { sort: { at: 1 }, first: 2, before: cursor });
+
+    expect(previous.edges.map(e => e.node.at)).toEqual([
+      new Date(Date.UTC(2024, 0, 4)),
+      new Date(Date.UTC(2024, 0, 5))
+    ]);
+    expect(previous.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: true });
+    expect(previous.pageInfo.startCursor).toBe(last.edges[3].cursor);
+  });
+
+  it('should report no next page for a backward page that ends at the last row', async () => {
+    const Item = await seed();
+
+    // Son kayıt 'even'; 'odd' filtresiyle ondan geriye giden sayfa son 'odd' kayıtta biter
+    const all = await Item.paginate({}, { sort: { at: 1 }, first: 10 });
+    const end = await Item.paginate({ kind: 'odd' }, { sort: { at: 1 }, first: 2, before: all.edges[6].cursor });
+    const middle = await Item.paginate({ kind: 'odd' }, { sort: { at: 1 }, first: 2, before: all.edges[5].cursor });
+    const empty = await Item.paginate({ kind: 'odd' }, { sort: { at: 1 }, first: 2, before: all.edges[0].cursor });
+
+    expect(end.edges.map(e => e.node.n)).toEqual([1, 2]);
+    expect(end.pageInfo).toMatchObject({ hasNextPage: false, hasPreviousPage: true });
+    expect(middle.edges.map(e => e.node.n)).toEqual([0, 1]);
+    expect(middle.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    expect(empty.edges).toEqual([]);
+    expect(empty.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+  });
+
+  it('should not use OFFSET', async () => {
+    const Item = await seed();
+    const find = vi.spyOn(connectionManager.getAdapter(), 'find');
+
+    const { pageInfo } = await Item.paginate({}, { first: 2 });
+    await Item.paginate({}, { first: 2, after: pageInfo.endCursor!, lean: true });
+
+    expect(find.mock.calls[1][2]).toMatchObject({ sort: { _id: 1 }, limit: 3 });
+    expect(find.mock.calls[1][2]).not.toHaveProperty('skip');
+  });
+
+  it('should reject after and before together', async () => {
+    const Item = await seed();
+    await expect(Item.paginate({}, { after: 'a', before: 'b' })).rejects.toThrow('either after or before');
+  });
+});
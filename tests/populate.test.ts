@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+import { normalizePopulate, populateBatched, resolvePopulate } from '../src/populate';
+
+describe('Populate', () => {
+  describe('normalizePopulate()', () => {
+    it('should split space separated paths', () => {
+      expect(normalizePopulate('author tags')).toEqual([{ path: 'author' }, { path: 'tags' }]);
+    });
+
+    it('should keep option objects', () => {
+      expect(normalizePopulate([{ path: 'author', select: 'name' }, 'tags'])).toEqual([
+        { path: 'author', select: 'name' },
+        { path: 'tags' }
+      ]);
+    });
+
+    it('should return empty list when not set', () => {
+      expect(normalizePopulate(undefined)).toEqual([]);
+    });
+  });
+
+  describe('resolvePopulate()', () => {
+    beforeEach(() => clearModels());
+
+    it('should throw when path has no ref', () => {
+      const schema = new Schema({ title: String });
+      expect(() => resolvePopulate(schema, 'title', () => undefined)).toThrow(/no ref defined/);
+    });
+
+    it('should throw when ref model is not registered', () => {
+      const schema = new Schema({ author: { type: 'ObjectId', ref: 'Missing' } });
+      expect(() => resolvePopulate(schema, 'author', () => undefined)).toThrow(/not registered/);
+    });
+  });
+
+  describe('with SQLite (JOIN)', () => {
+    beforeEach(async () => {
+      clearModels();
+      await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    });
+
+    afterEach(async () => {
+      await disconnect();
+    });
+
+    it('should populate single refs', async () => {
+      const User = model('User', new Schema({ name: String, email: String }));
+      const Post = model('Post', new Schema({
+        title: String,
+        author: { type: 'ObjectId', ref: 'User' }
+      }));
+
+      const ali = await User.create({ name: 'Ali', email: 'ali@example.com' });
+      await Post.create({ title: 'Hello', author: ali._id });
+
+      const posts = await Post.find().populate('author');
+
+      expect(posts).toHaveLength(1);
+      expect((posts[0].author as any).name).toBe('Ali');
+      expect((posts[0].author as any)._id).toBe(ali._id);
+    });
+
+    it('should sort by a dot path shared with the joined collection', async () => {
+      const User = model('User', new Schema({ name: String, meta: { type: Object } }));
+      const Post = model('Post', new Schema({
+        title: String,
+        meta: { type: Object },
+        author: { type: 'ObjectId', ref: 'User' }
+      }));
+
+      const ali = await User.create({ name: 'Ali', meta: { rank: 1 } });
+      await Post.create({ title: 'Second', meta: { rank: 2 }, author: ali._id });
+      await Post.create({ title: 'First', meta: { rank: 1 }, author: ali._id });
+
+      const posts = await Post.find().sort({ 'meta.rank': 1 }).populate('author');
+
+      expect(posts.map(p => p.title)).toEqual(['First', 'Second']);
+      expect((posts[0].author as any).name).toBe('Ali');
+    });
+
+    it('should honor select on populated docs', async () => {
+      const User = model('User', new Schema({ name: String, email: String }));
+      const Post = model('Post', new Schema({
+        title: String,
+        author: { type: 'ObjectId', ref: 'User' }
+      }));
+
+      const ali = await User.create({ name: 'Ali', email: 'ali@example.com' });
+      await Post.create({ title: 'Hello', author: ali._id });
+
+      const post = await Post.findOne({ title: 'Hello' }).populate({ path: 'author', select: 'name' });
+
+      expect(post?.author).toEqual({ _id: ali._id, name: 'Ali' });
+    });
+
+    it('should set null when referenced doc is missing', async () => {
+      model('User', new Schema({ name: String }));
+      const Post = model('Post', new Schema({
+        title: String,
+        author: { type: 'ObjectId', ref: 'User' }
+      }));
+
+      await Post.create({ title: 'Orphan', author: 'missing-id' });
+
+      const post = await Post.findOne().populate('author');
+      expect(post?.author).toBeNull();
+    });
+
+    it('should populate array refs and apply match', async () => {
+      const Tag = model('Tag', new Schema({ label: String, active: Boolean }));
+      const Post = model('Post', new Schema({
+        title: String,
+        tags: { type: Array, ref: 'Tag' }
+      }));
+
+      const a = await Tag.create({ label: 'a', active: true });
+      const b = await Tag.create({ label: 'b', active: false });
+      await Post.create({ title: 'Tagged', tags: [a._id, b._id] });
+
+      const all = await Post.findOne().populate('tags');
+      expect((all?.tags as any[]).map(t => t.label)).toEqual(['a', 'b']);
+
+      const active = await Post.findOne().populate({ path: 'tags', match: { active: 1 } });
+      expect((active?.tags as any[]).map(t => t.label)).toEqual(['a']);
+    });
+
+    it('should save populated docs back as ids', async () => {
+      const User = model('User', new Schema({ name: String }));
+      const Post = model('Post', new Schema({
+        title: String,
+        author: { type: 'ObjectId', ref: 'User' }
+      }));
+
+      const ali = await User.create({ name: 'Ali' });
+      await Post.create({ title: 'Hello', author: ali._id });
+
+      const post = await Post.findOne().populate('author');
+      post!.title = 'Updated';
+      await post!.save();
+
+      const raw = await Post.findOne();
+      expect(raw?.title).toBe('Updated');
+      expect(raw?.author).toBe(ali._id);
+    });
+  });
+
+  describe('batched lookups', () => {
+    it('should resolve N documents with a single $in query', async () => {
+      const adapter = {
+        name: 'mongodb',
+        capabilities: { joins: false },
+        find: vi.fn().mockResolvedValue([
+          { _id: 'u1', name: 'Ali' },
+          { _id: 'u2', name: 'Veli' }
+        ])
+      } as any;
+
+      const rows: Record<string, unknown>[] = [
+        { _id: 'p1', author: 'u1' },
+        { _id: 'p2', author: 'u2' },
+        { _id: 'p3', author: 'u1' }
+      ];
+      const userModel = { collectionName: 'users', schema: new Schema({ name: String }) } as any;
+
+      await populateBatched(adapter, rows, [{ path: 'author', model: userModel, isArray: false }]);
+
+      expect(adapter.find).toHaveBeenCalledTimes(1);
+      expect(adapter.find).toHaveBeenCalledWith('users', { _id: { $in: ['u1', 'u2'] } }, { select: undefined });
+      expect((rows[2].author as any).name).toBe('Ali');
+    });
+
+    it('should not JOIN on MongoDB', async () => {
+      clearModels();
+      const adapter = {
+        name: 'mongodb',
+        capabilities: { joins: false },
+        createCollection: vi.fn().mockResolvedValue(undefined),
+        find: vi.fn().mockResolvedValue([{ _id: 'p1', author: 'u1' }])
+      } as any;
+      connectionManager.adapter = adapter;
+
+      model('User', new Schema({ name: String }));
+      const Post = model('Post', new Schema({ author: { type: 'ObjectId', ref: 'User' } }));
+
+      adapter.find
+        .mockResolvedValueOnce([{ _id: 'p1', author: 'u1' }])
+        .mockResolvedValueOnce([{ _id: 'u1', name: 'Ali' }]);
+
+      const posts = await Post.find().populate('author');
+
+      expect(adapter.find.mock.calls[0][2].joins).toEqual([]);
+      expect((posts[0].author as any).name).toBe('Ali');
+
+      connectionManager.adapter = null;
+    });
+  });
+});
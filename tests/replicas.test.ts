@@ -0,0 +1,268 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PostgreSQLAdapter } from '../src/adapters/postgres';
+import { MySQLAdapter } from '../src/adapters/mysql';
+import { ReplicaSet } from '../src/adapters/replicas';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+
+function pgPool(name: string, rows: Record<string, unknown>[] = [{ _id: '1', name }]) {
+  return { name, query: vi.fn(async (_sql: string) => ({ rows })), end: vi.fn(async () => {}) };
+}
+
+function mysqlPool(name: string) {
+  return { name, execute: vi.fn(async () => [[{ _id: '1', count: 1, name }], []]), end: vi.fn(async () => {}) };
+}
+
+function withReplicas<A>(adapter: A, primary: unknown, replicas: unknown[], selection?: 'round-robin' | 'least-latency'): A {
+  (adapter as any).pool = primary;
+  (adapter as any).replicas = new ReplicaSet(replicas, selection);
+  (adapter as any).connected = true;
+  return adapter;
+}
+
+describe('ReplicaSet', () => {
+  it('should rotate replicas round-robin', () => {
+    const set = new ReplicaSet(['a', 'b', 'c']);
+    expect([set.pick(), set.pick(), set.pick(), set.pick()]).toEqual([0, 1, 2, 0]);
+  });
+
+  it('should prefer the replica with the lowest latency', () => {
+    const set = new ReplicaSet(['a', 'b'], 'least-latency');
+
+    // Ölçülmemiş replica'lar önce denenir
+    expect(set.pick()).toBe(0);
+    set.record(0, 40);
+    expect(set.pick()).toBe(1);
+    set.record(1, 10);
+    expect(set.pick()).toBe(1);
+
+    // Yavaşlayan replica'dan uzaklaşır
+    set.record(1, 200);
+    expect(set.pick()).toBe(0);
+  });
+
+  it('should time queries run on a replica', async () => {
+    const set = new ReplicaSet(['a', 'b'], 'least-latency');
+    const record = vi.spyOn(set, 'record');
+
+    await set.run(async pool => pool);
+    expect(record).toHaveBeenCalledWith(0, expect.any(Number));
+  });
+
+  it('should skip a replica that fails to connect instead of favouring it', async () => {
+    const set = new ReplicaSet(['down', 'up'], 'least-latency');
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    const fn = vi.fn(async (pool: string) => {
+      if (pool === 'down') throw refused;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return pool;
+    });
+
+    expect(await set.run(fn)).toBe('up');
+    expect(await set.run(fn)).toBe('up');
+    expect(fn.mock.calls.map(([pool]) => pool)).toEqual(['down', 'up', 'up']);
+  });
+
+  it('should fall back to the primary when every replica is down', async () => {
+    const set = new ReplicaSet(['r1', 'r2']);
+    const fn = vi.fn(async (pool: string) => {
+      if (pool !== 'primary') throw Object.assign(new Error('password authentication failed'), { code: '28P01' });
+      return pool;
+    });
+
+    expect(await set.run(fn, 'primary')).toBe('primary');
+    await expect(set.run(fn)).rejects.toThrow('password authentication failed');
+  });
+
+  it('should not retry query errors on other replicas', async () => {
+    const set = new ReplicaSet(['r1', 'r2']);
+    const fn = vi.fn(async () => {
+      throw Object.assign(new Error('syntax error at or near "FORM"'), { code: '42601' });
+    });
+
+    await expect(set.run(fn, 'primary')).rejects.toThrow('syntax error');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect([set.pick(), set.pick()]).toEqual([1, 0]);
+  });
+});
+
+describe('PostgreSQL read replicas', () => {
+  it('should route reads to replicas and writes to the primary', async () => {
+    const primary = pgPool('primary');
+    const replicas = [pgPool('r1'), pgPool('r2')];
+    const adapter = withReplicas(new PostgreSQLAdapter(), primary, replicas);
+
+    await adapter.find('users', {});
+    await adapter.findOne('users', {});
+    await adapter.countDocuments('users', {});
+    await adapter.insertOne('users', { name: 'Ali' });
+
+    expect(replicas[0].query).toHaveBeenCalledTimes(2);
+    expect(replicas[1].query).toHaveBeenCalledTimes(1);
+    expect(primary.query).toHaveBeenCalledTimes(1);
+    expect(primary.query.mock.calls[0][0]).toMatch(/^INSERT INTO/);
+  });
+
+  it('should retry a read on the next replica when one rejects immediately', async () => {
+    const primary = pgPool('primary');
+    const broken = pgPool('r1');
+    broken.query.mockRejectedValue(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+    const healthy = pgPool('r2');
+    const adapter = withReplicas(new PostgreSQLAdapter(), primary, [broken, healthy], 'least-latency');
+
+    expect(await adapter.find('users', {})).toEqual([{ _id: '1', name: 'r2' }]);
+    await adapter.find('users', {});
+
+    expect(broken.query).toHaveBeenCalledTimes(1);
+    expect(healthy.query).toHaveBeenCalledTimes(2);
+    expect(primary.query).not.toHaveBeenCalled();
+  });
+
+  it('should read from the primary when asked', async () => {
+    const primary = pgPool('primary');
+    const replica = pgPool('r1');
+    const adapter = withReplicas(new PostgreSQLAdapter(), primary, [replica]);
+
+    await adapter.find('users', {}, { read: 'primary' });
+
+    expect(primary.query).toHaveBeenCalledTimes(1);
+    expect(replica.query).not.toHaveBeenCalled();
+  });
+
+  it('should look up update and delete targets on the primary', async () => {
+    const primary = pgPool('primary');
+    const replica = pgPool('r1');
+    const adapter = withReplicas(new PostgreSQLAdapter(), primary, [replica]);
+
+    await adapter.updateOne('users', { name: 'Ali' }, { $set: { name: 'Veli' } });
+    await adapter.deleteOne('users', { name: 'Veli' });
+
+    expect(replica.query).not.toHaveBeenCalled();
+    expect(primary.query).toHaveBeenCalledTimes(4);
+  });
+
+  it('should close every opened pool when a replica fails to connect', async () => {
+    const pools: { uri: string; end: () => Promise<void> }[] = [];
+    vi.doMock('pg', () => ({
+      Pool: class {
+        uri: string;
+        end = vi.fn(async () => {});
+        constructor(options: { connectionString: string }) {
+          this.uri = options.connectionString;
+          pools.push(this);
+        }
+        async connect() {
+          if (this.uri.includes('down')) throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+          return { release: () => {} };
+        }
+      }
+    }));
+
+    try {
+      const adapter = new PostgreSQLAdapter();
+      await expect(adapter.connect('postgres://primary/app', {}, { replicas: ['postgres://r1/app', 'postgres://down/app'] }))
+        .rejects.toThrow('PostgreSQL connection failed: connect ECONNREFUSED');
+
+      expect(pools.map(pool => pool.uri)).toEqual(['postgres://primary/app', 'postgres://r1/app', 'postgres://down/app']);
+      for (const pool of pools) expect(pool.end).toHaveBeenCalled();
+      expect(adapter.isConnected()).toBe(false);
+    } finally {
+      vi.doUnmock('pg');
+    }
+  });
+
+  it('should close replica pools on disconnect', async () => {
+    const primary = pgPool('primary');
+    const replica = pgPool('r1');
+    const adapter = withReplicas(new PostgreSQLAdapter(), primary, [replica]);
+
+    await adapter.disconnect();
+
+    expect(replica.end).toHaveBeenCalled();
+    expect(primary.end).toHaveBeenCalled();
+    expect(adapter.isConnected()).toBe(false);
+  });
+});
+
+describe('MySQL read replicas', () => {
+  it('should route reads to replicas and writes to the primary', async () => {
+    const primary = mysqlPool('primary');
+    const replica = mysqlPool('r1');
+    const adapter = withReplicas(new MySQLAdapter(), primary, [replica]);
+
+    const rows = await adapter.find('users', {});
+    expect(rows[0].name).toBe('r1');
+    expect(await adapter.countDocuments('users', {})).toBe(1);
+    await adapter.find('users', {}, { read: 'primary' });
+    await adapter.deleteOne('users', {});
+
+    expect(replica.execute).toHaveBeenCalledTimes(2);
+    expect(primary.execute).toHaveBeenCalledTimes(3);
+  });
+
+  it('should close the primary pool when a replica fails to connect', async () => {
+    const pools: { host: string; end: () => Promise<void> }[] = [];
+    vi.doMock('mysql2/promise', () => ({
+      createPool: (options: { host: string }) => {
+        const pool = {
+          host: options.host,
+          end: vi.fn(async () => {}),
+          getConnection: async () => {
+            if (options.host === 'down') throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+            return { release: () => {} };
+          }
+        };
+        pools.push(pool);
+        return pool;
+      }
+    }));
+
+    try {
+      const adapter = new MySQLAdapter();
+      await expect(adapter.connect('mysql://primary/app', {}, { replicas: ['mysql://down/app'] }))
+        .rejects.toThrow('MySQL connection failed: connect ECONNREFUSED');
+
+      expect(pools.map(pool => pool.host)).toEqual(['primary', 'down']);
+      for (const pool of pools) expect(pool.end).toHaveBeenCalled();
+    } finally {
+      vi.doUnmock('mysql2/promise');
+    }
+  });
+});
+
+describe('Connection replicas option', () => {
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should reject replicas for providers without replica routing', async () => {
+    await expect(
+      connect({ provider: 'sqlite', uri: 'sqlite::memory:', replicas: ['sqlite::memory:'] })
+    ).rejects.toThrow('Read replicas are not supported for sqlite');
+  });
+});
+
+describe('QueryBuilder.read()', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should pass the read preference to the adapter', async () => {
+    const User = model('User', new Schema({ name: String }));
+    await User.create({ name: 'Ali' });
+
+    const find = vi.spyOn(connectionManager.getAdapter(), 'find');
+    const findOne = vi.spyOn(connectionManager.getAdapter(), 'findOne');
+
+    const users = await User.find({ name: 'Ali' }).read('primary');
+    await User.findOne({ name: 'Ali' }).read('primary');
+
+    expect(users).toHaveLength(1);
+    expect(find.mock.calls[0][2]).toMatchObject({ read: 'primary' });
+    expect(findOne.mock.calls[0][2]).toMatchObject({ read: 'primary' });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+import { Transaction, withTransaction } from '../src/Transaction';
+import type { BaseAdapter } from '../src/adapters/base';
+
+const TaskSchema = new Schema({
+  title: { type: String, required: true }
+});
+
+describe('Savepoints with SQLite', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  const adapter = () => connectionManager.getAdapter() as BaseAdapter;
+
+  it('should roll back to and release named savepoints', async () => {
+    const Task = model('Task', TaskSchema);
+    await Task.countDocuments();
+
+    const trx = new Transaction(adapter());
+    await trx.begin();
+    await Task.create({ title: 'a' }, { session: trx });
+    await trx.savepoint('before_b');
+    await Task.create({ title: 'b' }, { session: trx });
+    await trx.rollbackTo('before_b');
+    await Task.create({ title: 'c' }, { session: trx });
+    await trx.release('before_b');
+    await trx.commit();
+
+    expect((await Task.find().sort({ title: 1 }).lean()).map(t => t.title)).toEqual(['a', 'c']);
+    await expect(trx.release('before_b')).rejects.toThrow('No active transaction');
+  });
+
+  it('should run a nested withTransaction as a savepoint', async () => {
+    const Task = model('Task', TaskSchema);
+    await Task.countDocuments();
+
+    const outer = await withTransaction(adapter(), async () => {
+      await Task.create({ title: 'outer' });
+
+      const failed = await withTransaction(adapter(), async (inner) => {
+        expect(inner.isNested).toBe(true);
+        await Task.create({ title: 'inner' });
+        throw new Error('inner failed');
+      });
+      const committed = await withTransaction(adapter(), () => Task.create({ title: 'kept' }));
+
+      return [failed.success, committed.success];
+    });
+
+    expect(outer).toMatchObject({ success: true, data: [false, true] });
+    expect((await Task.find().sort({ title: 1 }).lean()).map(t => t.title)).toEqual(['kept', 'outer']);
+  });
+
+  it('should reject unknown and invalid savepoint names', async () => {
+    const trx = new Transaction(adapter());
+    await trx.begin();
+
+    await expect(trx.rollbackTo('missing')).rejects.toThrow('Savepoint not found: missing');
+    await expect(trx.savepoint('x; DROP TABLE tasks')).rejects.toThrow('Invalid savepoint name');
+    await trx.rollback();
+  });
+});
+
+describe('Nested transactions on PostgreSQL', () => {
+  it('should issue SAVEPOINT statements on the pinned client', async () => {
+    const client = { query: vi.fn(async (_sql: unknown, _params?: unknown[]) => ({ rows: [] })), release: vi.fn() };
+    const pool = { connect: vi.fn(async () => client), query: vi.fn() };
+    const { PostgreSQLAdapter } = await import('../src/adapters/postgres');
+    const adapter = new PostgreSQLAdapter();
+    (adapter as any).pool = pool;
+    (adapter as any).connected = true;
+
+    await withTransaction(adapter, async () => {
+      await withTransaction(adapter, async () => {
+        await withTransaction(adapter, async () => { throw new Error('fail'); });
+      });
+    });
+
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(client.query.mock.calls.map(call => call[0])).toEqual([
+      'BEGIN',
+      'SAVEPOINT sdbc_sp_1',
+      'SAVEPOINT sdbc_sp_2',
+      'ROLLBACK TO SAVEPOINT sdbc_sp_2',
+      'RELEASE SAVEPOINT sdbc_sp_2',
+      'RELEASE SAVEPOINT sdbc_sp_1',
+      'COMMIT'
+    ]);
+  });
+});
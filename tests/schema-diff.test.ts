@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Schema, connect, disconnect, connectionManager } from '../src';
+import {
+  MigrationManager,
+  diffModels,
+  diffTable,
+  introspectTable,
+  loadMigrations,
+  loadModels,
+  renderMigration
+} from '../src/migration';
+import type { BaseAdapter } from '../src/adapters/base';
+
+const UserV1 = new Schema({
+  name: { type: String, required: true },
+  email: { type: String, unique: true },
+  nickname: { type: String, index: true },
+  active: Boolean
+});
+
+const UserV2 = new Schema({
+  fullName: { type: String, required: true },
+  email: { type: String, unique: true },
+  nickname: { type: Number, required: true },
+  score: { type: Number, default: 0, index: true }
+});
+
+describe('Schema diff with SQLite', () => {
+  let dir: string;
+  const adapter = () => connectionManager.getAdapter() as BaseAdapter;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdbc-diff-'));
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    await adapter().createCollection('users', UserV1);
+    await adapter().insertOne('users', { _id: 'u1', name: 'Ada', email: 'ada@example.com', nickname: '7', active: true });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should detect added, dropped, retyped and renamed columns plus index changes', async () => {
+    const [diff] = await diffModels(adapter(), [{ collectionName: 'users', schema: UserV2 }]);
+
+    expect(diff.create).toBe(false);
+    expect(diff.added.map(c => c.name)).toEqual(['score']);
+    expect(diff.dropped.map(c => c.name)).toEqual(['active']);
+    expect(diff.renamed).toEqual([{ from: 'name', to: 'fullName' }]);
+    expect(diff.changed.map(c => [c.to.name, c.from.type, c.to.type, c.to.nullable])).toEqual([
+      ['nickname', 'text', 'double', false]
+    ]);
+    expect(diff.droppedIndexes.map(i => i.name)).toEqual(['idx_users_nickname']);
+    expect(diff.addedIndexes).toEqual([{ name: 'idx_users_score', columns: ['score'], unique: false }]);
+  });
+
+  it('should generate a migration that applies the diff and rolls it back', async () => {
+    const diffs = await diffModels(adapter(), [{ collectionName: 'users', schema: UserV2 }]);
+    fs.writeFileSync(path.join(dir, '20240101000000_update_users.ts'), renderMigration('20240101000000_update_users', diffs));
+
+    const manager = new MigrationManager(adapter());
+    manager.addMigrations(await loadMigrations(dir));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    expect((await manager.migrate()).success).toBe(true);
+    expect(await diffModels(adapter(), [{ collectionName: 'users', schema: UserV2 }])).toEqual([]);
+    expect(await adapter().findOne('users', { _id: 'u1' })).toMatchObject({ fullName: 'Ada', nickname: 7, score: 0 });
+
+    expect((await manager.rollback()).success).toBe(true);
+    expect(diffTable(adapter(), 'users', UserV1, await introspectTable(adapter(), 'users'))).toBeNull();
+    vi.restoreAllMocks();
+  });
+
+  it('should create missing tables and drop them on down', async () => {
+    const PostSchema = new Schema({ title: { type: String, required: true }, tags: [String] });
+    fs.writeFileSync(path.join(dir, 'Post.js'), 'exports.Post = globalThis.__post; exports.default = exports.Post;');
+    (globalThis as any).__post = { modelName: 'Post', collectionName: 'posts', schema: PostSchema };
+
+    const models = await loadModels(dir);
+    const diffs = await diffModels(adapter(), models);
+    const source = renderMigration('20240101000000_create_posts', diffs);
+
+    expect(models).toHaveLength(1);
+    expect(source).toContain(`await schema.createTable('posts', (table) => {
+    table.string('_id', 36).primary();
+    table.string('title').notNull();
+    table.json('tags');
+  });`);
+    expect(source).toContain(`await schema.dropTable('posts');`);
+    delete (globalThis as any).__post;
+  });
+
+  it('should add required columns as nullable on existing tables', async () => {
+    const schema = new Schema({ ...UserV1.definition, age: { type: Number, required: true } });
+    const source = renderMigration('20240101000000_add_age', await diffModels(adapter(), [{ collectionName: 'users', schema }]));
+
+    expect(source).toContain(`table.double('age'); // required in schema: backfill existing rows, then make it NOT NULL`);
+    expect(source).toContain(`table.dropColumn('age');`);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+import { toStorageSchema } from '../src/subdocument';
+
+const CommentSchema = new Schema({
+  body: { type: String, required: true },
+  likes: { type: Number, default: 0 }
+});
+
+describe('Subdocuments', () => {
+  describe('Schema normalization', () => {
+    it('should normalize nested objects, schemas and typed arrays', () => {
+      const schema = new Schema({
+        address: { city: String, country: { type: String, default: 'TR' } },
+        author: new Schema({ name: String }),
+        comments: [CommentSchema],
+        tags: [String],
+        replies: { type: [CommentSchema], default: [] }
+      });
+
+      expect(schema.path('address')?.type).toBe(Object);
+      expect(schema.path('address')?.schema?.options._id).toBe(false);
+      expect(schema.path('author')?.schema).toBeInstanceOf(Schema);
+      expect(schema.path('comments')).toMatchObject({ type: Array, of: { type: Object, schema: CommentSchema } });
+      expect(schema.path('tags')).toEqual({ type: Array, of: { type: String } });
+      expect(schema.path('replies')).toMatchObject({ type: Array, default: [], of: { schema: CommentSchema } });
+    });
+  });
+
+  describe('applyDefaults()', () => {
+    it('should apply nested defaults and generate subdocument ids', () => {
+      const schema = new Schema({
+        address: { city: String, country: { type: String, default: 'TR' } },
+        comments: [CommentSchema]
+      });
+
+      const doc = schema.applyDefaults({ comments: [{ body: 'Hi' }] });
+
+      expect(doc.address).toEqual({ country: 'TR' });
+      const [comment] = doc.comments as Record<string, unknown>[];
+      expect(comment).toMatchObject({ body: 'Hi', likes: 0 });
+      expect(comment._id).toMatch(/^[0-9a-f]{24}$/);
+      expect((doc.address as Record<string, unknown>)._id).toBeUndefined();
+    });
+  });
+
+  describe('validate()', () => {
+    it('should validate subdocuments recursively with full paths', async () => {
+      const schema = new Schema({
+        address: { city: { type: String, required: true } },
+        comments: [CommentSchema],
+        tags: [String]
+      });
+
+      await expect(schema.validate({
+        address: {},
+        comments: [{ body: 'ok' }, { likes: 1 }],
+        tags: ['a', 5]
+      })).rejects.toThrow(
+        "Validation failed: Field 'address.city' is required, Field 'comments.1.body' is required, Field 'tags.1' has invalid type"
+      );
+    });
+  });
+
+  describe('with SQLite', () => {
+    beforeEach(async () => {
+      clearModels();
+      await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    });
+
+    afterEach(async () => {
+      await disconnect();
+    });
+
+    it('should store subdocuments in a JSON column', async () => {
+      const Post = model('Post', new Schema({
+        title: String,
+        author: new Schema({ name: String }),
+        comments: [CommentSchema]
+      }));
+
+      const created = await Post.create({ title: 'Hello', author: { name: 'Ali' }, comments: [{ body: 'First' }] });
+      const post = await Post.findById(created._id);
+
+      expect((post?.author as any).name).toBe('Ali');
+      expect((post?.comments as any[])[0]).toMatchObject({ body: 'First', likes: 0 });
+    });
+
+    it('should store flattened subdocuments in separate columns', async () => {
+      const User = model('User', new Schema({
+        name: String,
+        address: { type: { city: String, zip: String }, flatten: true }
+      }));
+
+      await User.create({ name: 'Ali', address: { city: 'Ankara', zip: '06' } });
+      await User.create({ name: 'Veli' });
+
+      const columns = (connectionManager.getAdapter() as any).all('PRAGMA table_info("users")').map((c: any) => c.name);
+      expect(columns).toEqual(expect.arrayContaining(['address_city', 'address_zip']));
+      expect(columns).not.toContain('address');
+
+      const ali = await User.findOne({ 'address.city': 'Ankara' });
+      expect(ali?.address).toEqual({ city: 'Ankara', zip: '06' });
+
+      const veli = await User.findOne({ name: 'Veli' });
+      expect(veli?.address).toBeUndefined();
+
+      await User.updateOne({ name: 'Veli' }, { $set: { address: { city: 'İzmir' } } });
+      const moved = await User.find({ 'address.city': 'İzmir' }).select('name address');
+      expect(moved.map(u => ({ name: u.name, address: u.address }))).toEqual([{ name: 'Veli', address: { city: 'İzmir' } }]);
+    });
+
+    it('should map flattened paths in aggregate pipelines', async () => {
+      const User = model('User', new Schema({
+        name: String,
+        age: Number,
+        address: { type: { city: String, zip: String }, flatten: true }
+      }));
+
+      await User.create([
+        { name: 'Ali', age: 30, address: { city: 'Ankara', zip: '06' } },
+        { name: 'Ayşe', age: 20, address: { city: 'Ankara', zip: '06' } },
+        { name: 'Veli', age: 40, address: { city: 'İzmir', zip: '35' } },
+        { name: 'Can', age: 50 }
+      ]);
+
+      const byCity = await User.aggregate([
+        { $match: { 'address.zip': { $in: ['06', '35'] } } },
+        { $sort: { 'address.city': 1 } },
+        { $group: { _id: '$address.city', count: { $sum: 1 }, oldest: { $max: '$age' } } },
+        { $sort: { count: -1 } }
+      ]);
+      expect(byCity).toEqual([
+        { _id: 'Ankara', count: 2, oldest: 30 },
+        { _id: 'İzmir', count: 1, oldest: 40 }
+      ]);
+
+      const projected = await User.aggregate([
+        { $match: { 'address.city': 'İzmir' } },
+        { $project: { name: 1, 'address.city': 1, zip: '$address.zip' } }
+      ]);
+      expect(projected).toEqual([{ _id: expect.any(String), name: 'Veli', 'address.city': 'İzmir', zip: '35' }]);
+
+      const rows = await User.aggregate([{ $match: { 'address.city': 'Ankara' } }, { $sort: { age: 1 } }, { $limit: 1 }]);
+      expect(rows).toMatchObject([{ name: 'Ayşe', address: { city: 'Ankara', zip: '06' } }]);
+      expect(rows[0]).not.toHaveProperty('address_city');
+    });
+  });
+
+  describe('toStorageSchema()', () => {
+    it('should keep schemas without flatten fields as is', () => {
+      const schema = new Schema({ address: { city: String } });
+      expect(toStorageSchema(schema)).toBe(schema);
+    });
+
+    it('should add an _id column for flattened schema subdocuments', () => {
+      const schema = new Schema({ author: { type: new Schema({ name: String }), flatten: true, required: true } });
+      expect(Object.keys(toStorageSchema(schema).definition)).toEqual(['author__id', 'author_name']);
+    });
+  });
+});
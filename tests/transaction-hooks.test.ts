@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Transaction, withTransaction } from '../src/Transaction';
+import type { BaseAdapter } from '../src/adapters/base';
+
+const createPostgresAdapter = () => {
+  const statements: string[] = [];
+  const client = {
+    query: vi.fn(async (sql: string) => {
+      statements.push(sql);
+      return { rows: [] };
+    }),
+    release: vi.fn()
+  };
+  const adapter = { name: 'postgres', pool: { connect: async () => client } } as unknown as BaseAdapter;
+  return { adapter, statements };
+};
+
+describe('afterCommit / afterRollback', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should run afterCommit callbacks in order once COMMIT finished', async () => {
+    const { adapter, statements } = createPostgresAdapter();
+    const events: string[] = [];
+
+    const result = await withTransaction(adapter, async (trx) => {
+      trx.afterCommit(() => { events.push(`first after ${statements[statements.length - 1]}`); });
+      trx.afterCommit(async () => { events.push('second'); });
+      trx.afterRollback(() => { events.push('rollback'); });
+      events.push('callback');
+    });
+
+    expect(result.success).toBe(true);
+    expect(events).toEqual(['callback', 'first after COMMIT', 'second']);
+  });
+
+  it('should run afterRollback callbacks when the transaction fails', async () => {
+    const { adapter } = createPostgresAdapter();
+    const events: string[] = [];
+
+    await withTransaction(adapter, async (trx) => {
+      trx.afterCommit(() => { events.push('commit'); });
+      trx.afterRollback(() => { events.push('rollback'); });
+      throw new Error('fail');
+    });
+
+    expect(events).toEqual(['rollback']);
+  });
+
+  it('should isolate errors thrown by callbacks', async () => {
+    const { adapter } = createPostgresAdapter();
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const second = vi.fn();
+
+    const result = await withTransaction(adapter, async (trx) => {
+      trx.afterCommit(() => { throw new Error('mail server down'); });
+      trx.afterCommit(second);
+      return 'ok';
+    });
+
+    expect(result).toMatchObject({ success: true, data: 'ok' });
+    expect(second).toHaveBeenCalled();
+    expect(logged).toHaveBeenCalledWith('Transaction afterCommit callback failed:', expect.any(Error));
+  });
+
+  it('should surface callback errors on the result and to onHookError', async () => {
+    const { adapter } = createPostgresAdapter();
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onHookError = vi.fn();
+
+    const committed = await withTransaction(adapter, async (trx) => {
+      trx.afterCommit(() => { throw new Error('mail server down'); });
+      trx.afterCommit(() => { throw 'queue full'; });
+      return 'ok';
+    }, { onHookError });
+    const failed = await withTransaction(adapter, async (trx) => {
+      trx.afterRollback(() => { throw new Error('metrics down'); });
+      throw new Error('fail');
+    }, { onHookError });
+
+    expect(committed).toMatchObject({ success: true, data: 'ok' });
+    expect(committed.hookErrors?.map(e => e.message)).toEqual(['mail server down', 'queue full']);
+    expect(failed.hookErrors?.map(e => e.message)).toEqual(['metrics down']);
+    expect(onHookError.mock.calls.map(([error, hook]) => [error.message, hook])).toEqual([
+      ['mail server down', 'afterCommit'],
+      ['queue full', 'afterCommit'],
+      ['metrics down', 'afterRollback']
+    ]);
+    expect(logged).not.toHaveBeenCalled();
+  });
+
+  it('should keep the commit when onHookError itself throws', async () => {
+    const { adapter } = createPostgresAdapter();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const trx = new Transaction(adapter, { onHookError: () => { throw new Error('handler broke'); } });
+
+    await trx.begin();
+    trx.afterCommit(() => { throw new Error('mail server down'); });
+    await trx.commit();
+
+    expect(trx.isCommitted).toBe(true);
+    expect(trx.hookErrors.map(e => e.message)).toEqual(['mail server down']);
+  });
+
+  it('should defer nested callbacks to the outermost transaction', async () => {
+    const { adapter, statements } = createPostgresAdapter();
+    const events: string[] = [];
+
+    await withTransaction(adapter, async () => {
+      await withTransaction(adapter, async (inner) => {
+        inner.afterCommit(() => { events.push(`kept after ${statements[statements.length - 1]}`); });
+      });
+      await withTransaction(adapter, async (inner) => {
+        inner.afterCommit(() => { events.push('dropped'); });
+        inner.afterRollback(() => { events.push('savepoint undone'); });
+        throw new Error('inner failed');
+      });
+      expect(events).toEqual([]);
+    });
+
+    expect(events).toEqual(['kept after COMMIT', 'savepoint undone']);
+  });
+
+  it('should reject registration on an ended transaction', async () => {
+    const { adapter } = createPostgresAdapter();
+    const trx = new Transaction(adapter);
+    await trx.begin();
+    await trx.commit();
+
+    expect(() => trx.afterCommit(() => undefined)).toThrow('No active transaction');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { withTransaction, isRetryableTransactionError } from '../src/Transaction';
+import type { BaseAdapter } from '../src/adapters/base';
+
+const pgError = (code: string) => Object.assign(new Error(`pg error ${code}`), { code });
+
+// COMMIT fails with the given errors in order, then succeeds
+const createPostgresAdapter = (commitErrors: Error[] = []) => {
+  const client = {
+    query: vi.fn(async (sql: string) => {
+      if (sql === 'COMMIT' && commitErrors.length > 0) throw commitErrors.shift();
+      return { rows: [] };
+    }),
+    release: vi.fn()
+  };
+  const pool = { connect: vi.fn(async () => client) };
+  return { adapter: { name: 'postgres', pool } as unknown as BaseAdapter, client, pool };
+};
+
+describe('isRetryableTransactionError', () => {
+  it('should classify errors per provider', () => {
+    expect(isRetryableTransactionError('postgres', pgError('40001'))).toBe(true);
+    expect(isRetryableTransactionError('postgres', pgError('40P01'))).toBe(true);
+    expect(isRetryableTransactionError('postgres', pgError('23505'))).toBe(false);
+    expect(isRetryableTransactionError('mysql', Object.assign(new Error('deadlock'), { errno: 1213 }))).toBe(true);
+    expect(isRetryableTransactionError('mysql', pgError('40001'))).toBe(false);
+    expect(isRetryableTransactionError('mongodb', Object.assign(new Error('abort'), {
+      errorLabels: ['TransientTransactionError']
+    }))).toBe(true);
+  });
+
+  it('should look through wrapped causes', () => {
+    const wrapped = new Error('Failed to commit transaction', { cause: pgError('40001') });
+    expect(isRetryableTransactionError('postgres', wrapped)).toBe(true);
+  });
+});
+
+describe('TransactionManager.run retry', () => {
+  it('should re-run the callback after a serialization failure on COMMIT', async () => {
+    const { adapter, pool } = createPostgresAdapter([pgError('40001'), pgError('40001')]);
+    const callback = vi.fn(async () => 'done');
+
+    const result = await withTransaction(adapter, callback, {
+      isolationLevel: 'SERIALIZABLE',
+      retry: { maxRetries: 3, baseDelay: 1 }
+    });
+
+    expect(result).toMatchObject({ success: true, data: 'done', attempts: 3 });
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(pool.connect).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry a deadlock thrown from the callback', async () => {
+    const { adapter, client } = createPostgresAdapter();
+    const callback = vi.fn()
+      .mockRejectedValueOnce(pgError('40P01'))
+      .mockResolvedValue(1);
+
+    const result = await withTransaction(adapter, callback, { retry: { baseDelay: 1 } });
+
+    expect(result).toMatchObject({ success: true, attempts: 2 });
+    expect(client.query.mock.calls.map(call => call[0])).toEqual(['BEGIN', 'ROLLBACK', 'BEGIN', 'COMMIT']);
+  });
+
+  it('should not retry other errors or when retry is off', async () => {
+    const { adapter } = createPostgresAdapter();
+
+    const unique = await withTransaction(adapter, async () => { throw pgError('23505'); }, { retry: true });
+    const serialization = await withTransaction(adapter, async () => { throw pgError('40001'); });
+
+    expect(unique).toMatchObject({ success: false, attempts: 1 });
+    expect(serialization).toMatchObject({ success: false, attempts: 1 });
+  });
+
+  it('should give up after maxRetries', async () => {
+    const { adapter } = createPostgresAdapter();
+
+    const result = await withTransaction(adapter, async () => { throw pgError('40001'); }, {
+      retry: { maxRetries: 2, baseDelay: 1 }
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.attempts).toBe(3);
+    expect((result.error as Error & { code: string }).code).toBe('40001');
+  });
+
+  it('should not retry a nested transaction on its own', async () => {
+    const { adapter } = createPostgresAdapter();
+    const inner = vi.fn(async () => { throw pgError('40001'); });
+
+    const outer = await withTransaction(adapter, async () => {
+      return withTransaction(adapter, inner, { retry: { baseDelay: 1 } });
+    });
+
+    expect(outer.data).toMatchObject({ success: false, attempts: 1 });
+    expect(inner).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+import { Transaction, withTransaction } from '../src/Transaction';
+import type { BaseAdapter } from '../src/adapters/base';
+import { PostgreSQLAdapter } from '../src/adapters/postgres';
+import { MongoDBAdapter } from '../src/adapters/mongodb';
+import { MySQLAdapter } from '../src/adapters/mysql';
+
+const AccountSchema = new Schema({
+  owner: { type: String, required: true },
+  balance: { type: Number, default: 0 }
+});
+
+describe('Model sessions with SQLite', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  const adapter = () => connectionManager.getAdapter() as BaseAdapter;
+
+  it('should discard Model writes made with a session on rollback', async () => {
+    const Account = model('Account', AccountSchema);
+    await Account.create({ owner: 'kept' });
+
+    const trx = new Transaction(adapter());
+    await trx.begin();
+    await Account.create({ owner: 'a', balance: 10 }, { session: trx });
+    await Account.updateOne({ owner: 'kept' }, { $set: { balance: 5 } }, { session: trx });
+    expect(await Account.find().session(trx).lean()).toHaveLength(2);
+    await trx.rollback();
+
+    const accounts = await Account.find().lean();
+    expect(accounts.map(a => [a.owner, a.balance])).toEqual([['kept', 0]]);
+  });
+
+  it('should let Model calls inside withTransaction join automatically', async () => {
+    const Account = model('Account', AccountSchema);
+    const [from, to] = await Account.insertMany([{ owner: 'a', balance: 10 }, { owner: 'b' }]);
+
+    const result = await withTransaction(adapter(), async () => {
+      await Account.updateOne({ _id: from._id }, { $inc: { balance: -10 } });
+      await Account.updateOne({ _id: to._id }, { $inc: { balance: 10 } });
+      await Account.create({});
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.name).toBe('ValidationError');
+    expect((await Account.find().sort({ owner: 1 }).lean()).map(a => a.balance)).toEqual([10, 0]);
+  });
+
+  it('should reject a session that already ended', async () => {
+    const Account = model('Account', AccountSchema);
+    const trx = new Transaction(adapter());
+    await trx.begin();
+    await trx.commit();
+
+    await expect(Account.countDocuments({}, { session: trx })).rejects.toThrow('Transaction is not active');
+  });
+});
+
+describe('Adapter routing through a transaction', () => {
+  it('should send PostgreSQL queries to the pinned client', async () => {
+    const client = { query: vi.fn(async (_sql: unknown, _params?: unknown[]) => ({ rows: [] })), release: vi.fn() };
+    const pool = { connect: vi.fn(async () => client), query: vi.fn() };
+    const adapter = new PostgreSQLAdapter();
+    (adapter as any).pool = pool;
+    (adapter as any).connected = true;
+
+    const result = await withTransaction(adapter, async () => {
+      await adapter.find('accounts', { owner: 'a' });
+      await adapter.deleteMany('accounts', { owner: 'a' });
+    });
+
+    expect(result.success).toBe(true);
+    expect(pool.connect).toHaveBeenCalledTimes(1);
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(client.query.mock.calls.map(call => call[0])).toEqual([
+      'BEGIN',
+      'SELECT * FROM "accounts" WHERE owner = $1',
+      'WITH deleted AS (DELETE FROM "accounts" WHERE owner = $1 RETURNING *) SELECT COUNT(*) as count FROM deleted',
+      'COMMIT'
+    ]);
+  });
+
+  it('should keep MySQL first-touch DDL off the transaction connection', async () => {
+    // DDL, çalıştığı bağlantının bekleyen yazmalarını örtük olarak commit eder
+    const durable: string[] = [];
+    let pending: string[] = [];
+    const conn = {
+      execute: vi.fn(async (sql: string) => {
+        if (sql.startsWith('CREATE')) durable.push(...pending.splice(0));
+        else pending.push(sql);
+        return [[]];
+      }),
+      query: vi.fn(),
+      beginTransaction: vi.fn(),
+      rollback: vi.fn(async () => { pending = []; }),
+      release: vi.fn()
+    };
+    const pool = { getConnection: vi.fn(async () => conn), execute: vi.fn(async (_sql: string, _params?: unknown[]) => [[]]) };
+    const adapter = new MySQLAdapter();
+    (adapter as any).pool = pool;
+    (adapter as any).connected = true;
+
+    const result = await withTransaction(adapter, async () => {
+      await adapter.insertOne('accounts', { owner: 'a' });
+      await adapter.createCollection('ledger', new Schema({ note: { type: String, index: true } }));
+      throw new Error('abort');
+    });
+
+    expect(result.success).toBe(false);
+    expect(conn.rollback).toHaveBeenCalled();
+    expect(durable).toEqual([]);
+    expect(pool.execute.mock.calls.map(call => call[0].split(' (')[0])).toEqual([
+      'SELECT 1 FROM information_schema.tables WHERE table_schema = DATABASE() AND table_name = ?',
+      'CREATE TABLE IF NOT EXISTS `ledger`',
+      'CREATE INDEX `idx_ledger_note` ON `ledger`'
+    ]);
+  });
+
+  it('should pass the MongoDB session to driver calls', async () => {
+    const session = {
+      startTransaction: vi.fn(),
+      commitTransaction: vi.fn(async () => undefined),
+      endSession: vi.fn(async () => undefined)
+    };
+    const updateOne = vi.fn(async (..._args: unknown[]) => ({ acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0 }));
+    const adapter = new MongoDBAdapter();
+    (adapter as any).client = { startSession: () => session };
+    (adapter as any).getCollection = () => ({ updateOne });
+
+    const trx = new Transaction(adapter);
+    await trx.begin();
+    await trx.run(() => adapter.updateOne('accounts', { owner: 'a' }, { $set: { balance: 1 } }));
+    await adapter.updateOne('accounts', { owner: 'b' }, { $set: { balance: 1 } });
+    await trx.commit();
+
+    expect(updateOne.mock.calls[0][2]).toEqual({ upsert: false, session });
+    expect(updateOne.mock.calls[1][2]).toEqual({ upsert: false });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager, TransactionTimeoutError } from '../src';
+import { Transaction, withTransaction } from '../src/Transaction';
+import type { BaseAdapter } from '../src/adapters/base';
+
+const createPostgresAdapter = () => {
+  const client = { query: vi.fn(async (_sql: string) => ({ rows: [] })), release: vi.fn() };
+  const adapter = { name: 'postgres', pool: { connect: vi.fn(async () => client) } } as unknown as BaseAdapter;
+  return { adapter, client };
+};
+
+describe('Transaction timeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should roll back, release the client and reject further queries', async () => {
+    vi.useFakeTimers();
+    const { adapter, client } = createPostgresAdapter();
+    const trx = new Transaction(adapter, { timeout: 50 });
+
+    await trx.begin();
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(client.query.mock.calls.map(call => call[0])).toEqual([
+      'BEGIN',
+      'SET LOCAL statement_timeout = 50',
+      'SET LOCAL idle_in_transaction_session_timeout = 50',
+      'ROLLBACK'
+    ]);
+    expect(client.release).toHaveBeenCalled();
+    expect(trx.isTimedOut).toBe(true);
+    await expect(trx.query('SELECT 1')).rejects.toBeInstanceOf(TransactionTimeoutError);
+    await expect(trx.insert('users', { name: 'a' })).rejects.toThrow('timed out after 50ms');
+    await expect(trx.commit()).rejects.toBeInstanceOf(TransactionTimeoutError);
+  });
+
+  it('should stop the timer on commit', async () => {
+    vi.useFakeTimers();
+    const { adapter, client } = createPostgresAdapter();
+    const trx = new Transaction(adapter, { timeout: 50 });
+
+    await trx.begin();
+    await trx.commit();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(client.query.mock.calls.map(call => call[0])).not.toContain('ROLLBACK');
+    expect(trx.isCommitted).toBe(true);
+  });
+
+  it('should set and reset MySQL session timeouts', async () => {
+    const conn = {
+      query: vi.fn(async (_sql: string, _params?: unknown[]) => [[]]),
+      beginTransaction: vi.fn(),
+      commit: vi.fn(),
+      release: vi.fn()
+    };
+    const adapter = { name: 'mysql', pool: { getConnection: async () => conn } } as unknown as BaseAdapter;
+
+    await withTransaction(adapter, async () => undefined, { timeout: 2500 });
+
+    expect(conn.query.mock.calls).toEqual([
+      ['SET SESSION max_execution_time = ?, innodb_lock_wait_timeout = ?', [2500, 3]],
+      ['SET SESSION max_execution_time = DEFAULT, innodb_lock_wait_timeout = DEFAULT']
+    ]);
+    expect(conn.release).toHaveBeenCalled();
+  });
+
+  it('should destroy a MySQL connection whose rollback waits behind a stuck statement', async () => {
+    vi.useFakeTimers();
+    let abort: (error: Error) => void = () => undefined;
+    // mysql2 queues ROLLBACK behind the running UPDATE; destroying the socket fails both
+    const stuck = new Promise((_, reject) => { abort = reject; });
+    stuck.catch(() => undefined);
+    const conn = {
+      query: vi.fn((sql: string, _params?: unknown[]) => (sql.startsWith('SET') ? Promise.resolve([[]]) : stuck)),
+      beginTransaction: vi.fn(),
+      commit: vi.fn(),
+      rollback: vi.fn(() => stuck),
+      release: vi.fn(),
+      destroy: vi.fn(() => abort(new Error('Connection destroyed')))
+    };
+    const adapter = { name: 'mysql', pool: { getConnection: async () => conn } } as unknown as BaseAdapter;
+    const afterRollback = vi.fn();
+
+    const pending = withTransaction(adapter, async trx => {
+      trx.afterRollback(afterRollback);
+      await trx.query('UPDATE jobs SET n = SLEEP(60)');
+    }, { timeout: 50 });
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(conn.rollback).toHaveBeenCalled();
+    expect(conn.destroy).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+
+    expect(conn.destroy).toHaveBeenCalledTimes(1);
+    expect(conn.release).not.toHaveBeenCalled();
+    expect(afterRollback).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Transaction timeout with SQLite', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should fail the callback instead of letting later writes autocommit', async () => {
+    const Note = model('Note', new Schema({ text: String }));
+    await Note.countDocuments();
+
+    const result = await withTransaction(connectionManager.getAdapter() as BaseAdapter, async () => {
+      await Note.create({ text: 'before' });
+      await new Promise(resolve => setTimeout(resolve, 60));
+      await Note.create({ text: 'after' });
+    }, { timeout: 20 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(TransactionTimeoutError);
+    expect(await Note.countDocuments()).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels } from '../src';
+import type { QueryFilter, UpdateFilter, UntypedQueryFilter, Document } from '../src';
+
+const UserSchema = new Schema({
+  email: { type: String, required: true },
+  age: Number,
+  birthday: Date,
+  tags: [String],
+  address: { city: String }
+});
+
+interface User extends Document {
+  email: string;
+  age?: number;
+  birthday?: Date;
+  tags?: string[];
+  address?: { city?: string };
+}
+
+describe('QueryFilter<T>', () => {
+  it('should restrict keys to document fields', () => {
+    const filter: QueryFilter<User> = { email: 'a@b.c', age: { $gte: 18 } };
+    expect(filter.email).toBe('a@b.c');
+
+    // @ts-expect-error - typo
+    const typo: QueryFilter<User> = { emial: 'a@b.c' };
+    expect(typo).toBeDefined();
+  });
+
+  it('should type operator values by field type', () => {
+    const filter: QueryFilter<User> = { birthday: { $gt: new Date(0) }, tags: 'admin', $or: [{ age: { $in: [1, 2] } }] };
+    expect(filter.$or).toHaveLength(1);
+
+    // @ts-expect-error - $gt on a Date takes a Date
+    const wrong: QueryFilter<User> = { birthday: { $gt: 5 } };
+    expect(wrong).toBeDefined();
+
+    expectTypeOf<QueryFilter<User>>().toHaveProperty('age');
+  });
+
+  it('should allow dot paths into nested fields', () => {
+    const filter: QueryFilter<User> = { 'address.city': 'İzmir' };
+    expect(filter['address.city']).toBe('İzmir');
+
+    // @ts-expect-error - email is not an object
+    const wrong: QueryFilter<User> = { 'email.x': 1 };
+    expect(wrong).toBeDefined();
+  });
+
+  it('should keep the untyped form as an escape hatch', () => {
+    expectTypeOf<QueryFilter>().toEqualTypeOf<UntypedQueryFilter>();
+    expectTypeOf<QueryFilter<Document>>().toEqualTypeOf<UntypedQueryFilter>();
+
+    const filter: UntypedQueryFilter = { anything: { $exists: true } };
+    expect(filter.anything).toEqual({ $exists: true });
+  });
+});
+
+describe('UpdateFilter<T>', () => {
+  it('should restrict operators to matching fields', () => {
+    const update: UpdateFilter<User> = { $set: { email: 'x@y.z' }, $inc: { age: 1 }, $push: { tags: 'new' } };
+    expect(update).toBeDefined();
+
+    // @ts-expect-error - $inc only on numeric fields
+    const inc: UpdateFilter<User> = { $inc: { email: 1 } };
+    // @ts-expect-error - $push only on array fields
+    const push: UpdateFilter<User> = { $push: { age: 1 } };
+    // @ts-expect-error - unknown field in plain update
+    const plain: UpdateFilter<User> = { emial: 'x' };
+    expect([inc, push, plain]).toHaveLength(3);
+  });
+});
+
+describe('Model with typed filters', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should run typed queries and updates', async () => {
+    const User = model('User', UserSchema);
+    await User.create([{ email: 'a@x.com', age: 20 }, { email: 'b@x.com', age: 30 }]);
+
+    await User.updateOne({ email: 'a@x.com' }, { $inc: { age: 5 } });
+    const found = await User.find({ age: { $gte: 25 } }).sort({ email: 1 });
+    expect(found.map(u => u.email)).toEqual(['a@x.com', 'b@x.com']);
+
+    // @ts-expect-error - typo is caught at compile time
+    const none = await User.find({ emial: 'a@x.com' }).catch(() => []);
+    expect(none).toHaveLength(0);
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, connectionManager } from '../src';
+import { toUpsertDocument } from '../src/utils/query-parser';
+import { PostgreSQLAdapter } from '../src/adapters/postgres';
+import { MySQLAdapter } from '../src/adapters/mysql';
+import { MongoDBAdapter } from '../src/adapters/mongodb';
+
+const ItemSchema = new Schema({
+  sku: { type: String, unique: true },
+  qty: { type: Number, default: 0 },
+  status: { type: String, default: 'new' }
+}, { timestamps: true });
+
+describe('toUpsertDocument()', () => {
+  it('should merge filter equalities with update values', () => {
+    expect(toUpsertDocument(
+      { sku: 'a', qty: { $gt: 1 }, 'meta.kind': 'x' },
+      { $set: { status: 'open' }, $inc: { qty: 2 }, $push: { tags: 't' }, $setOnInsert: { source: 'api' } }
+    )).toEqual({ sku: 'a', status: 'open', qty: 2, tags: ['t'], source: 'api' });
+  });
+
+  it('should expand dot-path update keys into nested objects', () => {
+    const address = { country: 'TR' };
+    expect(toUpsertDocument(
+      { sku: 'a' },
+      { $set: { address, 'address.city': 'Ankara', 'address.geo.lat': 39.9 }, $inc: { 'stats.views': 1 } }
+    )).toEqual({ sku: 'a', address: { country: 'TR', city: 'Ankara', geo: { lat: 39.9 } }, stats: { views: 1 } });
+    expect(address).toEqual({ country: 'TR' });
+  });
+});
+
+describe('Upsert with SQLite', () => {
+  beforeEach(async () => {
+    clearModels();
+    await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+  });
+
+  afterEach(async () => {
+    await disconnect();
+  });
+
+  it('should insert once and update afterwards', async () => {
+    const Item = model('Item', ItemSchema);
+
+    const inserted = await Item.updateOne({ sku: 'a' }, { $inc: { qty: 2 } }, { upsert: true });
+    const updated = await Item.updateOne({ sku: 'a' }, { $inc: { qty: 2 } }, { upsert: true });
+
+    expect(inserted).toMatchObject({ matchedCount: 0, upsertedCount: 1 });
+    expect(inserted.upsertedId).toEqual(expect.any(String));
+    expect(updated).toMatchObject({ matchedCount: 1, modifiedCount: 1, upsertedCount: 0 });
+    expect(updated.upsertedId).toBeUndefined();
+
+    const items = await Item.find().lean();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ _id: inserted.upsertedId, sku: 'a', qty: 4, status: 'new' });
+    expect(items[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should use ON CONFLICT on the unique filter field', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.sync();
+    const run = vi.spyOn(connectionManager.getAdapter() as any, 'run');
+
+    await Item.updateOne({ sku: 'a' }, { $set: { status: 'open' } }, { upsert: true });
+
+    const insert = run.mock.calls.map(call => call[0] as string).find(sql => sql.startsWith('INSERT'));
+    expect(insert).toContain('ON CONFLICT("sku") DO UPDATE SET "status" = ?, "updatedAt" = ? WHERE sku = ?');
+  });
+
+  it('should reject a conflicting row that does not match the filter', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'a', qty: 10 });
+
+    await expect(Item.updateOne({ sku: 'a', qty: { $lt: 5 } }, { $set: { status: 'low' } }, { upsert: true }))
+      .rejects.toThrow(`Upsert on 'items' conflicts with an existing row on 'sku' that does not match the filter`);
+    expect(await Item.findOne({ sku: 'a' }).lean()).toMatchObject({ qty: 10, status: 'new' });
+  });
+
+  it('should upsert with updateMany when nothing matches', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'a', status: 'open' });
+
+    const matched = await Item.updateMany({ sku: 'a' }, { $set: { qty: 1 } }, { upsert: true });
+    const inserted = await Item.updateMany({ sku: 'b', status: 'closed' }, { $set: { qty: 2 } }, { upsert: true });
+
+    expect(matched).toMatchObject({ matchedCount: 1, upsertedCount: 0 });
+    expect(inserted).toMatchObject({ matchedCount: 0, upsertedCount: 1 });
+    expect(await Item.findOne({ status: 'closed' }).lean()).toMatchObject({ sku: 'b', qty: 2 });
+  });
+
+  it('should require an _id or unique field equality in the filter', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'a', status: 'open' });
+
+    const message = `Upsert on 'items' needs an _id or unique field equality in the filter`;
+    await expect(Item.updateOne({ status: 'open' }, { $set: { qty: 1 } }, { upsert: true })).rejects.toThrow(message);
+    await expect(Item.updateMany({ status: 'closed' }, { $set: { qty: 1 } }, { upsert: true })).rejects.toThrow(message);
+    await expect(Item.findOneAndUpdate({ qty: 0 }, { $set: { qty: 1 } }, { upsert: true })).rejects.toThrow(message);
+    expect(await Item.find().lean()).toMatchObject([{ sku: 'a', qty: 0 }]);
+  });
+
+  it('should return the upserted document from findOneAndUpdate only with new', async () => {
+    const Item = model('Item', ItemSchema);
+
+    const previous = await Item.findOneAndUpdate({ sku: 'a' }, { $set: { qty: 1 } }, { upsert: true });
+    const created = await Item.findOneAndUpdate({ sku: 'b' }, { $set: { qty: 2 } }, { upsert: true, new: true });
+
+    expect(previous).toBeNull();
+    expect(created).toMatchObject({ sku: 'b', qty: 2, status: 'new' });
+    expect(await Item.countDocuments()).toBe(2);
+  });
+
+  it('should insert dot-path $set fields as nested objects', async () => {
+    const Place = model('Place', new Schema({ name: { type: String, unique: true }, address: { type: Object } }));
+
+    await Place.updateOne({ name: 'office' }, { $set: { 'address.city': 'Ankara', 'address.zip': 6 } }, { upsert: true });
+    await Place.updateOne({ name: 'office' }, { $set: { 'address.city': 'İzmir' } }, { upsert: true });
+
+    expect(await Place.find().lean()).toMatchObject([{ name: 'office', address: { city: 'İzmir', zip: 6 } }]);
+  });
+
+  it('should upsert from findOneAndUpdate in a single statement', async () => {
+    const Item = model('Item', ItemSchema);
+    await Item.create({ sku: 'a', qty: 10 });
+    const run = vi.spyOn(connectionManager.getAdapter() as any, 'run');
+
+    const low = Item.findOneAndUpdate({ sku: 'a', qty: { $lt: 5 } }, { $set: { status: 'low' } }, { upsert: true, new: true });
+
+    await expect(low).rejects.toThrow(`conflicts with an existing row on 'sku'`);
+    expect(run.mock.calls.map(call => call[0] as string).filter(sql => !sql.startsWith('CREATE'))).toEqual([]);
+    expect(await Item.find().lean()).toMatchObject([{ sku: 'a', qty: 10, status: 'new' }]);
+  });
+});
+
+describe('Upsert SQL', () => {
+  it('should use INSERT ... ON CONFLICT DO UPDATE on PostgreSQL', async () => {
+    const adapter = new PostgreSQLAdapter();
+    const queries: Array<{ sql: string; params: unknown[] }> = [];
+    (adapter as any).query = async (sql: string, params: unknown[]) => {
+      queries.push({ sql, params });
+      return sql.startsWith('INSERT') ? [{ _id: 'new', inserted: true }] : [];
+    };
+    (adapter as any).schemas.set('items', ItemSchema);
+
+    const result = await adapter.updateOne('items', { sku: 'a' }, { $inc: { qty: 1 } }, { upsert: true });
+
+    expect(queries[1].sql).toBe(
+      'INSERT INTO "items" ("_id", "sku", "qty") VALUES ($1, $2, $3) ' +
+      'ON CONFLICT ("sku") DO UPDATE SET qty = "items".qty + $4 ' +
+      'WHERE "items"."_id" IN (SELECT "_id" FROM "items" WHERE sku = $5) ' +
+      'RETURNING "_id", (xmax = 0) AS inserted'
+    );
+    expect(queries[1].params.slice(1)).toEqual(['a', 1, 1, 'a']);
+    expect(result).toMatchObject({ upsertedCount: 1, upsertedId: 'new' });
+  });
+
+  it('should reject a PostgreSQL conflict that does not match the filter', async () => {
+    const adapter = new PostgreSQLAdapter();
+    (adapter as any).query = async () => [];
+    (adapter as any).schemas.set('items', ItemSchema);
+
+    await expect(adapter.updateOne('items', { sku: 'a', qty: { $lt: 5 } }, { $inc: { qty: 1 } }, { upsert: true }))
+      .rejects.toThrow(`Upsert on 'items' conflicts with an existing row on 'sku' that does not match the filter`);
+    await expect(adapter.updateMany('items', { status: 'open' }, { $inc: { qty: 1 } }, { upsert: true }))
+      .rejects.toThrow(`Upsert on 'items' needs an _id or unique field equality in the filter`);
+  });
+
+  it('should use ON DUPLICATE KEY UPDATE on MySQL only for a plain key filter', async () => {
+    const adapter = new MySQLAdapter();
+    const queries: string[] = [];
+    (adapter as any).query = async (sql: string) => {
+      queries.push(sql);
+      return sql.startsWith('SELECT') ? [] : { affectedRows: 1 };
+    };
+    (adapter as any).schemas.set('items', ItemSchema);
+
+    const result = await adapter.updateOne('items', { sku: 'a' }, { $inc: { qty: 1 } }, { upsert: true });
+    await adapter.updateOne('items', { sku: 'a', qty: { $lt: 5 } }, { $inc: { qty: 1 } }, { upsert: true });
+
+    const inserts = queries.filter(sql => sql.startsWith('INSERT'));
+    expect(inserts[0]).toBe('INSERT INTO `items` (`_id`, `sku`, `qty`) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE `qty` = `qty` + ?');
+    expect(inserts[1]).not.toContain('ON DUPLICATE KEY UPDATE');
+    expect(result).toMatchObject({ matchedCount: 0, upsertedCount: 1 });
+  });
+
+  it('should upsert and return the document in one PostgreSQL statement from findOneAndUpdate', async () => {
+    const adapter = new PostgreSQLAdapter();
+    const queries: string[] = [];
+    (adapter as any).query = async (sql: string) => {
+      queries.push(sql);
+      return sql.startsWith('INSERT') ? [{ _id: 'new', sku: 'a', qty: 1 }] : [];
+    };
+    (adapter as any).schemas.set('items', ItemSchema);
+
+    const doc = await adapter.findOneAndUpdate('items', { sku: 'a' }, { $inc: { qty: 1 } }, { upsert: true, new: true });
+
+    expect(queries).toHaveLength(2);
+    expect(queries[1]).toBe(
+      'INSERT INTO "items" ("_id", "sku", "qty") VALUES ($1, $2, $3) ' +
+      'ON CONFLICT ("sku") DO UPDATE SET qty = "items".qty + $4 ' +
+      'WHERE "items"."_id" IN (SELECT "_id" FROM "items" WHERE sku = $5) RETURNING *'
+    );
+    expect(doc).toEqual({ _id: 'new', sku: 'a', qty: 1 });
+  });
+
+  it('should upsert inside the MySQL findOneAndUpdate transaction', async () => {
+    const statements: string[] = [];
+    const conn = {
+      beginTransaction: vi.fn(async () => { statements.push('BEGIN'); }),
+      commit: vi.fn(async () => { statements.push('COMMIT'); }),
+      rollback: vi.fn(),
+      release: vi.fn(),
+      execute: vi.fn(async (sql: string) => {
+        statements.push(sql.split(' (')[0]);
+        if (sql.startsWith('SELECT *')) return [[{ _id: 'new', sku: 'a', qty: 1 }]];
+        return [sql.startsWith('SELECT') ? [] : { affectedRows: 1 }];
+      })
+    };
+    const adapter = new MySQLAdapter();
+    (adapter as any).pool = { getConnection: async () => conn, execute: vi.fn() };
+    (adapter as any).connected = true;
+    (adapter as any).schemas.set('items', ItemSchema);
+
+    const doc = await adapter.findOneAndUpdate('items', { sku: 'a' }, { $inc: { qty: 1 } }, { upsert: true, new: true });
+
+    expect(statements).toEqual([
+      'BEGIN',
+      'SELECT `_id` FROM `items` WHERE sku = ? LIMIT 1 FOR UPDATE',
+      'SELECT 1 FROM `items` WHERE `sku` = ? LIMIT 1',
+      'INSERT INTO `items`',
+      'SELECT * FROM `items` WHERE `_id` = ?',
+      'COMMIT'
+    ]);
+    expect(doc).toEqual({ _id: 'new', sku: 'a', qty: 1 });
+  });
+
+  it('should pass upsert and $setOnInsert to MongoDB', async () => {
+    const updateOne = vi.fn(async () => ({
+      acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: 'abc'
+    }));
+    const adapter = new MongoDBAdapter();
+    (adapter as any).getCollection = () => ({ updateOne });
+
+    const result = await adapter.updateOne('items', { sku: 'a' }, { $set: { qty: 1 }, $setOnInsert: { status: 'new' } }, { upsert: true });
+
+    expect(updateOne).toHaveBeenCalledWith(
+      { sku: 'a' },
+      { $set: { qty: 1 }, $setOnInsert: { status: 'new' } },
+      { upsert: true }
+    );
+    expect(result).toMatchObject({ upsertedCount: 1, upsertedId: 'abc' });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Schema, model, connect, disconnect, clearModels, ValidationError } from '../src';
+
+async function validationError(schema: Schema, doc: Record<string, unknown>): Promise<ValidationError> {
+  try {
+    await schema.validate(doc);
+  } catch (error) {
+    return error as ValidationError;
+  }
+  throw new Error('Expected validation to fail');
+}
+
+describe('ValidationError', () => {
+  const UserSchema = new Schema({
+    name: { type: String, required: [true, 'İsim zorunludur'] },
+    email: { type: String, match: [/@/, '{VALUE} geçerli bir e-posta değil'] },
+    role: { type: String, enum: { values: ['user', 'admin'], message: '{PATH} için geçersiz rol: {VALUE}' } },
+    age: { type: Number, min: [18, 'En az 18 yaşında olmalısınız'], max: 120 },
+    bio: { type: String, maxlength: 10 },
+    username: { type: String, minlength: 3 },
+    score: Number,
+    code: {
+      type: String,
+      validate: { validator: (v: unknown) => String(v).startsWith('X'), message: 'Kod X ile başlamalı' }
+    }
+  });
+
+  it('should be thrown with an errors map keyed by path', async () => {
+    const error = await validationError(UserSchema, {});
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ValidationError');
+    expect(error.errors).toEqual({
+      name: { kind: 'required', path: 'name', value: undefined, message: 'İsim zorunludur' }
+    });
+    expect(error.message).toBe('Validation failed: İsim zorunludur');
+  });
+
+  it('should report kind, value and custom messages for each field', async () => {
+    const error = await validationError(UserSchema, {
+      name: 'Ali',
+      email: 'ali.example.com',
+      role: 'root',
+      age: 15,
+      bio: 'x'.repeat(11),
+      username: 'al',
+      score: 'high',
+      code: 'A1'
+    });
+
+    expect(Object.keys(error.errors).sort()).toEqual(['age', 'bio', 'code', 'email', 'role', 'score', 'username']);
+    expect(error.errors.email).toEqual({
+      kind: 'match', path: 'email', value: 'ali.example.com', message: 'ali.example.com geçerli bir e-posta değil'
+    });
+    expect(error.errors.role.message).toBe('role için geçersiz rol: root');
+    expect(error.errors.age).toMatchObject({ kind: 'min', value: 15, message: 'En az 18 yaşında olmalısınız' });
+    expect(error.errors.bio).toMatchObject({ kind: 'maxlength', message: "Field 'bio' must be at most 10 characters" });
+    expect(error.errors.username.kind).toBe('minlength');
+    expect(error.errors.score).toMatchObject({ kind: 'type', value: 'high' });
+    expect(error.errors.code).toMatchObject({ kind: 'custom', message: 'Kod X ile başlamalı' });
+  });
+
+  it('should use default messages and max kind', async () => {
+    const error = await validationError(UserSchema, { name: 'Ali', age: 200 });
+    expect(error.errors.age).toEqual({ kind: 'max', path: 'age', value: 200, message: "Field 'age' must be at most 120" });
+  });
+
+  it('should key subdocument errors by full path', async () => {
+    const schema = new Schema({
+      address: { city: { type: String, required: [true, '{PATH} boş olamaz'] } },
+      items: [new Schema({ qty: { type: Number, min: 1 } })]
+    });
+
+    const error = await validationError(schema, { address: {}, items: [{ qty: 1 }, { qty: 0 }] });
+
+    expect(error.errors['address.city'].message).toBe('address.city boş olamaz');
+    expect(error.errors['items.1.qty']).toMatchObject({ kind: 'min', value: 0 });
+  });
+
+  describe('with a model', () => {
+    beforeEach(async () => {
+      clearModels();
+      await connect({ provider: 'sqlite', uri: 'sqlite::memory:' });
+    });
+
+    afterEach(async () => {
+      await disconnect();
+    });
+
+    it('should reject create() with a ValidationError', async () => {
+      const User = model('User', UserSchema);
+
+      await expect(User.create({ email: 'x@y.z' })).rejects.toBeInstanceOf(ValidationError);
+      expect(await User.countDocuments()).toBe(0);
+    });
+
+    it('should create a nullable column for required: [false, message]', async () => {
+      const Item = model('Item', new Schema({
+        name: { type: String, required: [false, 'name needed'] },
+        n: Number
+      }));
+
+      const item = await Item.create({ n: 1 });
+      expect(item.n).toBe(1);
+      expect(await Item.countDocuments()).toBe(1);
+    });
+  });
+});